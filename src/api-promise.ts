@@ -0,0 +1,89 @@
+import type { WithResponse } from './types.js';
+
+/**
+ * A `Promise` for unwrapped API data that can also expose the underlying
+ * HTTP response metadata.
+ *
+ * @description Every resource method returns an `APIPromise`. Awaiting it
+ * yields the unwrapped `data` exactly like a regular promise. Call
+ * {@link APIPromise.withResponse | withResponse()} instead to receive the
+ * data together with the status, headers, request ID, attempt count, and
+ * elapsed time of the request.
+ *
+ * @typeParam T - The unwrapped response data type.
+ *
+ * @example
+ * ```ts
+ * // Plain usage: just the data
+ * const link = await qck.links.get('550e8400-...');
+ *
+ * // With response metadata
+ * const { data, response } = await qck.links.get('550e8400-...').withResponse();
+ * console.log(response.requestId, response.headers.get('X-RateLimit-Remaining'));
+ * ```
+ */
+export class APIPromise<T> extends Promise<T> {
+  /** Lazily created promise for the unwrapped data. */
+  private parsed: Promise<T> | undefined;
+
+  /**
+   * @param responsePromise - Promise for the data and its response metadata.
+   */
+  constructor(private readonly responsePromise: Promise<WithResponse<T>>) {
+    // The base promise is never observed: `then`, `catch`, and `finally` delegate to the data.
+    super((resolve) => resolve(null as T));
+  }
+
+  /** Derived promises (e.g. from `Promise.all`) are plain promises. */
+  static override get [Symbol.species]() {
+    return Promise;
+  }
+
+  /**
+   * Resolve with the unwrapped data and the HTTP response metadata.
+   *
+   * @returns The data together with status, headers, request ID, attempt count, and timing.
+   */
+  withResponse(): Promise<WithResponse<T>> {
+    return this.responsePromise;
+  }
+
+  /**
+   * Create a new `APIPromise` whose data is derived from this one,
+   * keeping the same response metadata.
+   *
+   * @typeParam U - The transformed data type.
+   * @param fn - Function applied to the unwrapped data.
+   * @returns An `APIPromise` for the transformed data.
+   */
+  transform<U>(fn: (data: T) => U): APIPromise<U> {
+    return new APIPromise(
+      this.responsePromise.then(({ data, response }) => ({ data: fn(data), response })),
+    );
+  }
+
+  override then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): Promise<TResult1 | TResult2> {
+    return this.parse().then(onfulfilled, onrejected);
+  }
+
+  override catch<TResult = never>(
+    onrejected?: ((reason: unknown) => TResult | PromiseLike<TResult>) | null,
+  ): Promise<T | TResult> {
+    return this.parse().catch(onrejected);
+  }
+
+  override finally(onfinally?: (() => void) | null): Promise<T> {
+    return this.parse().finally(onfinally);
+  }
+
+  /**
+   * @returns A promise for the unwrapped data, created on first use.
+   */
+  private parse(): Promise<T> {
+    this.parsed ??= this.responsePromise.then(({ data }) => data);
+    return this.parsed;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Browser journey tracking for pages visitors reach through QCK links.
+ *
+ * @example
+ * ```ts
+ * import { createPublicClient } from '@qcksh/sdk/public';
+ * import { BrowserTracker } from '@qcksh/sdk/browser';
+ *
+ * const qck = createPublicClient({ publishableKey: 'qck_pk_...' });
+ * const tracker = new BrowserTracker(qck.journey);
+ * ```
+ *
+ * @packageDocumentation
+ */
+export { BrowserTracker } from './tracker.js';
+export { JourneySessionManager } from '../journey/session.js';
+export { CookieJourneySessionStore } from '../journey/session-store.js';
+export type { BrowserTrackerOptions } from './types.js';
+export type {
+  JourneySessionManagerOptions,
+  JourneySessionState,
+  JourneySessionStore,
+  CookieJourneySessionStoreOptions,
+} from '../types.js';
@@ -0,0 +1,448 @@
+import type { QCKError } from '../errors.js';
+import { JourneySessionManager } from '../journey/session.js';
+import { parseStoredSession, serializeSession } from '../journey/session-store.js';
+import type { JourneyResource } from '../resources/journey.js';
+import type { JourneyEvent, JourneySessionStore } from '../types.js';
+import type { BrowserTrackerOptions } from './types.js';
+
+/** Maximum number of events the ingest endpoint accepts per request. */
+const MAX_INGEST_BATCH_SIZE = 100;
+/** Events held while sends keep failing; the oldest are dropped beyond it. */
+const MAX_QUEUED_EVENTS = 1000;
+/**
+ * Largest body sent with `keepalive` when the page is hidden. Browsers refuse
+ * keepalive requests once the bodies in flight pass 64 KiB combined.
+ */
+const MAX_KEEPALIVE_BYTES = 60_000;
+
+const DEFAULT_SCROLL_THRESHOLDS = [25, 50, 75, 100];
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+
+/** The type-specific fields of an event; the tracker fills in the rest. */
+type EventFields<E extends JourneyEvent = JourneyEvent> = E extends JourneyEvent
+  ? Omit<E, 'link_id' | 'visitor_id' | 'session_id' | 'page_url' | 'timestamp'>
+  : never;
+
+/** The page view currently being tracked. */
+interface PageState {
+  url: string;
+  title: string;
+  /** Visible time accumulated before `visibleSince`, in milliseconds. */
+  visibleMs: number;
+  /** When the page last became visible, or `null` while hidden. */
+  visibleSince: number | null;
+  /** Scroll thresholds already reported for this page view. */
+  scrolled: Set<number>;
+  timeReported: boolean;
+}
+
+/**
+ * Tracks visitor journeys in the browser and sends them with `journey.ingest`.
+ *
+ * @description On creation, the tracker reads the link UUID from the `?qck_link=`
+ * parameter QCK adds when redirecting (remembering it for later pages), and
+ * restores or creates a visitor ID. Events get their `session_id` from a
+ * {@link JourneySessionManager}, so sessions roll over after inactivity, at
+ * midnight and on a new campaign, as on your servers. It then emits:
+ *
+ * - `page_view` on load and on every history navigation (`pushState`,
+ *   `replaceState` and back/forward), so single-page apps are covered.
+ * - `scroll_depth` once per page view for each threshold scrolled past.
+ * - `time_on_page`, in seconds the page was visible, when the visitor navigates
+ *   away or first hides the page.
+ *
+ * Events are queued and sent in batches every `flushIntervalMs`. When the page
+ * is hidden, the oldest events are sent with `keepalive`, up to the browser's
+ * 64 KiB limit, so they survive the page being closed. (`navigator.sendBeacon`
+ * can't carry the key header.) The rest are kept in `storage` and sent by the
+ * next page load. Without a link UUID, the visitor didn't arrive through a QCK
+ * link and nothing is sent.
+ *
+ * @example
+ * ```ts
+ * import { createPublicClient } from '@qcksh/sdk/public';
+ * import { BrowserTracker } from '@qcksh/sdk/browser';
+ *
+ * const qck = createPublicClient({ publishableKey: 'qck_pk_...' });
+ * const tracker = new BrowserTracker(qck.journey, { scrollThresholds: [50, 90] });
+ *
+ * signupButton.addEventListener('click', () => tracker.track('signup_click', { plan: 'pro' }));
+ * ```
+ */
+export class BrowserTracker {
+  /** Persistent, anonymous ID of this browser. */
+  readonly visitorId: string;
+  private readonly window: Window;
+  private readonly link: string | null;
+  private readonly sessions: JourneySessionManager;
+  private readonly scrollThresholds: number[];
+  private readonly timeOnPage: boolean;
+  private readonly onError?: (error: unknown) => void;
+  private readonly storage: Storage | undefined;
+  private readonly storageKeyPrefix: string;
+  /** Used when `storage` is unavailable. */
+  private readonly memoryStorage = new Map<string, string>();
+  /** Session of the latest stamped event. */
+  private session: string | null = null;
+  private page: PageState;
+  /** Events waiting to be sent, oldest first. */
+  private queue: JourneyEvent[] = [];
+  /** Stamps emitted events with their session in order, then queues them. */
+  private stamping: Promise<void> = Promise.resolve();
+  /** Serializes regular flushes so batches are sent in order. */
+  private flushChain: Promise<void> = Promise.resolve();
+  /** Undo the listeners, timer and history patches installed on creation. */
+  private readonly teardown: Array<() => void> = [];
+  private stopped = false;
+
+  /**
+   * @param journey - The journey resource events are sent with, e.g. `journey` of
+   *   a {@link createPublicClient} client.
+   * @param options - Attribution, session, tracking and sending options.
+   * @throws {Error} If there is no `window` (e.g. during server-side rendering).
+   */
+  constructor(
+    private readonly journey: Pick<JourneyResource, 'ingest'>,
+    options: BrowserTrackerOptions = {},
+  ) {
+    const win = options.window ?? (globalThis as { window?: Window }).window;
+    if (!win) {
+      throw new Error('BrowserTracker requires a browser window. Create it on the client only.');
+    }
+    this.window = win;
+    this.scrollThresholds =
+      options.scrollThresholds === false
+        ? []
+        : [...(options.scrollThresholds ?? DEFAULT_SCROLL_THRESHOLDS)].sort((a, b) => a - b);
+    this.timeOnPage = options.timeOnPage ?? true;
+    this.onError = options.onError;
+    this.storageKeyPrefix = options.storageKeyPrefix ?? 'qck_';
+    try {
+      this.storage = options.storage ?? win.localStorage;
+    } catch {
+      // Accessing localStorage throws when the browser blocks storage.
+      this.storage = undefined;
+    }
+
+    this.link = options.linkId ?? this.resolveLinkId(options.linkParam ?? 'qck_link');
+    this.visitorId = this.read('visitor_id') ?? crypto.randomUUID();
+    this.write('visitor_id', this.visitorId);
+    this.sessions =
+      options.sessions ??
+      new JourneySessionManager({
+        timeoutMs: options.sessionTimeoutMs,
+        store: this.sessionStore(),
+      });
+    this.queue = this.restoreQueue();
+    this.page = this.newPage();
+
+    this.listen(win.document, 'visibilitychange', () => this.onVisibilityChange());
+    this.listen(win, 'pagehide', () => this.onPageHide());
+    if (this.scrollThresholds.length > 0) {
+      this.listen(win, 'scroll', () => this.onScroll(), { passive: true });
+    }
+    if (options.pageViews ?? true) {
+      this.patchHistory();
+      this.listen(win, 'popstate', () => this.onNavigate());
+      this.emit({ event_type: 'page_view' });
+    }
+
+    const interval = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+    if (interval > 0) {
+      const timer = setInterval(() => void this.flush(), interval);
+      this.teardown.push(() => clearInterval(timer));
+    }
+  }
+
+  /** The link UUID events are attributed to, or `null` if the visitor didn't arrive via QCK. */
+  get linkId(): string | null {
+    return this.link;
+  }
+
+  /** The session ID of the latest event, or `null` until the first one is stamped. */
+  get sessionId(): string | null {
+    return this.session;
+  }
+
+  /**
+   * Record a custom event on the current page.
+   *
+   * @param eventName - Name of the event (e.g. `'signup_click'`).
+   * @param properties - Arbitrary properties stored with the event.
+   */
+  track(eventName: string, properties?: Record<string, unknown>): void {
+    this.emit({
+      event_type: 'custom',
+      event_name: eventName,
+      ...(properties ? { properties } : {}),
+    });
+  }
+
+  /**
+   * Send every queued event now.
+   *
+   * @returns Resolves once the queue has been sent. Never rejects: failures are
+   *   reported to `onError`, and events failing with retryable errors are
+   *   re-queued for the next flush.
+   */
+  flush(): Promise<void> {
+    this.flushChain = this.flushChain.then(async () => {
+      await this.stamping;
+      while (this.queue.length > 0) {
+        if (!(await this.send(this.queue.splice(0, MAX_INGEST_BATCH_SIZE)))) break;
+      }
+      if (this.window.document.visibilityState === 'hidden') this.storeQueue();
+      else this.remove('queue');
+    });
+    return this.flushChain;
+  }
+
+  /**
+   * Stop tracking: report time on the current page, remove listeners, restore
+   * `history`, and send everything queued.
+   *
+   * @returns Resolves once the queue has been sent.
+   */
+  async stop(): Promise<void> {
+    if (this.stopped) return;
+    this.reportTimeOnPage();
+    this.stopped = true;
+    for (const undo of this.teardown.splice(0)) undo();
+    await this.flush();
+  }
+
+  /** Queue an event for the current page once it's stamped with its session. */
+  private emit(fields: EventFields): void {
+    if (this.link === null || this.stopped) return;
+    const event = {
+      link_id: this.link,
+      visitor_id: this.visitorId,
+      page_url: this.page.url,
+      ...(this.page.title ? { page_title: this.page.title } : {}),
+      timestamp: new Date().toISOString(),
+      ...fields,
+    } as JourneyEvent;
+    this.stamping = this.stamping.then(async () => {
+      let stamped = event;
+      try {
+        stamped = await this.sessions.stamp(event);
+        this.session = stamped.session_id ?? null;
+      } catch (err) {
+        // The session store failed; send the event without a session.
+        this.onError?.(err);
+      }
+      this.queue.push(stamped);
+      if (this.queue.length > MAX_QUEUED_EVENTS) {
+        this.queue.splice(0, this.queue.length - MAX_QUEUED_EVENTS);
+      }
+    });
+  }
+
+  /**
+   * Send one batch.
+   *
+   * @returns Whether it was sent (or dropped as invalid). Batches failing with
+   *   retryable errors are put back at the front of the queue.
+   */
+  private async send(batch: JourneyEvent[], keepalive = false): Promise<boolean> {
+    try {
+      await this.journey.ingest({ events: batch }, keepalive ? { keepalive } : undefined);
+      return true;
+    } catch (err) {
+      this.onError?.(err);
+      if (isPermanentFailure(err)) return true;
+      this.queue.unshift(...batch);
+      this.queue.splice(0, this.queue.length - MAX_QUEUED_EVENTS);
+      return false;
+    }
+  }
+
+  /**
+   * Send the oldest events that fit in one `keepalive` request, without waiting
+   * for earlier flushes, and store the rest in case the page is closed.
+   */
+  private flushOnHide(): void {
+    const encoder = new TextEncoder();
+    let bytes = encoder.encode(JSON.stringify({ events: [] })).length;
+    let count = 0;
+    for (const event of this.queue.slice(0, MAX_INGEST_BATCH_SIZE)) {
+      // Each event after the first also adds a comma.
+      bytes += encoder.encode(JSON.stringify(event)).length + (count > 0 ? 1 : 0);
+      if (bytes > MAX_KEEPALIVE_BYTES) break;
+      count++;
+    }
+    if (count > 0) void this.send(this.queue.splice(0, count), true);
+    this.storeQueue();
+  }
+
+  private onVisibilityChange(): void {
+    if (this.window.document.visibilityState === 'hidden') {
+      this.onPageHide();
+    } else {
+      // The page is still open, so the queue in memory will be sent.
+      this.remove('queue');
+      if (this.page.visibleSince === null) this.page.visibleSince = Date.now();
+    }
+  }
+
+  private onPageHide(): void {
+    this.reportTimeOnPage();
+    if (this.page.visibleSince !== null) {
+      this.page.visibleMs += Date.now() - this.page.visibleSince;
+      this.page.visibleSince = null;
+    }
+    // Stamping with the default store settles in microtasks, before the page unloads.
+    void this.stamping.then(() => this.flushOnHide());
+  }
+
+  /** Start a new page view if history navigation changed the URL. */
+  private onNavigate(): void {
+    if (pageUrl(this.window.location) === this.page.url) return;
+    this.reportTimeOnPage();
+    this.page = this.newPage();
+    this.emit({ event_type: 'page_view' });
+  }
+
+  private onScroll(): void {
+    const { document, innerHeight, scrollY } = this.window;
+    const height = document.documentElement.scrollHeight;
+    const percent = height > 0 ? ((scrollY + innerHeight) / height) * 100 : 100;
+    for (const threshold of this.scrollThresholds) {
+      if (threshold > percent) break;
+      if (this.page.scrolled.has(threshold)) continue;
+      this.page.scrolled.add(threshold);
+      this.emit({ event_type: 'scroll_depth', scroll_percent: threshold });
+    }
+  }
+
+  /** Emit `time_on_page` for the current page view, once. */
+  private reportTimeOnPage(): void {
+    if (!this.timeOnPage || this.page.timeReported) return;
+    this.page.timeReported = true;
+    const visibleMs =
+      this.page.visibleMs +
+      (this.page.visibleSince === null ? 0 : Date.now() - this.page.visibleSince);
+    this.emit({ event_type: 'time_on_page', time_on_page: Math.round(visibleMs / 1000) });
+  }
+
+  /** Call the tracker after `history.pushState` and `replaceState`. */
+  private patchHistory(): void {
+    const { history } = this.window;
+    for (const method of ['pushState', 'replaceState'] as const) {
+      const original = history[method];
+      history[method] = (...args: Parameters<History['pushState']>) => {
+        original.apply(history, args);
+        this.onNavigate();
+      };
+      this.teardown.push(() => {
+        history[method] = original;
+      });
+    }
+  }
+
+  private newPage(): PageState {
+    const visible = this.window.document.visibilityState !== 'hidden';
+    return {
+      url: pageUrl(this.window.location),
+      title: this.window.document.title,
+      visibleMs: 0,
+      visibleSince: visible ? Date.now() : null,
+      scrolled: new Set(),
+      timeReported: false,
+    };
+  }
+
+  /** @returns The link UUID from the URL (remembering it), else the remembered one. */
+  private resolveLinkId(param: string): string | null {
+    const fromUrl = new URLSearchParams(this.window.location.search).get(param);
+    if (fromUrl) {
+      this.write('link_id', fromUrl);
+      return fromUrl;
+    }
+    return this.read('link_id');
+  }
+
+  /** @returns The events a previous page stored unsent, removing them from storage. */
+  private restoreQueue(): JourneyEvent[] {
+    const stored = this.read('queue');
+    if (stored === null) return [];
+    this.remove('queue');
+    try {
+      const events = JSON.parse(stored) as unknown;
+      return Array.isArray(events) ? (events as JourneyEvent[]).slice(-MAX_QUEUED_EVENTS) : [];
+    } catch {
+      // Corrupt value; nothing to send.
+      return [];
+    }
+  }
+
+  /** Keep the unsent events in storage for the next page load. */
+  private storeQueue(): void {
+    if (this.queue.length > 0) this.write('queue', JSON.stringify(this.queue));
+    else this.remove('queue');
+  }
+
+  /** @returns A session store over `storage`, for the default session manager. */
+  private sessionStore(): JourneySessionStore {
+    return {
+      get: async (visitorId) => {
+        const stored = this.read('session');
+        return stored === null ? undefined : parseStoredSession(stored, visitorId);
+      },
+      set: async (visitorId, session) => this.write('session', serializeSession(visitorId, session)),
+      delete: async () => this.remove('session'),
+    };
+  }
+
+  private listen(
+    target: EventTarget,
+    type: string,
+    listener: () => void,
+    options?: AddEventListenerOptions,
+  ): void {
+    target.addEventListener(type, listener, options);
+    this.teardown.push(() => target.removeEventListener(type, listener, options));
+  }
+
+  private read(key: string): string | null {
+    try {
+      const value = this.storage?.getItem(this.storageKeyPrefix + key);
+      if (value != null) return value;
+    } catch {
+      // Storage blocked; fall back to memory.
+    }
+    return this.memoryStorage.get(key) ?? null;
+  }
+
+  private write(key: string, value: string): void {
+    this.memoryStorage.set(key, value);
+    try {
+      this.storage?.setItem(this.storageKeyPrefix + key, value);
+    } catch {
+      // Quota exceeded or storage blocked; the in-memory copy still works.
+    }
+  }
+
+  private remove(key: string): void {
+    this.memoryStorage.delete(key);
+    try {
+      this.storage?.removeItem(this.storageKeyPrefix + key);
+    } catch {
+      // Storage blocked; nothing was stored there.
+    }
+  }
+}
+
+/**
+ * Whether an ingest error won't go away on retry. Reads `isRetryable` instead of
+ * using `instanceof QCKError`, as the journey resource may come from another
+ * bundle with its own copy of the error classes.
+ */
+function isPermanentFailure(error: unknown): boolean {
+  return (error as Partial<QCKError> | null | undefined)?.isRetryable === false;
+}
+
+/** @returns The URL of a page view: the location without its fragment. */
+function pageUrl(location: Location): string {
+  return location.href.split('#')[0];
+}
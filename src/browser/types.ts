@@ -0,0 +1,48 @@
+import type { JourneySessionManager } from '../journey/session.js';
+
+/** Options for {@link BrowserTracker}. */
+export interface BrowserTrackerOptions {
+  /**
+   * Link UUID to attribute events to. Defaults to the `qck_link` query parameter
+   * QCK adds when redirecting, remembered for later pages.
+   */
+  linkId?: string;
+  /** Query parameter the link UUID is read from. @default 'qck_link' */
+  linkParam?: string;
+  /**
+   * Assigns each event's `session_id`. Pass the options your servers use, so
+   * sessions split the same way everywhere. Defaults to a manager keeping the
+   * session in `storage`, with `sessionTimeoutMs` and the default rollover rules.
+   */
+  sessions?: JourneySessionManager;
+  /**
+   * Start a new session after this long without events, in milliseconds.
+   * Ignored when `sessions` is passed.
+   * @default 1_800_000 (30 minutes)
+   */
+  sessionTimeoutMs?: number;
+  /**
+   * Where the visitor ID, session, link UUID and events left unsent when the
+   * page was hidden are persisted. Falls back to memory if it is unavailable
+   * (e.g. storage blocked by the browser).
+   * @default window.localStorage
+   */
+  storage?: Storage;
+  /** Prefix of the keys written to `storage`. @default 'qck_' */
+  storageKeyPrefix?: string;
+  /** Emit `page_view` events on load and on history navigation. @default true */
+  pageViews?: boolean;
+  /**
+   * Scroll depths (percent) that emit a `scroll_depth` event once per page view.
+   * `false` disables scroll tracking. @default [25, 50, 75, 100]
+   */
+  scrollThresholds?: number[] | false;
+  /** Emit `time_on_page` events when the visitor leaves a page. @default true */
+  timeOnPage?: boolean;
+  /** Send queued events this often, in milliseconds. @default 5000 */
+  flushIntervalMs?: number;
+  /** Called when sending events fails. Events failing with retryable errors are re-sent. */
+  onError?: (error: unknown) => void;
+  /** The window to track. Pass a DOM emulator's window in tests. @default globalThis.window */
+  window?: Window;
+}
@@ -1,11 +1,32 @@
 import {
   QCKError,
   AuthenticationError,
+  PermissionDeniedError,
   RateLimitError,
   NotFoundError,
+  ConflictError,
   ValidationError,
+  ServerError,
+  TimeoutError,
+  NetworkError,
 } from './errors.js';
-import type { ApiResponse, RequestOptions } from './types.js';
+import { APIPromise } from './api-promise.js';
+import { RateLimiter } from './rate-limiter.js';
+import { RetryStrategy, parseRetryAfter } from './retry.js';
+import type {
+  ApiResponse,
+  FetchLike,
+  FieldError,
+  Middleware,
+  MiddlewareRequest,
+  QCKErrorOptions,
+  RateLimitOptions,
+  RateLimitStatus,
+  RequestOptions,
+  RetryContext,
+  RetryPolicy,
+  WithResponse,
+} from './types.js';
 
 /** Default base URL for the QCK public API. */
 const DEFAULT_BASE_URL = 'https://api.qck.sh/public-api/v1';
@@ -13,8 +34,24 @@ const DEFAULT_BASE_URL = 'https://api.qck.sh/public-api/v1';
 const DEFAULT_TIMEOUT = 30_000;
 /** Default number of automatic retries on transient failures. */
 const DEFAULT_RETRIES = 3;
-/** Maximum delay between retries in milliseconds (2 minutes). */
-const MAX_RETRY_DELAY_MS = 120_000;
+/** Seconds to wait after a 429 that carries no usable `Retry-After` header. */
+const DEFAULT_RATE_LIMIT_RETRY_AFTER = 60;
+/** Response header carrying the server-assigned request ID. */
+const REQUEST_ID_HEADER = 'X-Request-ID';
+/** Request header that lets the server deduplicate retried mutations. */
+const IDEMPOTENCY_KEY_HEADER = 'X-Idempotency-Key';
+/** HTTP methods that change server state and are sent with an idempotency key. */
+const MUTATING_METHODS: ReadonlySet<string> = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/** Result of an attempt that failed, with the server's `Retry-After` (in seconds) if it sent one. */
+interface AttemptFailure {
+  error: QCKError;
+  retryAfter: number | null;
+  data?: undefined;
+}
+
+/** Result of a single request attempt. */
+type AttemptOutcome<T> = { data: T; response: Response; error?: undefined } | AttemptFailure;
 
 /**
  * Low-level HTTP client that handles authentication, retries,
@@ -34,14 +71,24 @@ const MAX_RETRY_DELAY_MS = 120_000;
  * ```
  */
 export class HttpClient {
-  /** API key used for authenticating requests via the `X-API-Key` header. */
+  /** Key used for authenticating requests, sent in the `authHeader` header. */
   private readonly apiKey: string;
+  /** Header carrying the key: `X-API-Key`, or `X-Publishable-Key` for publishable keys. */
+  private readonly authHeader: string;
   /** Base URL for all API requests (trailing slashes are stripped). */
   private readonly baseUrl: string;
   /** Request timeout in milliseconds. */
   private readonly timeout: number;
   /** Maximum number of automatic retries on transient failures. */
   private readonly retries: number;
+  /** Middleware run, in order, around every request attempt. */
+  private readonly middleware: readonly Middleware[];
+  /** Fetch implementation used to send every request. */
+  private readonly fetch: FetchLike;
+  /** Throttle and rate-limit header tracker shared by all requests. */
+  private readonly rateLimiter: RateLimiter;
+  /** Decides which failures are retried and the delay between attempts. */
+  private readonly retryStrategy: RetryStrategy;
 
   /**
    * Create a new HTTP client instance.
@@ -51,6 +98,12 @@ export class HttpClient {
    * @param config.baseUrl - Base URL for the API. Defaults to `'https://api.qck.sh/public-api/v1'`.
    * @param config.timeout - Request timeout in milliseconds. Defaults to `30000`.
    * @param config.retries - Number of automatic retries. Defaults to `3`.
+   * @param config.middleware - Ordered middleware run around every request attempt. Defaults to `[]`.
+   * @param config.fetch - Fetch implementation used to send requests. Defaults to the global `fetch`.
+   * @param config.rateLimit - Client-side throttle settings. Defaults to no throttling.
+   * @param config.retryPolicy - Retryable failures, backoff, and jitter. Defaults to retrying
+   *   429/502/503/504, timeouts, and network errors with full-jitter exponential backoff.
+   * @param config.authHeader - Header the key is sent in. Defaults to `'X-API-Key'`.
    * @throws {AuthenticationError} If `apiKey` is empty or not provided.
    */
   constructor(config: {
@@ -58,14 +111,25 @@ export class HttpClient {
     baseUrl?: string;
     timeout?: number;
     retries?: number;
+    middleware?: Middleware[];
+    fetch?: FetchLike;
+    rateLimit?: RateLimitOptions;
+    retryPolicy?: RetryPolicy;
+    authHeader?: string;
   }) {
     if (!config.apiKey) {
       throw new AuthenticationError('API key is required');
     }
     this.apiKey = config.apiKey;
+    this.authHeader = config.authHeader ?? 'X-API-Key';
     this.baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
     this.timeout = config.timeout ?? DEFAULT_TIMEOUT;
     this.retries = config.retries ?? DEFAULT_RETRIES;
+    this.middleware = [...(config.middleware ?? [])];
+    // Resolve the global lazily so it can be replaced after construction
+    this.fetch = config.fetch ?? ((url, init) => fetch(url, init));
+    this.rateLimiter = new RateLimiter(config.rateLimit);
+    this.retryStrategy = new RetryStrategy(config.retryPolicy);
   }
 
   // ── Public Methods ──
@@ -75,12 +139,12 @@ export class HttpClient {
    *
    * @typeParam T - Expected response data type.
    * @param path - API endpoint path (e.g. `'/links'`).
-   * @param options - Optional query parameters.
-   * @returns The unwrapped response data.
+   * @param options - Optional query parameters and per-call overrides.
+   * @returns The unwrapped response data. Call `.withResponse()` to also get response metadata.
    * @throws {QCKError} On API errors, network failures, or timeouts.
    */
-  async get<T>(path: string, options?: RequestOptions): Promise<T> {
-    return this.request<T>('GET', path, undefined, options);
+  get<T>(path: string, options?: RequestOptions): APIPromise<T> {
+    return new APIPromise(this.request<T>('GET', path, undefined, options));
   }
 
   /**
@@ -89,12 +153,12 @@ export class HttpClient {
    * @typeParam T - Expected response data type.
    * @param path - API endpoint path.
    * @param body - JSON-serializable request body.
-   * @param options - Optional query parameters.
+   * @param options - Optional query parameters and per-call overrides.
    * @returns The unwrapped response data.
    * @throws {QCKError} On API errors, network failures, or timeouts.
    */
-  async post<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T> {
-    return this.request<T>('POST', path, body, options);
+  post<T>(path: string, body?: unknown, options?: RequestOptions): APIPromise<T> {
+    return new APIPromise(this.request<T>('POST', path, body, options));
   }
 
   /**
@@ -103,12 +167,12 @@ export class HttpClient {
    * @typeParam T - Expected response data type.
    * @param path - API endpoint path.
    * @param body - JSON-serializable request body with partial update fields.
-   * @param options - Optional query parameters.
+   * @param options - Optional query parameters and per-call overrides.
    * @returns The unwrapped response data.
    * @throws {QCKError} On API errors, network failures, or timeouts.
    */
-  async patch<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T> {
-    return this.request<T>('PATCH', path, body, options);
+  patch<T>(path: string, body?: unknown, options?: RequestOptions): APIPromise<T> {
+    return new APIPromise(this.request<T>('PATCH', path, body, options));
   }
 
   /**
@@ -117,12 +181,12 @@ export class HttpClient {
    * @typeParam T - Expected response data type.
    * @param path - API endpoint path.
    * @param body - JSON-serializable request body.
-   * @param options - Optional query parameters.
+   * @param options - Optional query parameters and per-call overrides.
    * @returns The unwrapped response data.
    * @throws {QCKError} On API errors, network failures, or timeouts.
    */
-  async put<T>(path: string, body?: unknown, options?: RequestOptions): Promise<T> {
-    return this.request<T>('PUT', path, body, options);
+  put<T>(path: string, body?: unknown, options?: RequestOptions): APIPromise<T> {
+    return new APIPromise(this.request<T>('PUT', path, body, options));
   }
 
   /**
@@ -133,17 +197,17 @@ export class HttpClient {
    * @param path - API endpoint path.
    * @param body - Binary data to upload.
    * @param contentType - MIME type of the body (e.g. `'image/png'`).
-   * @param options - Optional query parameters.
+   * @param options - Optional query parameters and per-call overrides.
    * @returns The unwrapped response data.
    * @throws {QCKError} On API errors, network failures, or timeouts.
    */
-  async putRaw<T>(
+  putRaw<T>(
     path: string,
     body: Blob | ArrayBuffer | Uint8Array,
     contentType: string,
     options?: RequestOptions,
-  ): Promise<T> {
-    return this.requestRaw<T>('PUT', path, body, contentType, options);
+  ): APIPromise<T> {
+    return new APIPromise(this.requestRaw<T>('PUT', path, body, contentType, options));
   }
 
   /**
@@ -151,26 +215,35 @@ export class HttpClient {
    *
    * @typeParam T - Expected response data type (defaults to `void`).
    * @param path - API endpoint path.
-   * @param options - Optional query parameters.
+   * @param options - Optional query parameters and per-call overrides.
    * @returns The unwrapped response data, or `undefined` for 204 responses.
    * @throws {QCKError} On API errors, network failures, or timeouts.
    */
-  async delete<T = void>(path: string, options?: RequestOptions): Promise<T> {
-    return this.request<T>('DELETE', path, undefined, options);
+  delete<T = void>(path: string, options?: RequestOptions): APIPromise<T> {
+    return new APIPromise(this.request<T>('DELETE', path, undefined, options));
+  }
+
+  /**
+   * Get a snapshot of the current rate-limit budget.
+   *
+   * @returns Server-reported limits alongside the local queue and throttle state.
+   */
+  rateLimitStatus(): RateLimitStatus {
+    return this.rateLimiter.status();
   }
 
   // ── Internal ──
 
   /**
-   * Core request method that handles JSON serialization, retries,
-   * rate-limit backoff, timeout via AbortController, and error mapping.
+   * Core JSON request method. Serializes the body and delegates to
+   * {@link execute} for retries, middleware, and error mapping.
    *
    * @typeParam T - Expected response data type.
    * @param method - HTTP method.
    * @param path - API endpoint path.
    * @param body - Optional JSON-serializable request body.
-   * @param options - Optional query parameters.
-   * @returns The unwrapped response data.
+   * @param options - Optional query parameters and per-call overrides.
+   * @returns The unwrapped response data with its response metadata.
    * @throws {RateLimitError} When rate limited and all retries are exhausted.
    * @throws {QCKError} On API errors, network failures, or timeouts.
    */
@@ -179,210 +252,287 @@ export class HttpClient {
     path: string,
     body?: unknown,
     options?: RequestOptions,
-  ): Promise<T> {
+  ): Promise<WithResponse<T>> {
+    return this.execute<T>(
+      method,
+      path,
+      body !== undefined ? JSON.stringify(body) : undefined,
+      body !== undefined ? 'application/json' : undefined,
+      options,
+    );
+  }
+
+  /**
+   * Like {@link request} but sends a raw (non-JSON) body with a given Content-Type.
+   * Used for binary file uploads such as OG images.
+   *
+   * @typeParam T - Expected response data type.
+   * @param method - HTTP method.
+   * @param path - API endpoint path.
+   * @param body - Binary data to send.
+   * @param contentType - MIME type of the body.
+   * @param options - Optional query parameters and per-call overrides.
+   * @returns The unwrapped response data with its response metadata.
+   * @throws {RateLimitError} When rate limited and all retries are exhausted.
+   * @throws {QCKError} On API errors, network failures, or timeouts.
+   */
+  private async requestRaw<T>(
+    method: string,
+    path: string,
+    body: Blob | ArrayBuffer | Uint8Array,
+    contentType: string,
+    options?: RequestOptions,
+  ): Promise<WithResponse<T>> {
+    return this.execute<T>(method, path, body as BodyInit, contentType, options);
+  }
+
+  /**
+   * Run a request through the middleware chain with retries (per the retry
+   * policy), timeout via AbortController, and error mapping. Mutating requests
+   * carry an idempotency key that stays the same across retries.
+   *
+   * Every attempt gets a fresh copy of the headers, so middleware sees
+   * (and may mutate) each individual attempt, including retries.
+   *
+   * @typeParam T - Expected response data type.
+   * @param method - HTTP method.
+   * @param path - API endpoint path.
+   * @param body - Already-encoded request body, if any.
+   * @param contentType - MIME type of the body, if any.
+   * @param options - Optional query parameters, extra headers, and per-call overrides.
+   * @returns The unwrapped response data with its response metadata.
+   * @throws {RateLimitError} When rate limited and all retries are exhausted.
+   * @throws {QCKError} On API errors, network failures, timeouts, or when aborted by the caller.
+   */
+  private async execute<T>(
+    method: string,
+    path: string,
+    body: BodyInit | undefined,
+    contentType: string | undefined,
+    options?: RequestOptions,
+  ): Promise<WithResponse<T>> {
     const url = this.buildUrl(path, options?.params);
+    const startedAt = Date.now();
 
     const headers: Record<string, string> = {
-      'X-API-Key': this.apiKey,
+      [this.authHeader]: this.apiKey,
       'Accept': 'application/json',
     };
 
-    if (body !== undefined) {
-      headers['Content-Type'] = 'application/json';
+    if (contentType !== undefined) {
+      headers['Content-Type'] = contentType;
+    }
+
+    // One key per logical call, reused by every retry so the server can deduplicate
+    if (MUTATING_METHODS.has(method)) {
+      headers[IDEMPOTENCY_KEY_HEADER] = options?.idempotencyKey ?? crypto.randomUUID();
     }
 
     if (options?.headers) {
       Object.assign(headers, options.headers);
     }
 
-    let lastError: Error | undefined;
-
-    for (let attempt = 0; attempt <= this.retries; attempt++) {
+    const timeout = options?.timeout ?? this.timeout;
+    const retries = options?.retries ?? this.retries;
+    const signal = options?.signal;
+    let retryDelay = 0;
+
+    for (let attempt = 0; ; attempt++) {
+      const request: MiddlewareRequest = {
+        method,
+        url,
+        path,
+        headers: { ...headers },
+        attempt,
+      };
+
+      // Rejects only if the caller aborts before a slot is free
+      let release: () => void;
       try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-        const response = await fetch(url, {
-          method,
-          headers,
-          body: body !== undefined ? JSON.stringify(body) : undefined,
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-
-        // Handle rate limiting with retry
-        if (response.status === 429) {
-          const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
-          if (attempt < this.retries) {
-            await sleep(Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS));
-            continue;
-          }
-          throw new RateLimitError(
-            'Rate limit exceeded',
-            retryAfter,
-          );
-        }
+        release = await this.rateLimiter.acquire(signal);
+      } catch {
+        throw abortedError(request);
+      }
 
-        // Handle other error status codes
-        if (!response.ok) {
-          throw await this.mapError(response);
-        }
+      if (signal?.aborted) {
+        release();
+        throw abortedError(request);
+      }
 
-        // Successful DELETE with no body
-        if (response.status === 204 || response.headers.get('content-length') === '0') {
-          return undefined as unknown as T;
+      let outcome: AttemptOutcome<T>;
+      try {
+        for (const middleware of this.middleware) {
+          await middleware.onRequest?.(request);
         }
 
-        // Parse and unwrap
-        const json = (await response.json()) as ApiResponse<T>;
+        outcome = await this.attempt<T>(request, body, timeout, signal, options?.keepalive);
+      } finally {
+        release();
+      }
 
-        if (!json.success && json.error) {
-          throw new QCKError(
-            json.error.message,
-            response.status,
-            json.error.code,
-          );
-        }
+      if (outcome.error === undefined) {
+        const { response } = outcome;
+        return {
+          data: outcome.data,
+          response: {
+            status: response.status,
+            headers: response.headers,
+            requestId: response.headers.get(REQUEST_ID_HEADER),
+            attempts: attempt + 1,
+            elapsedMs: Date.now() - startedAt,
+            raw: response,
+          },
+        };
+      }
 
-        return json.data as T;
-      } catch (err: unknown) {
-        if (err instanceof RateLimitError && attempt >= this.retries) {
-          throw err;
-        }
+      for (const middleware of this.middleware) {
+        await middleware.onError?.(outcome.error, request);
+      }
 
-        // Don't retry client errors (except 429, handled above)
-        if (err instanceof QCKError) {
-          throw err;
-        }
+      const context: RetryContext = {
+        error: outcome.error,
+        attempt,
+        method,
+        path,
+        retryAfter: outcome.retryAfter,
+      };
 
-        // Abort errors (timeout)
-        if (err instanceof DOMException && err.name === 'AbortError') {
-          lastError = new QCKError('Request timed out', 0, 'TIMEOUT');
-          if (attempt >= this.retries) {
-            throw lastError;
-          }
-          continue;
-        }
+      if (attempt >= retries || !this.retryStrategy.shouldRetry(context)) {
+        throw outcome.error;
+      }
 
-        // Network errors — retry
-        lastError = err instanceof Error ? err : new Error(String(err));
-        if (attempt >= this.retries) {
-          throw new QCKError(
-            `Network error: ${lastError.message}`,
-            0,
-            'NETWORK_ERROR',
-          );
-        }
+      retryDelay = this.retryStrategy.delay(attempt, outcome.retryAfter, retryDelay);
+      await this.retryStrategy.notify(context, retryDelay);
 
-        // Exponential backoff for network errors
-        await sleep(Math.min(1000 * 2 ** attempt, 10_000));
+      if (retryDelay > 0) {
+        try {
+          await sleep(retryDelay, signal);
+        } catch {
+          throw abortedError(request);
+        }
       }
     }
-
-    throw lastError ?? new QCKError('Request failed', 0, 'UNKNOWN');
   }
 
   /**
-   * Like {@link request} but sends a raw (non-JSON) body with a given Content-Type.
-   * Used for binary file uploads such as OG images.
+   * Send a single attempt and classify its result.
    *
    * @typeParam T - Expected response data type.
-   * @param method - HTTP method.
-   * @param path - API endpoint path.
-   * @param body - Binary data to send.
-   * @param contentType - MIME type of the body.
-   * @param options - Optional query parameters.
-   * @returns The unwrapped response data.
-   * @throws {RateLimitError} When rate limited and all retries are exhausted.
-   * @throws {QCKError} On API errors, network failures, or timeouts.
+   * @param request - The attempt to send, after `onRequest` middleware has run.
+   * @param body - Already-encoded request body, if any.
+   * @param timeout - Timeout for this attempt in milliseconds.
+   * @param signal - Caller-provided signal that cancels the request.
+   * @param keepalive - Whether the request may outlive the page.
+   * @returns The unwrapped data on success, or the error and any `Retry-After` the server sent.
    */
-  private async requestRaw<T>(
-    method: string,
-    path: string,
-    body: Blob | ArrayBuffer | Uint8Array,
-    contentType: string,
-    options?: RequestOptions,
-  ): Promise<T> {
-    const url = this.buildUrl(path, options?.params);
-
-    const headers: Record<string, string> = {
-      'X-API-Key': this.apiKey,
-      'Accept': 'application/json',
-      'Content-Type': contentType,
-    };
+  private async attempt<T>(
+    request: MiddlewareRequest,
+    body: BodyInit | undefined,
+    timeout: number,
+    signal?: AbortSignal,
+    keepalive?: boolean,
+  ): Promise<AttemptOutcome<T>> {
+    let response: Response;
+    try {
+      response = await this.send(request, body, timeout, signal, keepalive);
+    } catch (err: unknown) {
+      return this.transportFailure(err, request, signal);
+    }
 
-    let lastError: Error | undefined;
+    this.rateLimiter.observe(response.headers);
 
-    for (let attempt = 0; attempt <= this.retries; attempt++) {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-        const response = await fetch(url, {
-          method,
-          headers,
-          body: body as BodyInit,
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-
-        if (response.status === 429) {
-          const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
-          if (attempt < this.retries) {
-            await sleep(Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS));
-            continue;
-          }
-          throw new RateLimitError('Rate limit exceeded', retryAfter);
-        }
+    for (const middleware of this.middleware) {
+      await middleware.onResponse?.(response, request);
+    }
 
-        if (!response.ok) {
-          throw await this.mapError(response);
-        }
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
 
-        if (response.status === 204 || response.headers.get('content-length') === '0') {
-          return undefined as unknown as T;
-        }
+    // Handle rate limiting, holding back other queued requests too
+    if (response.status === 429) {
+      const seconds = retryAfter ?? DEFAULT_RATE_LIMIT_RETRY_AFTER;
+      this.rateLimiter.pause(seconds * 1000);
+      return { error: await this.mapError(response, request), retryAfter: seconds };
+    }
 
-        const json = (await response.json()) as ApiResponse<T>;
+    if (!response.ok) {
+      return { error: await this.mapError(response, request), retryAfter };
+    }
 
-        if (!json.success && json.error) {
-          throw new QCKError(json.error.message, response.status, json.error.code);
-        }
+    try {
+      return { data: await this.parseResponse<T>(response, request), response };
+    } catch (err: unknown) {
+      return err instanceof QCKError
+        ? { error: err, retryAfter: null }
+        : this.transportFailure(err, request, signal);
+    }
+  }
 
-        return json.data as T;
-      } catch (err: unknown) {
-        if (err instanceof RateLimitError && attempt >= this.retries) {
-          throw err;
-        }
+  /**
+   * Perform a single fetch for an attempt, aborting it after the timeout
+   * or as soon as the caller's signal fires.
+   *
+   * @param request - The attempt to send, as seen (and possibly mutated) by middleware.
+   * @param body - Already-encoded request body, if any.
+   * @param timeout - Timeout for this attempt in milliseconds.
+   * @param signal - Caller-provided signal that cancels the request.
+   * @param keepalive - Whether the request may outlive the page.
+   * @returns The raw HTTP response.
+   */
+  private async send(
+    request: MiddlewareRequest,
+    body: BodyInit | undefined,
+    timeout: number,
+    signal?: AbortSignal,
+    keepalive?: boolean,
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
 
-        if (err instanceof QCKError) {
-          throw err;
-        }
+    try {
+      return await this.fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body,
+        signal: controller.signal,
+        ...(keepalive ? { keepalive } : {}),
+      });
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
 
-        if (err instanceof DOMException && err.name === 'AbortError') {
-          lastError = new QCKError('Request timed out', 0, 'TIMEOUT');
-          if (attempt >= this.retries) {
-            throw lastError;
-          }
-          continue;
-        }
+  /**
+   * Unwrap the `ApiResponse` envelope of a successful HTTP response.
+   *
+   * @typeParam T - Expected response data type.
+   * @param response - A response with a 2xx status.
+   * @param request - The attempt that produced the response, for error context.
+   * @returns The unwrapped response data, or `undefined` for empty responses.
+   * @throws {QCKError} If the envelope reports `success: false`.
+   */
+  private async parseResponse<T>(response: Response, request: MiddlewareRequest): Promise<T> {
+    // Successful DELETE with no body
+    if (response.status === 204 || response.headers.get('content-length') === '0') {
+      return undefined as unknown as T;
+    }
 
-        lastError = err instanceof Error ? err : new Error(String(err));
-        if (attempt >= this.retries) {
-          throw new QCKError(
-            `Network error: ${lastError.message}`,
-            0,
-            'NETWORK_ERROR',
-          );
-        }
+    const json = (await response.json()) as ApiResponse<T>;
 
-        await sleep(Math.min(1000 * 2 ** attempt, 10_000));
-      }
+    if (!json.success && json.error) {
+      const { code, message, details } = json.error;
+      throw new QCKError(message, response.status, code, {
+        ...this.errorOptions(request, response.status, code, response),
+        fieldErrors: details,
+      });
     }
 
-    throw lastError ?? new QCKError('Request failed', 0, 'UNKNOWN');
+    return json.data as T;
   }
 
   /**
@@ -419,57 +569,177 @@ export class HttpClient {
    * Map an HTTP error response to the appropriate {@link QCKError} subclass.
    *
    * @param response - The failed HTTP response.
+   * @param request - The attempt that produced the response, for error context.
    * @returns A typed error instance based on the HTTP status code.
    */
-  private async mapError(response: Response): Promise<QCKError> {
-    let message = `HTTP ${response.status}`;
-    let code = 'API_ERROR';
+  private async mapError(response: Response, request: MiddlewareRequest): Promise<QCKError> {
+    const { status } = response;
+    let message = `HTTP ${status}`;
+    let serverCode: string | undefined;
+    let fieldErrors: FieldError[] | undefined;
 
     try {
       const json = (await response.json()) as ApiResponse<unknown>;
       if (json.error) {
         message = json.error.message;
-        code = json.error.code;
+        serverCode = json.error.code;
+        fieldErrors = json.error.details;
       }
     } catch {
       // Use default message if body can't be parsed
     }
 
-    switch (response.status) {
+    // Classify retryability by the code the error carries, as the retry loop does.
+    const code = errorCodeFor(status, serverCode);
+    const options: QCKErrorOptions = {
+      ...this.errorOptions(request, status, code, response),
+      fieldErrors,
+      code,
+    };
+
+    switch (status) {
       case 400:
-        return new ValidationError(message);
+        return new ValidationError(message, options);
       case 401:
-        return new AuthenticationError(message);
+        return new AuthenticationError(message, options);
+      case 403:
+        return new PermissionDeniedError(message, options);
       case 404:
-        return new NotFoundError(message);
+        return new NotFoundError(message, options);
+      case 409:
+        return new ConflictError(message, options);
       case 429: {
         const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
-        return new RateLimitError(message, retryAfter);
+        return new RateLimitError(
+          message,
+          retryAfter ?? DEFAULT_RATE_LIMIT_RETRY_AFTER,
+          options,
+        );
       }
       default:
-        return new QCKError(message, response.status, code);
+        return status >= 500
+          ? new ServerError(message, status, options)
+          : new QCKError(message, status, code, options);
     }
   }
+
+  /**
+   * Classify an error thrown while sending a request or reading its body
+   * as a caller abort, a timeout, or a network failure.
+   *
+   * @param err - The thrown value.
+   * @param request - The attempt that failed, for error context.
+   * @param signal - Caller-provided signal, used to tell caller aborts from timeouts.
+   * @returns The SDK error to surface, with the thrown value as its `cause`.
+   */
+  private transportFailure(
+    err: unknown,
+    request: MiddlewareRequest,
+    signal?: AbortSignal,
+  ): AttemptFailure {
+    if (err instanceof DOMException && err.name === 'AbortError') {
+      if (signal?.aborted) {
+        return { error: abortedError(request), retryAfter: null };
+      }
+      const options = { ...this.errorOptions(request, 0, 'TIMEOUT'), cause: err };
+      return { error: new TimeoutError('Request timed out', options), retryAfter: null };
+    }
+
+    const message = err instanceof Error ? err.message : String(err);
+    const options = { ...this.errorOptions(request, 0, 'NETWORK_ERROR'), cause: err };
+    return {
+      error: new NetworkError(`Network error: ${message}`, options),
+      retryAfter: null,
+    };
+  }
+
+  /**
+   * Build the request context attached to an error.
+   *
+   * @param request - The attempt that failed.
+   * @param status - HTTP status of the failure (0 if no response was received).
+   * @param code - Error code, used to classify the failure as retryable.
+   * @param response - The response, if one was received.
+   * @returns Error options with method, path, request ID, headers, and retryability.
+   */
+  private errorOptions(
+    request: MiddlewareRequest,
+    status: number,
+    code: string,
+    response?: Response,
+  ): QCKErrorOptions {
+    return {
+      method: request.method,
+      path: request.path,
+      requestId: response?.headers.get(REQUEST_ID_HEADER) ?? null,
+      headers: response?.headers,
+      retryable: this.retryStrategy.isRetryable({ status, code }),
+    };
+  }
 }
 
 /**
- * Parse the `Retry-After` HTTP header value into seconds.
+ * The code of the error thrown for an HTTP error response.
  *
- * @param header - Raw header value, or `null` if not present.
- * @returns Number of seconds to wait. Defaults to 60 if the header is missing or unparsable.
+ * @param status - HTTP status of the response.
+ * @param serverCode - Error code from the response body, if any.
+ * @returns The fixed code of 400, 401, 404 and 429 errors, else the server's
+ *   code, falling back to the error class's default.
  */
-function parseRetryAfter(header: string | null): number {
-  if (!header) return 60;
-  const seconds = parseInt(header, 10);
-  return isNaN(seconds) ? 60 : seconds;
+function errorCodeFor(status: number, serverCode: string | undefined): string {
+  switch (status) {
+    case 400:
+      return 'VALIDATION_ERROR';
+    case 401:
+      return 'AUTHENTICATION_ERROR';
+    case 404:
+      return 'NOT_FOUND';
+    case 429:
+      return 'RATE_LIMIT_ERROR';
+    case 403:
+      return serverCode ?? 'PERMISSION_DENIED';
+    case 409:
+      return serverCode ?? 'CONFLICT';
+    default:
+      return serverCode ?? (status >= 500 ? 'SERVER_ERROR' : 'API_ERROR');
+  }
+}
+
+/**
+ * Create the error thrown when the caller's `AbortSignal` cancels a request.
+ *
+ * @param request - The attempt that was cancelled.
+ * @returns A non-retryable {@link QCKError} with code `'ABORTED'`.
+ */
+function abortedError(request: MiddlewareRequest): QCKError {
+  return new QCKError('Request aborted', 0, 'ABORTED', {
+    method: request.method,
+    path: request.path,
+  });
 }
 
 /**
  * Sleep for the specified number of milliseconds.
  *
  * @param ms - Duration to sleep in milliseconds.
+ * @param signal - Optional signal that cuts the sleep short.
  * @returns A promise that resolves after the delay.
+ * @throws {DOMException} An `AbortError` if the signal fires first.
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted while waiting to retry', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException('Aborted while waiting to retry', 'AbortError'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
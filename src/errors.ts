@@ -1,8 +1,17 @@
+import type {
+  FieldError,
+  QCKErrorJSON,
+  QCKErrorOptions,
+  WebhookSignatureFailure,
+} from './types.js';
+
 /**
  * Base error class for all QCK SDK errors.
  *
  * @description Every error thrown by the SDK extends this class, making it easy
- * to catch all QCK-specific errors with a single `catch` block.
+ * to catch all QCK-specific errors with a single `catch` block. Errors carry the
+ * context of the request that failed (method, path, request ID, response headers)
+ * so they can be logged and correlated with server logs without string matching.
  *
  * @example
  * ```ts
@@ -11,6 +20,7 @@
  * } catch (err) {
  *   if (err instanceof QCKError) {
  *     console.error(`[${err.code}] ${err.message} (HTTP ${err.status})`);
+ *     logger.error(err.toJSON());
  *   }
  * }
  * ```
@@ -20,19 +30,69 @@ export class QCKError extends Error {
   public readonly status: number;
   /** Machine-readable error code (e.g. `'VALIDATION_ERROR'`, `'TIMEOUT'`). */
   public readonly code: string;
+  /** HTTP method of the failed request, or `null` if unknown. */
+  public readonly method: string | null;
+  /** API endpoint path of the failed request (e.g. `'/links'`), or `null` if unknown. */
+  public readonly path: string | null;
+  /** Server-assigned request ID from the `X-Request-ID` header, or `null` if absent. */
+  public readonly requestId: string | null;
+  /** Response headers, or `null` if no response was received. */
+  public readonly headers: Headers | null;
+  /** Per-field validation failures reported by the server (empty if none). */
+  public readonly fieldErrors: FieldError[];
+  /** Whether the failure is transient and the request may succeed if retried. */
+  public readonly isRetryable: boolean;
 
   /**
    * @param message - Human-readable error description.
    * @param status - HTTP status code from the API response.
    * @param code - Machine-readable error code.
+   * @param options - Request context and the underlying cause, if any.
    */
-  constructor(message: string, status: number, code: string) {
-    super(message);
+  constructor(message: string, status: number, code: string, options: QCKErrorOptions = {}) {
+    super(message, options.cause === undefined ? undefined : { cause: options.cause });
     this.name = 'QCKError';
     this.status = status;
     this.code = code;
+    this.method = options.method ?? null;
+    this.path = options.path ?? null;
+    this.requestId = options.requestId ?? null;
+    this.headers = options.headers ?? null;
+    this.fieldErrors = options.fieldErrors ?? [];
+    this.isRetryable = options.retryable ?? false;
     Object.setPrototypeOf(this, new.target.prototype);
   }
+
+  /**
+   * Serialize the error for structured logging. `JSON.stringify` calls this automatically.
+   *
+   * @returns A plain object with the error details and request context.
+   */
+  toJSON(): QCKErrorJSON {
+    const headers: Record<string, string> = {};
+    this.headers?.forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    const json: QCKErrorJSON = {
+      name: this.name,
+      message: this.message,
+      status: this.status,
+      code: this.code,
+      method: this.method,
+      path: this.path,
+      requestId: this.requestId,
+      isRetryable: this.isRetryable,
+      fieldErrors: this.fieldErrors,
+      headers,
+    };
+
+    if (this.cause !== undefined) {
+      json.cause = this.cause instanceof Error ? this.cause.message : String(this.cause);
+    }
+
+    return json;
+  }
 }
 
 /**
@@ -44,13 +104,31 @@ export class QCKError extends Error {
 export class AuthenticationError extends QCKError {
   /**
    * @param message - Error message describing the authentication failure.
+   * @param options - Request context.
    */
-  constructor(message = 'Authentication failed') {
-    super(message, 401, 'AUTHENTICATION_ERROR');
+  constructor(message = 'Authentication failed', options?: QCKErrorOptions) {
+    super(message, 401, 'AUTHENTICATION_ERROR', options);
     this.name = 'AuthenticationError';
   }
 }
 
+/**
+ * Thrown when the API key is valid but not allowed to perform the request (HTTP 403).
+ *
+ * @description The key may lack the required scope, or the resource may belong
+ * to another account or exceed your plan's limits.
+ */
+export class PermissionDeniedError extends QCKError {
+  /**
+   * @param message - Error message describing what was not permitted.
+   * @param options - Request context, and the server's error code, if any.
+   */
+  constructor(message = 'Permission denied', options?: QCKErrorOptions) {
+    super(message, 403, options?.code ?? 'PERMISSION_DENIED', options);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
 /**
  * Thrown when the request is rate limited (HTTP 429).
  *
@@ -65,12 +143,17 @@ export class RateLimitError extends QCKError {
   /**
    * @param message - Error message describing the rate limit.
    * @param retryAfter - Seconds to wait before retrying, from the `Retry-After` header.
+   * @param options - Request context.
    */
-  constructor(message = 'Rate limit exceeded', retryAfter = 60) {
-    super(message, 429, 'RATE_LIMIT_ERROR');
+  constructor(message = 'Rate limit exceeded', retryAfter = 60, options?: QCKErrorOptions) {
+    super(message, 429, 'RATE_LIMIT_ERROR', options);
     this.name = 'RateLimitError';
     this.retryAfter = retryAfter;
   }
+
+  override toJSON(): QCKErrorJSON {
+    return { ...super.toJSON(), retryAfter: this.retryAfter };
+  }
 }
 
 /**
@@ -82,25 +165,131 @@ export class RateLimitError extends QCKError {
 export class NotFoundError extends QCKError {
   /**
    * @param message - Error message describing what was not found.
+   * @param options - Request context.
    */
-  constructor(message = 'Resource not found') {
-    super(message, 404, 'NOT_FOUND');
+  constructor(message = 'Resource not found', options?: QCKErrorOptions) {
+    super(message, 404, 'NOT_FOUND', options);
     this.name = 'NotFoundError';
   }
 }
 
+/**
+ * Thrown when the request conflicts with the current state of a resource (HTTP 409).
+ *
+ * @description Most commonly raised when a custom short code (alias) or domain
+ * is already taken.
+ */
+export class ConflictError extends QCKError {
+  /**
+   * @param message - Error message describing the conflict.
+   * @param options - Request context, and the server's error code (e.g. `'ALIAS_TAKEN'`), if any.
+   */
+  constructor(message = 'Resource conflict', options?: QCKErrorOptions) {
+    super(message, 409, options?.code ?? 'CONFLICT', options);
+    this.name = 'ConflictError';
+  }
+}
+
 /**
  * Thrown when the request body fails validation (HTTP 400).
  *
  * @description The request payload contained invalid or missing fields.
- * Review the error message for details on which fields failed validation.
+ * Inspect `fieldErrors` for the fields that failed validation and why.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await qck.links.create({ url: 'not a url' });
+ * } catch (err) {
+ *   if (err instanceof ValidationError) {
+ *     for (const { field, message } of err.fieldErrors) {
+ *       form.setError(field, message);
+ *     }
+ *   }
+ * }
+ * ```
  */
 export class ValidationError extends QCKError {
   /**
    * @param message - Error message describing the validation failure.
+   * @param options - Request context and per-field failures.
    */
-  constructor(message = 'Validation failed') {
-    super(message, 400, 'VALIDATION_ERROR');
+  constructor(message = 'Validation failed', options?: QCKErrorOptions) {
+    super(message, 400, 'VALIDATION_ERROR', options);
     this.name = 'ValidationError';
   }
 }
+
+/**
+ * Thrown when the API fails with a server-side error (HTTP 5xx).
+ *
+ * @description 502, 503, and 504 responses are retried automatically by default;
+ * this error is thrown once retries are exhausted or for non-retryable statuses.
+ */
+export class ServerError extends QCKError {
+  /**
+   * @param message - Error message returned by the server.
+   * @param status - The 5xx HTTP status code.
+   * @param options - Request context, and the server's error code, if any.
+   */
+  constructor(message = 'Internal server error', status = 500, options?: QCKErrorOptions) {
+    super(message, status, options?.code ?? 'SERVER_ERROR', options);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Thrown when a request attempt exceeds the configured timeout.
+ *
+ * @description Timeouts are retried automatically by default. The HTTP status is `0`
+ * because no response was received.
+ */
+export class TimeoutError extends QCKError {
+  /**
+   * @param message - Error message describing the timeout.
+   * @param options - Request context and the underlying abort error.
+   */
+  constructor(message = 'Request timed out', options?: QCKErrorOptions) {
+    super(message, 0, 'TIMEOUT', options);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Thrown when the request could not reach the API (DNS failure, refused connection, etc.).
+ *
+ * @description Network errors are retried automatically by default. The original
+ * error thrown by `fetch` is available as `cause`.
+ */
+export class NetworkError extends QCKError {
+  /**
+   * @param message - Error message describing the network failure.
+   * @param options - Request context and the underlying `fetch` error.
+   */
+  constructor(message = 'Network error', options?: QCKErrorOptions) {
+    super(message, 0, 'NETWORK_ERROR', options);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Thrown when an incoming webhook fails signature verification.
+ *
+ * @description Respond with HTTP 400 and do not process the payload. Check
+ * `reason` to tell a missing or malformed header from a stale timestamp or a
+ * signature that matches none of the configured secrets.
+ */
+export class WebhookSignatureError extends QCKError {
+  /** Why verification failed. */
+  public readonly reason: WebhookSignatureFailure;
+
+  /**
+   * @param message - Error message describing the verification failure.
+   * @param reason - Machine-readable failure reason.
+   */
+  constructor(message: string, reason: WebhookSignatureFailure) {
+    super(message, 0, 'WEBHOOK_SIGNATURE_ERROR');
+    this.name = 'WebhookSignatureError';
+    this.reason = reason;
+  }
+}
@@ -5,7 +5,7 @@ import { DomainsResource } from './resources/domains.js';
 import { WebhooksResource } from './resources/webhooks.js';
 import { JourneyResource } from './resources/journey.js';
 import { ConversionsResource } from './resources/conversions.js';
-import type { QCKConfig } from './types.js';
+import type { QCKConfig, RateLimitStatus } from './types.js';
 
 /**
  * QCK SDK client. Initialize with your API key and use the
@@ -51,6 +51,9 @@ export class QCK {
   /** Resource for tracking and querying conversion analytics. */
   public readonly conversions: ConversionsResource;
 
+  /** HTTP client shared by all resources. */
+  private readonly client: HttpClient;
+
   /**
    * Create a new QCK SDK client.
    *
@@ -71,37 +74,93 @@ export class QCK {
       throw new Error('QCK SDK requires an API key. Pass { apiKey: "qck_..." } to the constructor.');
     }
 
-    const client = new HttpClient({
+    this.client = new HttpClient({
       apiKey: config.apiKey,
       baseUrl: config.baseUrl,
       timeout: config.timeout,
       retries: config.retries,
+      middleware: config.middleware,
+      fetch: config.fetch,
+      rateLimit: config.rateLimit,
+      retryPolicy: config.retryPolicy,
     });
 
-    this.links = new LinksResource(client);
-    this.analytics = new AnalyticsResource(client);
-    this.domains = new DomainsResource(client);
-    this.webhooks = new WebhooksResource(client);
-    this.journey = new JourneyResource(client);
-    this.conversions = new ConversionsResource(client);
+    this.links = new LinksResource(this.client);
+    this.analytics = new AnalyticsResource(this.client);
+    this.domains = new DomainsResource(this.client);
+    this.webhooks = new WebhooksResource(this.client);
+    this.journey = new JourneyResource(this.client);
+    this.conversions = new ConversionsResource(this.client);
+  }
+
+  /**
+   * Current rate-limit budget: limits reported by the server's `X-RateLimit-*`
+   * headers plus the state of the client-side throttle queue.
+   *
+   * @example
+   * ```ts
+   * const { remaining, resetAt, queued } = qck.rateLimit;
+   * console.log(`${remaining} requests left until ${resetAt?.toISOString()}, ${queued} queued`);
+   * ```
+   */
+  get rateLimit(): RateLimitStatus {
+    return this.client.rateLimitStatus();
   }
 }
 
 // Re-export everything consumers might need
 export { HttpClient } from './client.js';
+export { APIPromise } from './api-promise.js';
+export { Paginator } from './pagination.js';
+export { DEFAULT_RETRYABLE_STATUSES, DEFAULT_RETRYABLE_ERROR_CODES } from './retry.js';
 export {
   QCKError,
   AuthenticationError,
+  PermissionDeniedError,
   RateLimitError,
   NotFoundError,
+  ConflictError,
   ValidationError,
+  ServerError,
+  TimeoutError,
+  NetworkError,
+  WebhookSignatureError,
 } from './errors.js';
+export {
+  verifyWebhookSignature,
+  constructWebhookEvent,
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhooks/signature.js';
+export { isWebhookEvent } from './webhooks/events.js';
+export { createWebhookHandler } from './webhooks/handler.js';
+export {
+  MemoryWebhookEventStore,
+  withDeduplication,
+  webhookEventKey,
+} from './webhooks/dedupe.js';
 export {
   WebhookEvents,
   WebhookEventCategories,
 } from './types.js';
 export type {
   QCKConfig,
+  CallOptions,
+  PaginationOptions,
+  FieldError,
+  QCKErrorOptions,
+  QCKErrorJSON,
+  RateLimitOptions,
+  RateLimitStatus,
+  RetryPolicy,
+  RetryContext,
+  RetryInfo,
+  RetryJitter,
+  ResponseMeta,
+  WithResponse,
+  FetchLike,
+  Middleware,
+  MiddlewareRequest,
   Link,
   LinkMetadata,
   CreateLinkParams,
@@ -119,11 +178,71 @@ export type {
   UpdateWebhookParams,
   WebhookDelivery,
   ListWebhookDeliveriesParams,
+  WebhookHealth,
+  WebhookHealthParams,
+  WebhookHealthReport,
+  WebhookHealthWindow,
+  WebhookDefinition,
+  WebhookSyncParams,
+  WebhookSyncResult,
+  WebhookSyncAction,
   WebhookEventType,
   WebhookPayload,
+  WebhookEventPayload,
+  WebhookEventCategory,
+  WebhookEventHandler,
+  WebhookEventHandlers,
+  WebhookHandler,
+  WebhookHandlerOptions,
+  WebhookHandlerResult,
+  WebhookEventStore,
+  WebhookDedupeOptions,
+  MemoryWebhookEventStoreOptions,
+  NodeWebhookRequest,
+  NodeWebhookResponse,
+  WebhookEventDataMap,
+  WebhookLinkDeletedData,
+  WebhookApiKeyData,
+  WebhookTeamMemberData,
+  WebhookSubscriptionData,
+  WebhookBulkImportData,
+  WebhookHeaders,
+  WebhookSignatureFailure,
+  VerifyWebhookOptions,
   PaginatedResponse,
   JourneyEvent,
+  JourneyEventBase,
+  JourneyEventType,
+  PageViewJourneyEvent,
+  ScrollDepthJourneyEvent,
+  TimeOnPageJourneyEvent,
+  CustomJourneyEvent,
+  ConversionJourneyEvent,
+  JourneyEventIssue,
+  UserAgentDeviceType,
+  ParsedUserAgent,
+  JourneyRequestInfo,
+  JourneyEventSchema,
+  JourneyEventPropertiesArgs,
+  JourneyEventContext,
+  JourneyEventSink,
+  JourneyEventRegistryOptions,
+  TypedJourneyTracker,
   IngestEventsParams,
+  JourneyBatcherOptions,
+  JourneyBatcherOverflow,
+  JourneyBatcherMetric,
+  JourneyBatcherStats,
+  JourneyQueueStorage,
+  JourneySessionState,
+  JourneySessionStore,
+  JourneySessionManagerOptions,
+  JourneySessionCookieTarget,
+  CookieJourneySessionStoreOptions,
+  JourneyQueueFileSystem,
+  DurableJourneyQueueOptions,
+  DurableJourneyQueueMetric,
+  DurableJourneyQueueStats,
   JourneyLinkSummary,
   FunnelResult,
   FunnelStep,
@@ -159,4 +278,16 @@ export { AnalyticsResource } from './resources/analytics.js';
 export { DomainsResource } from './resources/domains.js';
 export { WebhooksResource } from './resources/webhooks.js';
 export { JourneyResource } from './resources/journey.js';
+export { JourneyBatcher } from './journey/batcher.js';
+export { DurableJourneyQueue } from './journey/queue.js';
+export { validateJourneyEvent } from './journey/validate.js';
+export { JourneyEventRegistry, defineJourneyEvents } from './journey/registry.js';
+export { parseUserAgent, isBotUserAgent, enrichFromRequest } from './journey/user-agent.js';
+export {
+  MemoryJourneyStorage,
+  WebStorageJourneyStorage,
+  FileJourneyStorage,
+} from './journey/storage.js';
+export { JourneySessionManager } from './journey/session.js';
+export { MemoryJourneySessionStore, CookieJourneySessionStore } from './journey/session-store.js';
 export { ConversionsResource } from './resources/conversions.js';
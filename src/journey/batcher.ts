@@ -0,0 +1,244 @@
+import { QCKError } from '../errors.js';
+import { conversionEvent } from '../resources/conversions.js';
+import type { JourneyResource } from '../resources/journey.js';
+import type {
+  JourneyBatcherMetric,
+  JourneyBatcherOptions,
+  JourneyBatcherOverflow,
+  JourneyBatcherStats,
+  JourneyEvent,
+  TrackConversionParams,
+} from '../types.js';
+import { invalidEventsError, validateJourneyEvent } from './validate.js';
+
+/** Maximum number of events the ingest endpoint accepts per request. */
+const MAX_INGEST_BATCH_SIZE = 100;
+
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+const DEFAULT_MAX_QUEUE_SIZE = 10_000;
+const DEFAULT_BATCH_RETRIES = 3;
+const DEFAULT_BATCH_RETRY_DELAY_MS = 1000;
+
+/**
+ * Buffers journey events and sends them in batches.
+ *
+ * @description Events passed to {@link add} are queued and sent with
+ * `journey.ingest` in requests of at most 100 events, when a full batch is
+ * queued, on a timer, or on {@link flush}. Each batch keeps one idempotency key
+ * across re-sends, so a batch retried after an ambiguous failure is not ingested
+ * twice. Batches failing with retryable errors are re-sent up to `batchRetries`
+ * times; after that (or on non-retryable errors) they are dropped and reported
+ * through `onMetric`. When the queue is full, the `overflow` policy applies.
+ *
+ * Call {@link close} on shutdown to stop the timer and send everything queued.
+ * Create instances with {@link JourneyResource.createBatcher}.
+ *
+ * @example
+ * ```ts
+ * const batcher = qck.journey.createBatcher({ flushIntervalMs: 2000, overflow: 'block' });
+ *
+ * app.use((req, res, next) => {
+ *   void batcher.add({ link_id, visitor_id, event_type: 'page_view', page_url: req.url });
+ *   next();
+ * });
+ *
+ * process.on('SIGTERM', async () => {
+ *   await batcher.close();
+ *   process.exit(0);
+ * });
+ * ```
+ */
+export class JourneyBatcher {
+  private readonly maxBatchSize: number;
+  private readonly maxQueueSize: number;
+  private readonly overflow: JourneyBatcherOverflow;
+  private readonly batchRetries: number;
+  private readonly batchRetryDelayMs: number;
+  private readonly onMetric?: (metric: JourneyBatcherMetric) => void;
+  /** Events waiting to be sent, oldest first. */
+  private readonly queue: JourneyEvent[] = [];
+  /** `add()` calls waiting for queue space under the `'block'` policy. */
+  private readonly spaceWaiters: Array<() => void> = [];
+  private readonly timer: ReturnType<typeof setInterval> | undefined;
+  /** Serializes drains so batches are sent one at a time, in order. */
+  private flushChain: Promise<void> = Promise.resolve();
+  private draining = false;
+  private closed = false;
+  private readonly counters = { sent: 0, dropped: 0, batches: 0, retries: 0 };
+
+  /**
+   * @param journey - The journey resource used to send batches.
+   * @param options - Batch size, timing, queue limits and metrics callback.
+   */
+  constructor(
+    private readonly journey: JourneyResource,
+    options: JourneyBatcherOptions = {},
+  ) {
+    this.maxBatchSize = Math.min(
+      options.maxBatchSize ?? MAX_INGEST_BATCH_SIZE,
+      MAX_INGEST_BATCH_SIZE,
+    );
+    this.maxQueueSize = options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+    this.overflow = options.overflow ?? 'drop_oldest';
+    this.batchRetries = options.batchRetries ?? DEFAULT_BATCH_RETRIES;
+    this.batchRetryDelayMs = options.batchRetryDelayMs ?? DEFAULT_BATCH_RETRY_DELAY_MS;
+    this.onMetric = options.onMetric;
+
+    const interval = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+    if (interval > 0) {
+      this.timer = setInterval(() => void this.flush(), interval);
+      // Don't keep Node processes alive just for the timer.
+      (this.timer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  /** Current counters. */
+  get stats(): JourneyBatcherStats {
+    return { queued: this.queue.length, ...this.counters };
+  }
+
+  /**
+   * Queue one or more events.
+   *
+   * @param events - The event(s) to send. Invalid events (see
+   *   {@link validateJourneyEvent}) are dropped on their own with reason
+   *   `'invalid'`, so they can't fail a batch of valid ones.
+   * @returns Resolves once the events are queued (or dropped). Under the `'block'`
+   *   policy, waits for queue space first.
+   */
+  async add(events: JourneyEvent | JourneyEvent[]): Promise<void> {
+    const list = Array.isArray(events) ? events : [events];
+    for (const [index, event] of list.entries()) {
+      const issues = validateJourneyEvent(event, index);
+      if (issues.length > 0) {
+        this.drop(1, 'invalid', invalidEventsError(issues));
+        continue;
+      }
+      if (this.closed) {
+        this.drop(1, 'closed');
+        continue;
+      }
+
+      if (this.queue.length >= this.maxQueueSize) {
+        if (this.overflow === 'drop_newest') {
+          this.drop(1, 'queue_full');
+          continue;
+        }
+        if (this.overflow === 'drop_oldest') {
+          this.queue.shift();
+          this.drop(1, 'queue_full');
+        } else {
+          void this.flush();
+          while (this.queue.length >= this.maxQueueSize) {
+            await new Promise<void>((resolve) => this.spaceWaiters.push(resolve));
+          }
+          if (this.closed) {
+            this.drop(1, 'closed');
+            continue;
+          }
+        }
+      }
+
+      this.queue.push(event);
+      if (this.queue.length >= this.maxBatchSize && !this.draining) {
+        void this.flush();
+      }
+    }
+  }
+
+  /**
+   * Queue a conversion, as {@link ConversionsResource.track} would send it.
+   *
+   * @param params - Conversion details, with revenue in dollars.
+   * @returns Resolves once the conversion is queued (or dropped).
+   */
+  track(params: TrackConversionParams): Promise<void> {
+    return this.add(conversionEvent(params));
+  }
+
+  /**
+   * Send every queued event now.
+   *
+   * @returns Resolves once the queue has been drained. Never rejects: failed
+   *   batches are reported through `onMetric`.
+   */
+  flush(): Promise<void> {
+    this.flushChain = this.flushChain.then(() => this.drain());
+    return this.flushChain;
+  }
+
+  /**
+   * Stop the flush timer, send everything queued, and drop later `add()` calls.
+   *
+   * @returns Resolves once the queue has been drained.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.timer !== undefined) clearInterval(this.timer);
+    await this.flush();
+  }
+
+  /** Send queued events in batches until the queue is empty. */
+  private async drain(): Promise<void> {
+    this.draining = true;
+    try {
+      while (this.queue.length > 0) {
+        const batch = this.queue.splice(0, this.maxBatchSize);
+        this.releaseSpace();
+        await this.send(batch);
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /** Send one batch, re-sending it with the same idempotency key on retryable failures. */
+  private async send(batch: JourneyEvent[]): Promise<void> {
+    const idempotencyKey = crypto.randomUUID();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.journey.ingest({ events: batch }, { idempotencyKey });
+        this.counters.sent += batch.length;
+        this.counters.batches += 1;
+        this.report({ type: 'sent', count: batch.length, attempts: attempt });
+        return;
+      } catch (err) {
+        const retryable = err instanceof QCKError && err.isRetryable;
+        if (!retryable || attempt > this.batchRetries) {
+          this.drop(batch.length, 'failed', err);
+          return;
+        }
+        this.counters.retries += 1;
+        await new Promise((resolve) => setTimeout(resolve, this.batchRetryDelayMs * attempt));
+      }
+    }
+  }
+
+  /** Wake `add()` calls waiting for space. */
+  private releaseSpace(): void {
+    for (const resolve of this.spaceWaiters.splice(0)) resolve();
+  }
+
+  private drop(
+    count: number,
+    reason: 'queue_full' | 'failed' | 'closed' | 'invalid',
+    error?: unknown,
+  ): void {
+    this.counters.dropped += count;
+    this.report(
+      error === undefined
+        ? { type: 'dropped', count, reason }
+        : { type: 'dropped', count, reason, error },
+    );
+  }
+
+  /** Call `onMetric`, so a throwing callback can't break adds or stall later flushes. */
+  private report(metric: JourneyBatcherMetric): void {
+    try {
+      this.onMetric?.(metric);
+    } catch {
+      // Metrics are best-effort.
+    }
+  }
+}
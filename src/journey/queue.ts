@@ -0,0 +1,298 @@
+import { QCKError } from '../errors.js';
+import { conversionEvent } from '../resources/conversions.js';
+import type { JourneyResource } from '../resources/journey.js';
+import type {
+  DurableJourneyQueueMetric,
+  DurableJourneyQueueOptions,
+  DurableJourneyQueueStats,
+  JourneyEvent,
+  JourneyQueueStorage,
+  TrackConversionParams,
+} from '../types.js';
+import { MemoryJourneyStorage } from './storage.js';
+import { invalidEventsError, validateJourneyEvent } from './validate.js';
+
+/** Maximum number of events the ingest endpoint accepts per request. */
+const MAX_INGEST_BATCH_SIZE = 100;
+
+const DEFAULT_MAX_BYTES = 2_000_000;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+
+const encoder = new TextEncoder();
+
+/**
+ * Persists journey events until QCK has accepted them, for clients that go
+ * offline for long periods.
+ *
+ * @description Events passed to {@link enqueue} are stamped with a `timestamp`
+ * (if they don't have one) and written to storage before anything is sent, so
+ * they survive restarts. Queued events are sent oldest first, in batches of up
+ * to 100, on a timer, when the browser comes back online, or on {@link flush}.
+ * While the API is unreachable, events stay queued and are retried on the next
+ * flush. Each batch keeps one random idempotency key until it is sent, so a
+ * batch re-sent after an ambiguous failure is not ingested twice. Invalid events are dropped when
+ * queued, and batches the API rejects outright are dropped. When the queue
+ * exceeds `maxBytes`, the oldest events are dropped.
+ *
+ * Create instances with {@link JourneyResource.createQueue}.
+ *
+ * @example
+ * ```ts
+ * const queue = qck.journey.createQueue({
+ *   storage: new WebStorageJourneyStorage('qck:journey-queue'),
+ *   maxBytes: 1_000_000,
+ * });
+ *
+ * await queue.enqueue({ link_id, visitor_id, event_type: 'page_view', page_url: location.href });
+ * console.log(queue.stats.depth);
+ * ```
+ */
+export class DurableJourneyQueue {
+  private readonly storage: JourneyQueueStorage;
+  private readonly maxBytes: number;
+  private readonly maxBatchSize: number;
+  private readonly onMetric?: (metric: DurableJourneyQueueMetric) => void;
+  /** Resolves once stored events from a previous run have been loaded. */
+  private readonly ready: Promise<void>;
+  private readonly timer: ReturnType<typeof setInterval> | undefined;
+  private readonly onOnline = () => void this.flush();
+  /** Events waiting to be sent, oldest first, mirroring storage. */
+  private queue: JourneyEvent[] = [];
+  /** JSON size of each queued event. */
+  private readonly sizes = new WeakMap<JourneyEvent, number>();
+  private bytes = 0;
+  /** Serializes storage writes so they land in order. */
+  private io: Promise<void> = Promise.resolve();
+  private flushing: Promise<void> | undefined;
+  /** The batch being sent, kept until it is sent or dropped so re-sends reuse its key. */
+  private pending: { events: JourneyEvent[]; idempotencyKey: string } | undefined;
+  private readonly counters = { sent: 0, dropped: 0 };
+  private lastError: unknown = null;
+
+  /**
+   * @param journey - The journey resource used to send batches.
+   * @param options - Storage, size limit, batch size, timing and metrics callback.
+   */
+  constructor(
+    private readonly journey: JourneyResource,
+    options: DurableJourneyQueueOptions = {},
+  ) {
+    this.storage = options.storage ?? new MemoryJourneyStorage();
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxBatchSize = Math.min(
+      options.maxBatchSize ?? MAX_INGEST_BATCH_SIZE,
+      MAX_INGEST_BATCH_SIZE,
+    );
+    this.onMetric = options.onMetric;
+
+    this.ready = this.storage.load().then(async (events) => {
+      this.queue = events;
+      for (const event of events) this.bytes += this.sizeOf(event);
+      if (this.bytes > this.maxBytes) await this.enforceLimit();
+    });
+    // Load failures surface from enqueue() and stats.lastError, not as unhandled rejections.
+    this.ready.catch(() => undefined);
+
+    const interval = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+    if (interval > 0) {
+      this.timer = setInterval(() => void this.flush(), interval);
+      // Don't keep Node processes alive just for the timer.
+      (this.timer as { unref?: () => void }).unref?.();
+    }
+    if (typeof globalThis.addEventListener === 'function') {
+      globalThis.addEventListener('online', this.onOnline);
+    }
+  }
+
+  /** Current queue depth and counters. */
+  get stats(): DurableJourneyQueueStats {
+    return {
+      depth: this.queue.length,
+      bytes: this.bytes,
+      ...this.counters,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Persist one or more events for sending.
+   *
+   * @param events - The event(s) to queue. Events without a `timestamp` are
+   *   stamped with the current time, so replayed events keep when they happened.
+   *   Invalid events (see {@link validateJourneyEvent}) are dropped on their own
+   *   with reason `'invalid'`, so they can't fail a batch of valid ones.
+   * @returns Resolves once the events are written to storage.
+   * @throws If the storage fails to write.
+   */
+  async enqueue(events: JourneyEvent | JourneyEvent[]): Promise<void> {
+    const valid = (Array.isArray(events) ? events : [events]).filter((event, index) => {
+      const issues = validateJourneyEvent(event, index);
+      if (issues.length > 0) this.drop(1, 'invalid', invalidEventsError(issues));
+      return issues.length === 0;
+    });
+    const stamped = valid.map((event) => ({
+      ...event,
+      timestamp: event.timestamp ?? new Date().toISOString(),
+    }));
+    await this.ready;
+    if (stamped.length === 0) return;
+
+    this.queue.push(...stamped);
+    for (const event of stamped) this.bytes += this.sizeOf(event);
+    await this.write(() => this.storage.append(stamped));
+    if (this.bytes > this.maxBytes) await this.enforceLimit();
+  }
+
+  /**
+   * Queue a conversion, as {@link ConversionsResource.track} would send it.
+   *
+   * @param params - Conversion details, with revenue in dollars.
+   * @returns Resolves once the conversion is written to storage.
+   */
+  track(params: TrackConversionParams): Promise<void> {
+    return this.enqueue(conversionEvent(params));
+  }
+
+  /**
+   * Send queued events now, oldest first.
+   *
+   * @returns Resolves once the queue is empty or a send fails. Never rejects:
+   *   retryable failures and storage errors leave events queued and are
+   *   reported in `stats.lastError`.
+   */
+  flush(): Promise<void> {
+    this.flushing ??= this.drain()
+      .catch((err: unknown) => {
+        this.lastError = err;
+      })
+      .finally(() => {
+        this.flushing = undefined;
+      });
+    return this.flushing;
+  }
+
+  /**
+   * Stop the flush timer and try to send everything queued. Events that can't
+   * be sent stay in storage for the next queue created over it.
+   *
+   * @returns Resolves once the final flush and storage writes have finished.
+   */
+  async close(): Promise<void> {
+    if (this.timer !== undefined) clearInterval(this.timer);
+    if (typeof globalThis.removeEventListener === 'function') {
+      globalThis.removeEventListener('online', this.onOnline);
+    }
+    await this.flush();
+    await this.io;
+  }
+
+  /** Send batches until the queue is empty or a batch fails with a retryable error. */
+  private async drain(): Promise<void> {
+    await this.ready;
+    while (this.queue.length > 0) {
+      const { events: batch, idempotencyKey } = this.nextBatch();
+      try {
+        await this.journey.ingest({ events: batch }, { idempotencyKey });
+      } catch (err) {
+        this.lastError = err;
+        // Keep events through outages; drop only batches the API refuses.
+        if (!(err instanceof QCKError) || err.isRetryable) return;
+        this.pending = undefined;
+        const removed = await this.remove(batch);
+        this.drop(removed, 'rejected', err);
+        continue;
+      }
+
+      this.lastError = null;
+      this.pending = undefined;
+      const sent = await this.remove(batch);
+      this.counters.sent += sent;
+      this.report({ type: 'sent', count: sent });
+    }
+  }
+
+  /**
+   * @returns The batch that failed last time, with its idempotency key, while its
+   *   events are still at the head of the queue; otherwise a new batch with a
+   *   new key.
+   */
+  private nextBatch(): { events: JourneyEvent[]; idempotencyKey: string } {
+    const head = this.queue.slice(0, this.maxBatchSize);
+    const pending = this.pending;
+    if (pending && pending.events.every((event, i) => head[i] === event)) return pending;
+    this.pending = { events: head, idempotencyKey: crypto.randomUUID() };
+    return this.pending;
+  }
+
+  /**
+   * Remove events from the queue and storage.
+   *
+   * @returns How many of them were still queued (size-limit drops may have
+   *   removed some while they were being sent).
+   */
+  private async remove(events: JourneyEvent[]): Promise<number> {
+    const removing = new Set(events);
+    const before = this.queue.length;
+    this.queue = this.queue.filter((event) => !removing.has(event));
+    for (const event of events) {
+      if (this.sizes.has(event)) this.bytes -= this.sizeOf(event);
+      this.sizes.delete(event);
+    }
+    const snapshot = [...this.queue];
+    await this.write(() => this.storage.replace(snapshot));
+    return before - this.queue.length;
+  }
+
+  /** Drop the oldest events until the queue fits in `maxBytes`. */
+  private async enforceLimit(): Promise<void> {
+    let count = 0;
+    while (this.bytes > this.maxBytes && this.queue.length > 0) {
+      const event = this.queue.shift() as JourneyEvent;
+      this.bytes -= this.sizeOf(event);
+      this.sizes.delete(event);
+      count += 1;
+    }
+    const snapshot = [...this.queue];
+    await this.write(() => this.storage.replace(snapshot));
+    this.drop(count, 'size_limit');
+  }
+
+  /** Run a storage write after those already started. */
+  private write(operation: () => Promise<void>): Promise<void> {
+    const result = this.io.then(operation);
+    this.io = result.catch(() => undefined);
+    return result;
+  }
+
+  /** @returns The size of an event as a line of JSON, in bytes. */
+  private sizeOf(event: JourneyEvent): number {
+    let size = this.sizes.get(event);
+    if (size === undefined) {
+      size = encoder.encode(JSON.stringify(event)).length + 1;
+      this.sizes.set(event, size);
+    }
+    return size;
+  }
+
+  private drop(
+    count: number,
+    reason: 'size_limit' | 'rejected' | 'invalid',
+    error?: unknown,
+  ): void {
+    this.counters.dropped += count;
+    this.report(
+      error === undefined
+        ? { type: 'dropped', count, reason }
+        : { type: 'dropped', count, reason, error },
+    );
+  }
+
+  /** Call `onMetric`, so a throwing callback can't break enqueues or abort a drain. */
+  private report(metric: DurableJourneyQueueMetric): void {
+    try {
+      this.onMetric?.(metric);
+    } catch {
+      // Metrics are best-effort.
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { ValidationError } from '../errors.js';
+import type {
+  CustomJourneyEvent,
+  JourneyEventContext,
+  JourneyEventPropertiesArgs,
+  JourneyEventRegistryOptions,
+  JourneyEventSchema,
+  JourneyEventSink,
+  TypedJourneyTracker,
+} from '../types.js';
+
+/**
+ * A schema of custom journey events, created with {@link defineJourneyEvents}.
+ *
+ * @description Builds `'custom'` journey events, and typed trackers, whose names
+ * and properties are checked at compile time against the schema `M`, and at
+ * runtime by the optional `validate` checks.
+ *
+ * @typeParam M - Property shapes keyed by event name.
+ */
+export class JourneyEventRegistry<M extends JourneyEventSchema<M>> {
+  /**
+   * @param options - Optional runtime checks of event properties.
+   */
+  constructor(private readonly options: JourneyEventRegistryOptions<M> = {}) {}
+
+  /**
+   * Build a `'custom'` journey event, e.g. for `journey.ingest` or a batcher.
+   *
+   * @param context - Link, visitor, page and other fields of the event.
+   * @param name - The event name.
+   * @param properties - The event's properties, as declared in the schema.
+   * @returns The journey event.
+   * @throws {ValidationError} If the properties fail the event's runtime check.
+   *
+   * @example
+   * ```ts
+   * await batcher.add(
+   *   AppEvents.event({ link_id, visitor_id, page_url: '/watch' }, 'video_played', {
+   *     seconds: 12,
+   *     video_id: 'intro',
+   *   }),
+   * );
+   * ```
+   */
+  event<K extends keyof M & string>(
+    context: JourneyEventContext,
+    name: K,
+    ...properties: JourneyEventPropertiesArgs<M, K>
+  ): CustomJourneyEvent {
+    const [props] = properties;
+    this.check(name, props);
+    return {
+      ...context,
+      event_type: 'custom',
+      event_name: name,
+      ...(props === undefined ? {} : { properties: props as Record<string, unknown> }),
+    };
+  }
+
+  /**
+   * Wrap a tracker so its custom events are checked against the schema.
+   *
+   * @param sink - Where events go, e.g. a `BrowserTracker`.
+   * @returns A typed tracker.
+   *
+   * @example
+   * ```ts
+   * const analytics = AppEvents.tracker(new BrowserTracker(qck.journey));
+   * analytics.track('video_played', { seconds: 12, video_id: 'intro' });
+   * analytics.track('videoPlayed', {}); // compile error
+   * ```
+   */
+  tracker(sink: JourneyEventSink): TypedJourneyTracker<M> {
+    return {
+      track: (name, ...properties) => {
+        const [props] = properties;
+        this.check(name, props);
+        sink.track(name, props as Record<string, unknown> | undefined);
+      },
+    };
+  }
+
+  /** Run the event's runtime check, if it has one. */
+  private check<K extends keyof M & string>(name: K, properties: M[K] | undefined): void {
+    const problem = this.options.validate?.[name]?.(properties as M[K]);
+    if (typeof problem === 'string') {
+      throw new ValidationError(`Invalid properties for journey event "${name}": ${problem}`, {
+        fieldErrors: [{ field: 'properties', message: problem }],
+      });
+    }
+  }
+}
+
+/**
+ * Declare the custom journey events an app tracks and the shape of their properties.
+ *
+ * @description The returned registry builds `'custom'` events with `event_name`
+ * and `properties` checked against the schema, so names and property shapes stay
+ * consistent across apps. Pass the same schema to `journey.getSummary` to type
+ * the names in `top_events`.
+ *
+ * @typeParam M - Property shapes keyed by event name.
+ * @param options - Optional runtime checks of event properties.
+ * @returns The event registry.
+ *
+ * @example
+ * ```ts
+ * type AppEvents = {
+ *   video_played: { seconds: number; video_id: string };
+ *   signup_clicked: { plan: 'free' | 'pro' };
+ *   newsletter_opened: undefined;
+ * };
+ *
+ * export const AppEvents = defineJourneyEvents<AppEvents>({
+ *   validate: {
+ *     video_played: ({ seconds }) => (seconds < 0 ? 'seconds must be 0 or more' : undefined),
+ *   },
+ * });
+ *
+ * const analytics = AppEvents.tracker(tracker);
+ * analytics.track('signup_clicked', { plan: 'pro' });
+ * analytics.track('newsletter_opened');
+ *
+ * const summary = await qck.journey.getSummary<AppEvents>(linkId);
+ * summary.top_events[0].name; // 'video_played' | 'signup_clicked' | ... | 'page_view' | ...
+ * ```
+ */
+export function defineJourneyEvents<M extends JourneyEventSchema<M>>(
+  options?: JourneyEventRegistryOptions<M>,
+): JourneyEventRegistry<M> {
+  return new JourneyEventRegistry(options);
+}
@@ -0,0 +1,182 @@
+import type {
+  CookieJourneySessionStoreOptions,
+  JourneySessionCookieTarget,
+  JourneySessionState,
+  JourneySessionStore,
+} from '../types.js';
+
+const DEFAULT_MAX_ENTRIES = 100_000;
+const DEFAULT_COOKIE_MAX_AGE_SECONDS = 86_400;
+
+/**
+ * Keeps sessions in memory, in one process. Once `maxEntries` visitors are held,
+ * the least recently active visitor's session is forgotten.
+ */
+export class MemoryJourneySessionStore implements JourneySessionStore {
+  private readonly sessions = new Map<string, JourneySessionState>();
+
+  /**
+   * @param maxEntries - Most visitors to hold sessions for. @default 100_000
+   */
+  constructor(private readonly maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async get(visitorId: string): Promise<JourneySessionState | undefined> {
+    const session = this.sessions.get(visitorId);
+    return session && { ...session };
+  }
+
+  async set(visitorId: string, session: JourneySessionState): Promise<void> {
+    // Re-insert so the Map's order stays least recently active first.
+    this.sessions.delete(visitorId);
+    this.sessions.set(visitorId, { ...session });
+    if (this.sessions.size > this.maxEntries) {
+      this.sessions.delete(this.sessions.keys().next().value as string);
+    }
+  }
+
+  async delete(visitorId: string): Promise<void> {
+    this.sessions.delete(visitorId);
+  }
+}
+
+/**
+ * Keeps the session in a cookie, for browsers and for servers handling one
+ * visitor per request.
+ *
+ * @description The cookie holds the visitor ID with the session, so it is
+ * ignored if a different visitor is looked up. In browsers it uses
+ * `document.cookie`. On servers, pass a `document` that reads the request's
+ * `Cookie` header and appends `Set-Cookie` headers to the response. The store
+ * remembers what it last wrote, so later reads see it even when the cookie
+ * source doesn't change, as with a request's `Cookie` header. Once the cookie
+ * changes (e.g. another browser tab wrote it), the cookie is read again.
+ *
+ * @example
+ * ```ts
+ * // Browser
+ * const sessions = new JourneySessionManager({
+ *   store: new CookieJourneySessionStore({ domain: '.example.com' }),
+ * });
+ *
+ * // Express, per request
+ * const store = new CookieJourneySessionStore({
+ *   document: {
+ *     get cookie() { return req.headers.cookie ?? ''; },
+ *     set cookie(value) { res.append('Set-Cookie', value); },
+ *   },
+ * });
+ * ```
+ */
+export class CookieJourneySessionStore implements JourneySessionStore {
+  private readonly name: string;
+  private readonly target: JourneySessionCookieTarget;
+  private readonly maxAgeSeconds: number;
+  private readonly attributes: string;
+  /**
+   * The last session written or deleted, with the cookie source's value right
+   * after. Preferred over the cookie while that value is unchanged.
+   */
+  private latest:
+    | { source: string | undefined; visitorId: string; session: JourneySessionState | undefined }
+    | undefined;
+
+  /**
+   * @param options - Cookie name, attributes and target.
+   * @throws {Error} If there is no `document` and none is passed.
+   */
+  constructor(options: CookieJourneySessionStoreOptions = {}) {
+    const target =
+      options.document ?? (globalThis as { document?: JourneySessionCookieTarget }).document;
+    if (!target) {
+      throw new Error(
+        'CookieJourneySessionStore requires a document. Pass { document } outside browsers.',
+      );
+    }
+    this.target = target;
+    this.name = options.name ?? 'qck_session';
+    this.maxAgeSeconds = options.maxAgeSeconds ?? DEFAULT_COOKIE_MAX_AGE_SECONDS;
+    this.attributes = [
+      `Path=${options.path ?? '/'}`,
+      ...(options.domain ? [`Domain=${options.domain}`] : []),
+      `SameSite=${options.sameSite ?? 'Lax'}`,
+      ...(options.secure ? ['Secure'] : []),
+    ].join('; ');
+  }
+
+  async get(visitorId: string): Promise<JourneySessionState | undefined> {
+    const raw = this.read();
+    if (this.latest && this.latest.source === raw) {
+      const { session } = this.latest;
+      return this.latest.visitorId === visitorId && session ? { ...session } : undefined;
+    }
+    if (!raw) return undefined;
+    try {
+      return parseStoredSession(decodeURIComponent(raw), visitorId);
+    } catch {
+      // Malformed percent-encoding; treat as no session.
+      return undefined;
+    }
+  }
+
+  async set(visitorId: string, session: JourneySessionState): Promise<void> {
+    const value = encodeURIComponent(serializeSession(visitorId, session));
+    this.write(value, this.maxAgeSeconds);
+    this.latest = { source: this.read(), visitorId, session: { ...session } };
+  }
+
+  async delete(visitorId: string): Promise<void> {
+    if (!(await this.get(visitorId))) return;
+    this.write('', 0);
+    this.latest = { source: this.read(), visitorId, session: undefined };
+  }
+
+  private write(value: string, maxAgeSeconds: number): void {
+    this.target.cookie = `${this.name}=${value}; Max-Age=${maxAgeSeconds}; ${this.attributes}`;
+  }
+
+  /** @returns The raw cookie value, or `undefined` if the cookie isn't set. */
+  private read(): string | undefined {
+    for (const pair of this.target.cookie.split(';')) {
+      const separator = pair.indexOf('=');
+      if (separator !== -1 && pair.slice(0, separator).trim() === this.name) {
+        return pair.slice(separator + 1).trim();
+      }
+    }
+    return undefined;
+  }
+}
+
+/** @returns The session as stored by {@link parseStoredSession}: JSON with the visitor ID. */
+export function serializeSession(visitorId: string, session: JourneySessionState): string {
+  return JSON.stringify({ visitorId, ...session });
+}
+
+/**
+ * @returns The session from a value written by {@link serializeSession}, or
+ *   `undefined` if it's corrupt or belongs to a different visitor.
+ */
+export function parseStoredSession(
+  value: string,
+  visitorId: string,
+): JourneySessionState | undefined {
+  try {
+    const stored = JSON.parse(value) as Partial<JourneySessionState & { visitorId: string }> | null;
+    if (
+      stored?.visitorId !== visitorId ||
+      typeof stored.id !== 'string' ||
+      typeof stored.startedAt !== 'number' ||
+      typeof stored.lastActivity !== 'number'
+    ) {
+      return undefined;
+    }
+    return {
+      id: stored.id,
+      startedAt: stored.startedAt,
+      lastActivity: stored.lastActivity,
+      ...(typeof stored.campaign === 'string' ? { campaign: stored.campaign } : {}),
+    };
+  } catch {
+    // Corrupt or foreign value; treat as no session.
+    return undefined;
+  }
+}
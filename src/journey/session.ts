@@ -0,0 +1,184 @@
+import type {
+  JourneyEvent,
+  JourneySessionManagerOptions,
+  JourneySessionState,
+  JourneySessionStore,
+} from '../types.js';
+import { MemoryJourneySessionStore } from './session-store.js';
+
+const DEFAULT_TIMEOUT_MS = 1_800_000;
+
+/**
+ * Assigns `session_id`s to journey events, one session per visitor at a time.
+ *
+ * @description A visitor's session continues while their events keep coming. A
+ * new session starts when:
+ *
+ * - more than `timeoutMs` passed since the visitor's previous event,
+ * - the event is on a later day than the previous one (midnight in `timeZone`),
+ * - or the event comes from a different campaign (by default, a different
+ *   `link_id`) than the one that started the session.
+ *
+ * Sessions are decided by each event's `timestamp` (the current time if it has
+ * none), so events replayed from a queue land in the session they happened in.
+ * Use the same options in every service stamping events, with a shared `store`,
+ * so `journey.listSessions` reports consistent sessions.
+ *
+ * @example
+ * ```ts
+ * const sessions = new JourneySessionManager({
+ *   timeoutMs: 30 * 60_000,
+ *   timeZone: 'America/New_York',
+ *   store: new RedisSessionStore(redis), // your JourneySessionStore, shared by all services
+ * });
+ *
+ * app.post('/track', async (req, res) => {
+ *   await batcher.add(await sessions.stamp(req.body));
+ *   res.sendStatus(202);
+ * });
+ * ```
+ */
+export class JourneySessionManager {
+  private readonly store: JourneySessionStore;
+  private readonly timeoutMs: number;
+  private readonly dayOf: ((time: number) => string) | undefined;
+  private readonly campaign: ((event: JourneyEvent) => string | undefined) | undefined;
+  private readonly generateId: () => string;
+  /** Per-visitor chains, so concurrent events of one visitor can't start two sessions. */
+  private readonly pending = new Map<string, Promise<unknown>>();
+
+  /**
+   * @param options - Session store, timeout and rollover rules.
+   */
+  constructor(options: JourneySessionManagerOptions = {}) {
+    this.store = options.store ?? new MemoryJourneySessionStore();
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.campaign = options.campaign === false ? undefined : (options.campaign ?? linkCampaign);
+    this.generateId = options.generateId ?? (() => crypto.randomUUID());
+    if (options.splitAtMidnight ?? true) {
+      // en-CA formats dates as YYYY-MM-DD.
+      const format = new Intl.DateTimeFormat('en-CA', {
+        timeZone: options.timeZone ?? 'UTC',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+      });
+      this.dayOf = (time) => format.format(time);
+    }
+  }
+
+  /**
+   * Stamp an event with the visitor's session, starting a new session if needed.
+   *
+   * @description Events that already have a `session_id` are returned unchanged.
+   * Events without a `timestamp` get the current time, so the API places them
+   * in the same session.
+   *
+   * @param event - The event to stamp. It isn't modified.
+   * @returns A copy of the event with `session_id` and `timestamp` set.
+   *
+   * @example
+   * ```ts
+   * await qck.journey.ingest({ events: [await sessions.stamp(event)] });
+   * ```
+   */
+  async stamp<T extends JourneyEvent>(event: T): Promise<T> {
+    if (event.session_id) return event;
+    const parsed = event.timestamp === undefined ? NaN : Date.parse(event.timestamp);
+    const time = Number.isNaN(parsed) ? Date.now() : parsed;
+    const session = await this.touch(event.visitor_id, time, this.campaign?.(event));
+    return {
+      ...event,
+      session_id: session.id,
+      timestamp: event.timestamp ?? new Date(time).toISOString(),
+    };
+  }
+
+  /**
+   * Stamp a batch of events in order. See {@link stamp}.
+   *
+   * @param events - The events to stamp, oldest first.
+   * @returns Copies of the events with `session_id` and `timestamp` set.
+   *
+   * @example
+   * ```ts
+   * await qck.journey.ingest({ events: await sessions.stampAll(events) });
+   * ```
+   */
+  async stampAll<T extends JourneyEvent>(events: T[]): Promise<T[]> {
+    const stamped: T[] = [];
+    for (const event of events) stamped.push(await this.stamp(event));
+    return stamped;
+  }
+
+  /**
+   * The visitor's current session, without extending it.
+   *
+   * @param visitorId - The visitor.
+   * @returns The session, or `undefined` if the visitor has none or it has timed out.
+   */
+  async current(visitorId: string): Promise<JourneySessionState | undefined> {
+    const session = await this.store.get(visitorId);
+    if (!session || this.isExpired(session, Date.now(), undefined)) return undefined;
+    return session;
+  }
+
+  /**
+   * End the visitor's session, e.g. when they sign out, so their next event
+   * starts a new one.
+   *
+   * @param visitorId - The visitor.
+   */
+  async end(visitorId: string): Promise<void> {
+    await this.serialize(visitorId, () => this.store.delete(visitorId));
+  }
+
+  /** @returns The visitor's session for an event at `time`, after recording the event. */
+  private touch(
+    visitorId: string,
+    time: number,
+    campaign: string | undefined,
+  ): Promise<JourneySessionState> {
+    return this.serialize(visitorId, async () => {
+      let session = await this.store.get(visitorId);
+      if (!session || this.isExpired(session, time, campaign)) {
+        session = { id: this.generateId(), startedAt: time, lastActivity: time };
+      }
+      session.lastActivity = Math.max(session.lastActivity, time);
+      session.campaign ??= campaign;
+      if (session.campaign === undefined) delete session.campaign;
+      await this.store.set(visitorId, session);
+      return session;
+    });
+  }
+
+  private isExpired(
+    session: JourneySessionState,
+    time: number,
+    campaign: string | undefined,
+  ): boolean {
+    // Events older than the session's latest one (e.g. replayed late) don't time it out.
+    if (time - session.lastActivity > this.timeoutMs) return true;
+    if (this.dayOf && this.dayOf(time) !== this.dayOf(session.lastActivity)) return true;
+    return (
+      campaign !== undefined && session.campaign !== undefined && campaign !== session.campaign
+    );
+  }
+
+  /** Run `task` after the visitor's earlier tasks have settled. */
+  private serialize<R>(visitorId: string, task: () => Promise<R>): Promise<R> {
+    const previous = this.pending.get(visitorId) ?? Promise.resolve();
+    const result = previous.then(task);
+    const settled = result.catch(() => undefined);
+    this.pending.set(visitorId, settled);
+    void settled.then(() => {
+      if (this.pending.get(visitorId) === settled) this.pending.delete(visitorId);
+    });
+    return result;
+  }
+}
+
+/** The default campaign of an event: the QCK link the visitor arrived through. */
+function linkCampaign(event: JourneyEvent): string | undefined {
+  return event.link_id;
+}
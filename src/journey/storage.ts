@@ -0,0 +1,136 @@
+import type { JourneyEvent, JourneyQueueFileSystem, JourneyQueueStorage } from '../types.js';
+
+/**
+ * Keeps queued journey events in memory. Events are lost when the process exits,
+ * so use it in tests or where durability doesn't matter.
+ */
+export class MemoryJourneyStorage implements JourneyQueueStorage {
+  private events: JourneyEvent[] = [];
+
+  async load(): Promise<JourneyEvent[]> {
+    return [...this.events];
+  }
+
+  async append(events: JourneyEvent[]): Promise<void> {
+    this.events.push(...events);
+  }
+
+  async replace(events: JourneyEvent[]): Promise<void> {
+    this.events = [...events];
+  }
+}
+
+/**
+ * Persists queued journey events in Web Storage (`localStorage` by default) as a
+ * JSON array under one key. Survives reloads and browser restarts.
+ *
+ * @example
+ * ```ts
+ * const queue = qck.journey.createQueue({
+ *   storage: new WebStorageJourneyStorage('qck:journey-queue'),
+ *   maxBytes: 1_000_000,
+ * });
+ * ```
+ */
+export class WebStorageJourneyStorage implements JourneyQueueStorage {
+  /**
+   * @param key - Storage key holding the events.
+   * @param storage - The `Storage` to use. Defaults to `globalThis.localStorage`.
+   */
+  constructor(
+    private readonly key: string,
+    private readonly storage: Storage = globalThis.localStorage,
+  ) {}
+
+  async load(): Promise<JourneyEvent[]> {
+    const raw = this.storage.getItem(this.key);
+    if (!raw) return [];
+    try {
+      const events: unknown = JSON.parse(raw);
+      return Array.isArray(events) ? (events as JourneyEvent[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async append(events: JourneyEvent[]): Promise<void> {
+    await this.replace([...(await this.load()), ...events]);
+  }
+
+  async replace(events: JourneyEvent[]): Promise<void> {
+    if (events.length === 0) {
+      this.storage.removeItem(this.key);
+    } else {
+      this.storage.setItem(this.key, JSON.stringify(events));
+    }
+  }
+}
+
+/**
+ * Persists queued journey events in an append-only file of JSON lines on Node.
+ *
+ * @description New events are appended; the file is rewritten (via a temporary
+ * file and an atomic rename) only when sent or dropped events are removed. A line
+ * cut short by a crash mid-write is dropped on load, and the file is rewritten
+ * without it.
+ *
+ * @example
+ * ```ts
+ * import fs from 'node:fs/promises';
+ *
+ * const queue = qck.journey.createQueue({
+ *   storage: new FileJourneyStorage('/var/lib/kiosk/qck-events.jsonl', fs),
+ * });
+ * ```
+ */
+export class FileJourneyStorage implements JourneyQueueStorage {
+  /**
+   * @param path - Path of the queue file. Created on first write.
+   * @param fs - Node's `fs/promises` module (or a compatible implementation).
+   */
+  constructor(
+    private readonly path: string,
+    private readonly fs: JourneyQueueFileSystem,
+  ) {}
+
+  async load(): Promise<JourneyEvent[]> {
+    let contents: string;
+    try {
+      contents = await this.fs.readFile(this.path, 'utf8');
+    } catch (err) {
+      if ((err as { code?: string }).code === 'ENOENT') return [];
+      throw err;
+    }
+
+    const events: JourneyEvent[] = [];
+    // Without a final newline, the next append would run on from the last line.
+    let damaged = contents.length > 0 && !contents.endsWith('\n');
+    for (const line of contents.split('\n')) {
+      if (!line) continue;
+      try {
+        events.push(JSON.parse(line) as JourneyEvent);
+      } catch {
+        // Partial line from an interrupted write.
+        damaged = true;
+      }
+    }
+    // Rewrite the file so later appends don't run on from the partial line.
+    if (damaged) await this.replace(events);
+    return events;
+  }
+
+  async append(events: JourneyEvent[]): Promise<void> {
+    if (events.length > 0) await this.fs.appendFile(this.path, toLines(events));
+  }
+
+  async replace(events: JourneyEvent[]): Promise<void> {
+    const temporary = `${this.path}.tmp`;
+    await this.fs.writeFile(temporary, toLines(events));
+    await this.fs.rename(temporary, this.path);
+  }
+}
+
+/** @returns The events as newline-terminated JSON lines. */
+function toLines(events: JourneyEvent[]): string {
+  return events.map((event) => `${JSON.stringify(event)}\n`).join('');
+}
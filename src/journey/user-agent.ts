@@ -0,0 +1,225 @@
+import type {
+  JourneyEvent,
+  JourneyRequestInfo,
+  ParsedUserAgent,
+  UserAgentDeviceType,
+} from '../types.js';
+
+/** Crawlers, link previewers, uptime monitors, headless browsers and HTTP libraries. */
+const BOT_PATTERN = new RegExp(
+  [
+    'bot\\b',
+    'crawl',
+    'spider',
+    'slurp',
+    'headless',
+    'lighthouse',
+    'facebookexternalhit',
+    'embedly',
+    'bingpreview',
+    'pingdom',
+    'uptimerobot',
+    'statuscake',
+    'phantomjs',
+    'puppeteer',
+    'playwright',
+    'curl/',
+    'wget/',
+    'python-requests',
+    'python-urllib',
+    'aiohttp',
+    'go-http-client',
+    'okhttp',
+    'axios/',
+    'node-fetch',
+    'undici',
+    'java/',
+    'libwww-perl',
+    'httpclient',
+    'scrapy',
+  ].join('|'),
+  'i',
+);
+
+/** Browsers, most specific first: Edge, Opera and Samsung Internet also claim to be Chrome. */
+const BROWSERS: ReadonlyArray<readonly [name: string, pattern: RegExp]> = [
+  ['Edge', /\bEdg(?:e|A|iOS)?\/([\d.]+)/],
+  ['Opera', /\b(?:OPR|OPiOS)\/([\d.]+)/],
+  ['Opera', /\bOpera\/.*Version\/([\d.]+)/],
+  ['Samsung Internet', /\bSamsungBrowser\/([\d.]+)/],
+  ['Firefox', /\b(?:Firefox|FxiOS)\/([\d.]+)/],
+  ['Chrome', /\b(?:Chrome|CriOS)\/([\d.]+)/],
+  ['Safari', /\bVersion\/([\d.]+).*Safari\//],
+  ['Internet Explorer', /\bMSIE ([\d.]+)/],
+  ['Internet Explorer', /\bTrident\/.*rv:([\d.]+)/],
+];
+
+/** Operating systems. iOS and Android first, as their user agents also name macOS and Linux. */
+const OPERATING_SYSTEMS: ReadonlyArray<readonly [name: string, pattern: RegExp]> = [
+  ['iOS', /\b(?:iPhone|iPad|iPod)\b.*? OS (\d+(?:_\d+)*)/],
+  ['Android', /\bAndroid (\d+(?:\.\d+)*)/],
+  ['Android', /\bAndroid\b()/],
+  ['Windows Phone', /\bWindows Phone(?: OS)? (\d+(?:\.\d+)*)/],
+  ['Windows', /\bWindows NT (\d+\.\d+)/],
+  ['Chrome OS', /\bCrOS \S+ (\d+(?:\.\d+)*)/],
+  ['macOS', /\bMac OS X (\d+(?:[_.]\d+)*)/],
+  ['Linux', /\bLinux\b()/],
+];
+
+/** Marketing names of Windows NT versions. NT 10.0 covers both Windows 10 and 11. */
+const WINDOWS_VERSIONS: Record<string, string> = {
+  '10.0': '10',
+  '6.3': '8.1',
+  '6.2': '8',
+  '6.1': '7',
+  '6.0': 'Vista',
+  '5.1': 'XP',
+};
+
+/**
+ * Parse a `User-Agent` header into the device fields of a journey event.
+ *
+ * @description Runs offline against a built-in table of common browsers and
+ * operating systems. Crawlers, link previewers, uptime monitors, headless
+ * browsers and HTTP libraries are reported with `is_bot: true` and
+ * `device_type: 'bot'`. Fields that can't be recognized are omitted.
+ *
+ * @param userAgent - The `User-Agent` header.
+ * @returns The parsed user agent.
+ *
+ * @example
+ * ```ts
+ * parseUserAgent(req.headers['user-agent']);
+ * // { device_type: 'mobile', browser: 'Safari', browser_version: '17.1',
+ * //   os: 'iOS', os_version: '17.1.2', is_bot: false }
+ * ```
+ */
+export function parseUserAgent(userAgent: string | null | undefined): ParsedUserAgent {
+  const ua = userAgent ?? '';
+  const isBot = BOT_PATTERN.test(ua);
+  const parsed: ParsedUserAgent = { device_type: deviceType(ua, isBot), is_bot: isBot };
+
+  const browser = match(BROWSERS, ua);
+  if (browser) {
+    parsed.browser = browser.name;
+    parsed.browser_version = browser.version;
+  }
+
+  const os = match(OPERATING_SYSTEMS, ua);
+  if (os) {
+    parsed.os = os.name;
+    const version = os.version?.replace(/_/g, '.');
+    if (version) {
+      parsed.os_version = os.name === 'Windows' ? (WINDOWS_VERSIONS[version] ?? version) : version;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Whether a `User-Agent` header belongs to a bot rather than a visitor.
+ *
+ * @param userAgent - The `User-Agent` header.
+ * @returns `true` for crawlers, link previewers, uptime monitors, headless
+ * browsers and HTTP libraries.
+ *
+ * @example
+ * ```ts
+ * if (!isBotUserAgent(req.headers['user-agent'])) {
+ *   await batcher.add(event);
+ * }
+ * ```
+ */
+export function isBotUserAgent(userAgent: string | null | undefined): boolean {
+  return BOT_PATTERN.test(userAgent ?? '');
+}
+
+/**
+ * Fill a journey event's device fields from the request it was received with.
+ *
+ * @description Sets `device_type`, `browser`, `browser_version`, `os` and
+ * `os_version` from the `User-Agent` header (see {@link parseUserAgent}), and
+ * `properties.language` to the preferred language of the `Accept-Language`
+ * header. Fields already set on the event are kept. Bots get `device_type:
+ * 'bot'`, so they can be dropped before `journey.ingest`, or kept and told apart
+ * later.
+ *
+ * @param event - The event to enrich. It isn't modified.
+ * @param request - The request's `User-Agent` and `Accept-Language` headers.
+ * @returns A copy of the event with the device fields filled in.
+ *
+ * @example
+ * ```ts
+ * app.post('/track', async (req, res) => {
+ *   const event = enrichFromRequest(req.body, {
+ *     userAgent: req.get('user-agent'),
+ *     acceptLanguage: req.get('accept-language'),
+ *   });
+ *   if (event.device_type !== 'bot') await batcher.add(event);
+ *   res.sendStatus(202);
+ * });
+ * ```
+ */
+export function enrichFromRequest<T extends JourneyEvent>(
+  event: T,
+  request: JourneyRequestInfo,
+): T {
+  const enriched: T = { ...event };
+
+  if (request.userAgent) {
+    const parsed = parseUserAgent(request.userAgent);
+    enriched.device_type ??= parsed.device_type;
+    for (const field of ['browser', 'browser_version', 'os', 'os_version'] as const) {
+      if (enriched[field] === undefined && parsed[field] !== undefined) {
+        enriched[field] = parsed[field];
+      }
+    }
+  }
+
+  const language = preferredLanguage(request.acceptLanguage);
+  if (language && enriched.properties?.language === undefined) {
+    enriched.properties = { ...enriched.properties, language };
+  }
+
+  return enriched;
+}
+
+/** Categorize the device, defaulting to desktop. */
+function deviceType(ua: string, isBot: boolean): UserAgentDeviceType {
+  if (isBot) return 'bot';
+  // Older Windows desktops report "Tablet PC".
+  if (/\b(?:iPad|Tablet(?! PC)|Kindle|Silk|PlayBook)\b/.test(ua)) return 'tablet';
+  // Android tablets leave "Mobile" out of their user agent.
+  if (/\bAndroid\b/.test(ua) && !/\bMobile\b/.test(ua)) return 'tablet';
+  if (/Mobi|\b(?:iPhone|iPod|Android|Windows Phone|BlackBerry|Opera Mini)\b/.test(ua)) {
+    return 'mobile';
+  }
+  return 'desktop';
+}
+
+/** First entry of a name/pattern table matching the user agent. */
+function match(
+  table: ReadonlyArray<readonly [name: string, pattern: RegExp]>,
+  ua: string,
+): { name: string; version?: string } | undefined {
+  for (const [name, pattern] of table) {
+    const found = pattern.exec(ua);
+    if (found) return { name, version: found[1] || undefined };
+  }
+  return undefined;
+}
+
+/** The language tag with the highest `q` weight, e.g. `'en-US'` for `'en-US,en;q=0.9'`. */
+function preferredLanguage(header: string | null | undefined): string | undefined {
+  let best: { tag: string; q: number } | undefined;
+  for (const part of (header ?? '').split(',')) {
+    const [tag, ...params] = part.trim().split(';');
+    if (!tag || tag === '*') continue;
+    const weight = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+    const q = weight ? Number(weight.slice(2)) : 1;
+    if (!(q > 0)) continue;
+    if (!best || q > best.q) best = { tag, q };
+  }
+  return best?.tag;
+}
@@ -0,0 +1,143 @@
+import { ValidationError } from '../errors.js';
+import type { JourneyEventIssue, JourneyEventType } from '../types.js';
+
+const EVENT_TYPES: readonly JourneyEventType[] = [
+  'page_view',
+  'scroll_depth',
+  'time_on_page',
+  'custom',
+  'conversion',
+];
+
+const REQUIRED_IDS = ['link_id', 'visitor_id'] as const;
+const OPTIONAL_STRINGS = [
+  'session_id',
+  'event_name',
+  'page_title',
+  'city',
+  'region',
+  'device_type',
+  'browser',
+  'browser_version',
+  'os',
+  'os_version',
+] as const;
+
+/**
+ * Check a journey event against the rules the ingest endpoint enforces, without
+ * a round trip.
+ *
+ * @description Checks the required fields, the `event_type`, the fields each type
+ * requires (`scroll_percent` from 0 to 100 for `'scroll_depth'`, `time_on_page`
+ * for `'time_on_page'`, `event_name` for `'custom'`, `conversion_name` for
+ * `'conversion'`), and the format of optional fields such as `timestamp`,
+ * `revenue_cents` and `country_code`. `journey.ingest` runs it on every event
+ * and rejects the batch with a {@link ValidationError} if any are invalid.
+ *
+ * @param event - The event to check. Any value is accepted, e.g. parsed JSON.
+ * @param index - Position of the event in its batch, copied to each issue.
+ * @returns The problems found; empty if the event is valid.
+ *
+ * @example
+ * ```ts
+ * const issues = events.flatMap((event, i) => validateJourneyEvent(event, i));
+ * for (const { index, field, message } of issues) {
+ *   console.warn(`event ${index}: ${field} ${message}`);
+ * }
+ * ```
+ */
+export function validateJourneyEvent(event: unknown, index = 0): JourneyEventIssue[] {
+  const issues: JourneyEventIssue[] = [];
+  const issue = (field: string, message: string) => issues.push({ index, field, message });
+
+  if (typeof event !== 'object' || event === null || Array.isArray(event)) {
+    issue('event', 'must be an object');
+    return issues;
+  }
+  const fields = event as Record<string, unknown>;
+
+  for (const field of REQUIRED_IDS) {
+    if (!isNonEmptyString(fields[field])) issue(field, 'is required');
+  }
+  // Server-side conversions are sent without a page, as an empty string.
+  if (typeof fields.page_url !== 'string') issue('page_url', 'is required');
+  for (const field of OPTIONAL_STRINGS) {
+    if (fields[field] !== undefined && typeof fields[field] !== 'string') {
+      issue(field, 'must be a string');
+    }
+  }
+
+  const type = fields.event_type;
+  if (!EVENT_TYPES.includes(type as JourneyEventType)) {
+    issue('event_type', `must be one of ${EVENT_TYPES.join(', ')}`);
+  }
+
+  switch (type) {
+    case 'scroll_depth': {
+      const percent = fields.scroll_percent;
+      if (typeof percent !== 'number' || !(percent >= 0 && percent <= 100)) {
+        issue('scroll_percent', 'must be a number from 0 to 100');
+      }
+      break;
+    }
+    case 'time_on_page': {
+      const seconds = fields.time_on_page;
+      if (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds < 0) {
+        issue('time_on_page', 'must be a number of seconds, 0 or more');
+      }
+      break;
+    }
+    case 'custom':
+      if (!isNonEmptyString(fields.event_name)) issue('event_name', 'is required');
+      break;
+    case 'conversion':
+      if (!isNonEmptyString(fields.conversion_name)) issue('conversion_name', 'is required');
+      if (fields.revenue_cents !== undefined && !Number.isInteger(fields.revenue_cents)) {
+        issue('revenue_cents', 'must be an integer number of cents');
+      }
+      if (fields.currency !== undefined && !/^[A-Za-z]{3}$/.test(String(fields.currency))) {
+        issue('currency', 'must be an ISO 4217 code, e.g. "USD"');
+      }
+      break;
+  }
+
+  if (fields.timestamp !== undefined) {
+    if (typeof fields.timestamp !== 'string' || Number.isNaN(Date.parse(fields.timestamp))) {
+      issue('timestamp', 'must be an ISO 8601 date-time');
+    }
+  }
+  if (fields.country_code !== undefined && !/^[A-Za-z]{2}$/.test(String(fields.country_code))) {
+    issue('country_code', 'must be a 2-letter ISO 3166-1 code, e.g. "US"');
+  }
+  const properties = fields.properties;
+  if (
+    properties !== undefined &&
+    (typeof properties !== 'object' || properties === null || Array.isArray(properties))
+  ) {
+    issue('properties', 'must be an object');
+  }
+
+  return issues;
+}
+
+/**
+ * @returns The error `journey.ingest` rejects with, and the batcher and queue
+ *   report, when events fail client-side validation.
+ */
+export function invalidEventsError(issues: JourneyEventIssue[]): ValidationError {
+  const fieldErrors = issues.map(({ index, field, message }) => ({
+    field: `events.${index}.${field}`,
+    message,
+  }));
+  const [first] = fieldErrors;
+  const more = fieldErrors.length > 1 ? ` (and ${fieldErrors.length - 1} more)` : '';
+  return new ValidationError(`Invalid journey event: ${first.field} ${first.message}${more}`, {
+    method: 'POST',
+    path: '/journey/events',
+    fieldErrors,
+  });
+}
+
+function isNonEmptyString(value: unknown): boolean {
+  return typeof value === 'string' && value.length > 0;
+}
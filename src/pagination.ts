@@ -0,0 +1,113 @@
+import type { PaginatedResponse } from './types.js';
+
+/**
+ * Lazily walks every page of a paginated endpoint.
+ *
+ * @description Returned by the `listAll*` resource methods. Nothing is fetched
+ * until the paginator is iterated. Iterate it with `for await` to get items,
+ * call {@link Paginator.pages | pages()} to get whole pages, or
+ * {@link Paginator.toArray | toArray()} to collect items into an array.
+ * Iteration stops once the server-reported `total` has been reached or a page
+ * comes back empty. Because this relies on the `page`, `limit`, and `total`
+ * fields of each response, it works the same whether the endpoint names its
+ * page-size parameter `per_page` or `limit`.
+ *
+ * Each call to `pages()`, `toArray()`, or `for await` starts again from the first page.
+ *
+ * @typeParam T - The type of each item.
+ *
+ * @example
+ * ```ts
+ * for await (const link of qck.links.listAll({ per_page: 100, tags: ['marketing'] })) {
+ *   console.log(link.short_url);
+ * }
+ *
+ * const recent = await qck.journey.listAllEvents('abc123', { limit: 100 }).toArray({ max: 500 });
+ * ```
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  /** Page number iteration starts from. */
+  private readonly startPage: number;
+  /** Whether to request the next page while the current one is being consumed. */
+  private readonly prefetch: boolean;
+
+  /**
+   * @param fetchPage - Fetches a single page by its 1-indexed number.
+   * @param options - Page to start from (default 1) and whether to prefetch (default `false`).
+   */
+  constructor(
+    private readonly fetchPage: (page: number) => Promise<PaginatedResponse<T>>,
+    options: { startPage?: number; prefetch?: boolean } = {},
+  ) {
+    this.startPage = options.startPage ?? 1;
+    this.prefetch = options.prefetch ?? false;
+  }
+
+  /**
+   * Iterate over whole pages.
+   *
+   * @returns An async iterator yielding each page response in order.
+   *
+   * @example
+   * ```ts
+   * for await (const page of qck.links.listAll({ per_page: 100 }).pages()) {
+   *   await db.links.insertMany(page.data);
+   *   console.log(`page ${page.page}: ${page.data.length} of ${page.total}`);
+   * }
+   * ```
+   */
+  async *pages(): AsyncGenerator<PaginatedResponse<T>, void, undefined> {
+    let page = this.startPage;
+    let pending = this.fetchPage(page);
+
+    for (;;) {
+      const current = await pending;
+      const hasMore = current.data.length > 0 && current.page * current.limit < current.total;
+
+      if (hasMore && this.prefetch) {
+        pending = this.fetchPage(page + 1);
+        // Surface the error when the page is awaited, not if the consumer stops early
+        pending.catch(() => undefined);
+      }
+
+      yield current;
+
+      if (!hasMore) return;
+      page++;
+      if (!this.prefetch) {
+        pending = this.fetchPage(page);
+      }
+    }
+  }
+
+  /**
+   * Iterate over individual items across all pages.
+   *
+   * @returns An async iterator yielding each item in order.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.data;
+    }
+  }
+
+  /**
+   * Collect items from all pages into an array.
+   *
+   * @param options - Optional cap on the number of items collected.
+   * @param options.max - Stop after this many items (no further pages are fetched).
+   * @returns The collected items.
+   */
+  async toArray(options: { max?: number } = {}): Promise<T[]> {
+    const max = options.max ?? Infinity;
+    const items: T[] = [];
+    if (max <= 0) return items;
+
+    for await (const item of this) {
+      items.push(item);
+      if (items.length >= max) break;
+    }
+
+    return items;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Restricted client for front-end code, authenticated with a publishable key.
+ *
+ * @description Import it from `@qcksh/sdk/public` so bundles include only journey
+ * ingestion and conversion tracking, not the admin resources.
+ *
+ * @example
+ * ```ts
+ * import { createPublicClient } from '@qcksh/sdk/public';
+ *
+ * const qck = createPublicClient({ publishableKey: 'qck_pk_...' });
+ * ```
+ *
+ * @packageDocumentation
+ */
+import { HttpClient } from '../client.js';
+import { ConversionsResource } from '../resources/conversions.js';
+import { JourneyResource } from '../resources/journey.js';
+import type { PublicClientConfig, RateLimitStatus } from '../types.js';
+
+/** Prefix of publishable keys. Every other `qck_` key is a secret key. */
+const PUBLISHABLE_KEY_PREFIX = 'qck_pk_';
+
+/**
+ * QCK client for browsers and other untrusted environments.
+ *
+ * @description Authenticates with a publishable key, sent in the
+ * `X-Publishable-Key` header (never `X-API-Key`), and exposes only
+ * `journey.ingest` and `conversions.track`. Create instances with
+ * {@link createPublicClient}.
+ */
+export class QCKPublicClient {
+  /** Journey event ingestion. */
+  public readonly journey: Pick<JourneyResource, 'ingest'>;
+  /** Conversion tracking. */
+  public readonly conversions: Pick<ConversionsResource, 'track'>;
+
+  /** HTTP client shared by all resources. */
+  private readonly client: HttpClient;
+
+  /**
+   * @param config - Publishable key and transport options.
+   * @throws {Error} If the key is missing, is a secret key, or isn't a publishable key.
+   */
+  constructor(config: PublicClientConfig) {
+    assertPublishableKey(config);
+
+    this.client = new HttpClient({
+      apiKey: config.publishableKey,
+      authHeader: 'X-Publishable-Key',
+      baseUrl: config.baseUrl,
+      timeout: config.timeout,
+      retries: config.retries,
+      middleware: config.middleware,
+      fetch: config.fetch,
+      rateLimit: config.rateLimit,
+      retryPolicy: config.retryPolicy,
+    });
+
+    // Expose only the allowed methods, so the rest aren't reachable at runtime either.
+    const journey = new JourneyResource(this.client);
+    const conversions = new ConversionsResource(this.client);
+    this.journey = { ingest: journey.ingest.bind(journey) };
+    this.conversions = { track: conversions.track.bind(conversions) };
+  }
+
+  /** Current rate-limit budget. See {@link QCK.rateLimit}. */
+  get rateLimit(): RateLimitStatus {
+    return this.client.rateLimitStatus();
+  }
+}
+
+/**
+ * Create a client that can only ingest journey events and track conversions.
+ *
+ * @description Use it wherever the key ships to end users, such as browser and
+ * mobile-web code. Secret API keys are refused, so one can't be embedded by
+ * mistake.
+ *
+ * @param config - Publishable key (`qck_pk_...`) and transport options.
+ * @returns A restricted client.
+ * @throws {Error} If the key is missing, is a secret key, or isn't a publishable key.
+ *
+ * @example
+ * ```ts
+ * import { createPublicClient } from '@qcksh/sdk/public';
+ * import { BrowserTracker } from '@qcksh/sdk/browser';
+ *
+ * const qck = createPublicClient({ publishableKey: 'qck_pk_live_abc123' });
+ * const tracker = new BrowserTracker(qck.journey);
+ *
+ * await qck.conversions.track({ link_id, visitor_id, name: 'signup' });
+ * ```
+ */
+export function createPublicClient(config: PublicClientConfig): QCKPublicClient {
+  return new QCKPublicClient(config);
+}
+
+/** Reject anything but a publishable key. */
+function assertPublishableKey(config: PublicClientConfig): void {
+  const key = config.publishableKey;
+  if ('apiKey' in config || (key?.startsWith('qck_') && !key.startsWith(PUBLISHABLE_KEY_PREFIX))) {
+    throw new Error(
+      'createPublicClient was given a secret API key. Secret keys must never ship in ' +
+        'front-end code. Pass a publishable key: { publishableKey: "qck_pk_..." }.',
+    );
+  }
+  if (!key?.startsWith(PUBLISHABLE_KEY_PREFIX)) {
+    throw new Error(
+      'createPublicClient requires a publishable key. Pass { publishableKey: "qck_pk_..." }.',
+    );
+  }
+}
+
+export {
+  QCKError,
+  AuthenticationError,
+  PermissionDeniedError,
+  RateLimitError,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  ServerError,
+  TimeoutError,
+  NetworkError,
+} from '../errors.js';
+export type { PublicClientConfig, FieldError, QCKErrorJSON } from '../types.js';
@@ -0,0 +1,251 @@
+import type { RateLimitOptions, RateLimitStatus } from './types.js';
+
+/** A request waiting in the queue for a slot. */
+interface Waiter {
+  resolve: (release: () => void) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Continuously refilling token bucket allowing `capacity` requests per `intervalMs`.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  /**
+   * @param capacity - Maximum burst size and number of tokens added per interval.
+   * @param intervalMs - Length of the refill interval in milliseconds.
+   */
+  constructor(
+    private readonly capacity: number,
+    private readonly intervalMs: number,
+  ) {
+    this.tokens = capacity;
+  }
+
+  /** Tokens currently available (may be fractional). */
+  available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  /** Remove one token. Callers must check {@link available} first. */
+  take(): void {
+    this.refill();
+    this.tokens -= 1;
+  }
+
+  /** Milliseconds until at least one token is available (0 if one is available now). */
+  waitTime(): number {
+    const missing = 1 - this.available();
+    return missing <= 0 ? 0 : Math.ceil((missing * this.intervalMs) / this.capacity);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.updatedAt;
+    this.updatedAt = now;
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.capacity) / this.intervalMs);
+  }
+}
+
+/**
+ * Client-wide request throttle shared by every call made through one {@link HttpClient}.
+ *
+ * @description Requests acquire a slot before each attempt and release it once the
+ * response has been read. Slots are handed out in FIFO order, subject to local
+ * token buckets (`requestsPerSecond`, `requestsPerMinute`), a concurrency cap, and
+ * the budget reported by the server's `X-RateLimit-*` and `Retry-After` headers.
+ *
+ * Header tracking always runs so {@link status} is populated; queuing only happens
+ * when the limiter was created with options.
+ */
+export class RateLimiter {
+  /** Whether requests are throttled at all (options were provided). */
+  private readonly enabled: boolean;
+  /** Local token buckets (per second and/or per minute). */
+  private readonly buckets: TokenBucket[] = [];
+  /** Maximum number of requests in flight at once. */
+  private readonly maxConcurrency: number;
+  /** Whether to pause when the server reports an exhausted budget. */
+  private readonly respectHeaders: boolean;
+  /** Requests waiting for a slot, oldest first. */
+  private readonly queue: Waiter[] = [];
+  /** Number of requests currently holding a slot. */
+  private inFlight = 0;
+  /** Epoch milliseconds before which no request may start (from server headers). */
+  private blockedUntil = 0;
+  /** Pending timer that re-checks the queue once the next slot frees up. */
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  /** Last `X-RateLimit-Limit` value seen. */
+  private limit: number | null = null;
+  /** Last `X-RateLimit-Remaining` value seen. */
+  private remaining: number | null = null;
+  /** Reset time derived from the last `X-RateLimit-Reset` value seen. */
+  private resetAt: Date | null = null;
+
+  /**
+   * @param options - Throttle settings. Omit to only track server headers.
+   */
+  constructor(options?: RateLimitOptions) {
+    this.enabled = options !== undefined;
+    this.maxConcurrency = options?.maxConcurrency ?? Infinity;
+    this.respectHeaders = options?.respectHeaders ?? true;
+
+    if (options?.requestsPerSecond) {
+      this.buckets.push(new TokenBucket(options.requestsPerSecond, 1_000));
+    }
+    if (options?.requestsPerMinute) {
+      this.buckets.push(new TokenBucket(options.requestsPerMinute, 60_000));
+    }
+  }
+
+  /**
+   * Wait for a request slot.
+   *
+   * @param signal - Optional signal that removes the request from the queue.
+   * @returns A function that releases the slot. Call it exactly once.
+   * @throws {DOMException} An `AbortError` if the signal fires while queued.
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    this.expireWindow();
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Aborted while queued', 'AbortError'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, signal };
+
+      if (signal) {
+        waiter.onAbort = () => {
+          const index = this.queue.indexOf(waiter);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+            reject(new DOMException('Aborted while queued', 'AbortError'));
+          }
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Learn the server's budget from the `X-RateLimit-*` headers of a response.
+   *
+   * @param headers - Response headers.
+   */
+  observe(headers: Headers): void {
+    const limit = parseInt(headers.get('X-RateLimit-Limit') ?? '', 10);
+    const remaining = parseInt(headers.get('X-RateLimit-Remaining') ?? '', 10);
+    const reset = parseFloat(headers.get('X-RateLimit-Reset') ?? '');
+
+    if (!isNaN(limit)) this.limit = limit;
+    if (!isNaN(remaining)) this.remaining = remaining;
+    if (!isNaN(reset)) {
+      // Large values are epoch seconds; small ones are seconds from now
+      this.resetAt = new Date(reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000);
+    }
+
+    if (this.remaining === 0 && this.resetAt) {
+      this.pauseUntil(this.resetAt.getTime());
+    }
+  }
+
+  /**
+   * Hold back all queued requests, e.g. after a 429 with `Retry-After`.
+   *
+   * @param ms - Milliseconds to pause from now.
+   */
+  pause(ms: number): void {
+    this.pauseUntil(Date.now() + ms);
+  }
+
+  /**
+   * Snapshot of the current budget.
+   *
+   * @returns Server-reported limits alongside local queue and token state.
+   */
+  status(): RateLimitStatus {
+    this.expireWindow();
+    return {
+      limit: this.limit,
+      remaining: this.remaining,
+      resetAt: this.resetAt,
+      available: this.buckets.length
+        ? Math.floor(Math.min(...this.buckets.map((bucket) => bucket.available())))
+        : null,
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+      pausedUntil: this.blockedUntil > Date.now() ? new Date(this.blockedUntil) : null,
+    };
+  }
+
+  /**
+   * Once the reported reset time has passed, assume the server budget is full
+   * again until the next response says otherwise.
+   */
+  private expireWindow(): void {
+    if (this.resetAt === null || Date.now() < this.resetAt.getTime()) return;
+    this.remaining = this.limit;
+    this.resetAt = null;
+  }
+
+  /**
+   * @param time - Epoch milliseconds before which no request may start.
+   */
+  private pauseUntil(time: number): void {
+    if (!this.respectHeaders) return;
+    this.blockedUntil = Math.max(this.blockedUntil, time);
+  }
+
+  /** Hand out slots to queued requests while the budget allows. */
+  private drain(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    while (this.queue.length > 0) {
+      const wait = this.enabled ? this.waitTime() : 0;
+      if (wait === Infinity) return; // Re-checked when a slot is released
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.drain(), wait);
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort);
+      }
+
+      for (const bucket of this.buckets) bucket.take();
+      this.inFlight++;
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        this.inFlight--;
+        this.drain();
+      });
+    }
+  }
+
+  /**
+   * @returns Milliseconds until the next request may start, or `Infinity`
+   *   if it must wait for an in-flight request to finish.
+   */
+  private waitTime(): number {
+    if (this.inFlight >= this.maxConcurrency) return Infinity;
+
+    const blocked = this.blockedUntil - Date.now();
+    const bucketWait = Math.max(0, ...this.buckets.map((bucket) => bucket.waitTime()));
+    return Math.max(0, blocked, bucketWait);
+  }
+}
@@ -1,5 +1,7 @@
+import type { APIPromise } from '../api-promise.js';
 import type { HttpClient } from '../client.js';
 import type {
+  CallOptions,
   AnalyticsSummary,
   AnalyticsSummaryParams,
   DeviceAnalyticsEntry,
@@ -43,6 +45,7 @@ export class AnalyticsResource {
    * Get an analytics summary with optional date range and domain filter.
    *
    * @param params - Optional date range and filter parameters.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns Aggregated analytics metrics for the selected scope.
    *
    * @example
@@ -54,8 +57,9 @@ export class AnalyticsResource {
    * });
    * ```
    */
-  async summary(params?: AnalyticsSummaryParams): Promise<AnalyticsSummary> {
+  summary(params?: AnalyticsSummaryParams, options?: CallOptions): APIPromise<AnalyticsSummary> {
     return this.client.get<AnalyticsSummary>('/analytics/summary', {
+      ...options,
       params: params as Record<string, string | number | undefined>,
     });
   }
@@ -64,6 +68,7 @@ export class AnalyticsResource {
    * Get timeseries click data with configurable date range.
    *
    * @param params - Optional date range and filter parameters.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns An array of timeseries data points with click and visitor counts.
    *
    * @example
@@ -74,8 +79,9 @@ export class AnalyticsResource {
    * }
    * ```
    */
-  async timeseries(params?: TimeseriesParams): Promise<TimeseriesPoint[]> {
+  timeseries(params?: TimeseriesParams, options?: CallOptions): APIPromise<TimeseriesPoint[]> {
     return this.client.get<TimeseriesPoint[]>('/analytics/timeseries', {
+      ...options,
       params: params as Record<string, string | number | undefined>,
     });
   }
@@ -84,6 +90,7 @@ export class AnalyticsResource {
    * Get geographic analytics (clicks by country).
    *
    * @param params - Optional date range and filter parameters.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns An array of entries, each representing click data for one country.
    *
    * @example
@@ -94,8 +101,9 @@ export class AnalyticsResource {
    * }
    * ```
    */
-  async geo(params?: GeoAnalyticsParams): Promise<GeoAnalyticsEntry[]> {
+  geo(params?: GeoAnalyticsParams, options?: CallOptions): APIPromise<GeoAnalyticsEntry[]> {
     return this.client.get<GeoAnalyticsEntry[]>('/analytics/geo', {
+      ...options,
       params: params as Record<string, string | number | undefined>,
     });
   }
@@ -104,6 +112,7 @@ export class AnalyticsResource {
    * Get device/browser analytics (clicks by device type, browser, OS).
    *
    * @param params - Optional date range and filter parameters.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns An array of entries, each representing click data for a device/browser/OS combination.
    *
    * @example
@@ -114,8 +123,12 @@ export class AnalyticsResource {
    * }
    * ```
    */
-  async devices(params?: DeviceAnalyticsParams): Promise<DeviceAnalyticsEntry[]> {
+  devices(
+    params?: DeviceAnalyticsParams,
+    options?: CallOptions,
+  ): APIPromise<DeviceAnalyticsEntry[]> {
     return this.client.get<DeviceAnalyticsEntry[]>('/analytics/devices', {
+      ...options,
       params: params as Record<string, string | number | undefined>,
     });
   }
@@ -124,6 +137,7 @@ export class AnalyticsResource {
    * Get referrer analytics (clicks by traffic source).
    *
    * @param params - Optional date range and filter parameters.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns An array of entries, each representing click data from a referrer source.
    *
    * @example
@@ -134,8 +148,12 @@ export class AnalyticsResource {
    * }
    * ```
    */
-  async referrers(params?: ReferrerAnalyticsParams): Promise<ReferrerAnalyticsEntry[]> {
+  referrers(
+    params?: ReferrerAnalyticsParams,
+    options?: CallOptions,
+  ): APIPromise<ReferrerAnalyticsEntry[]> {
     return this.client.get<ReferrerAnalyticsEntry[]>('/analytics/referrers', {
+      ...options,
       params: params as Record<string, string | number | undefined>,
     });
   }
@@ -144,6 +162,7 @@ export class AnalyticsResource {
    * Get hourly analytics (click distribution by hour of day, 0-23 UTC).
    *
    * @param params - Optional date range and filter parameters.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns An array of 24 entries, one per hour, with click and visitor counts.
    *
    * @example
@@ -153,8 +172,12 @@ export class AnalyticsResource {
    * console.log(`Peak hour: ${peakHour.hour}:00 UTC with ${peakHour.clicks} clicks`);
    * ```
    */
-  async hourly(params?: HourlyAnalyticsParams): Promise<HourlyAnalyticsEntry[]> {
+  hourly(
+    params?: HourlyAnalyticsParams,
+    options?: CallOptions,
+  ): APIPromise<HourlyAnalyticsEntry[]> {
     return this.client.get<HourlyAnalyticsEntry[]>('/analytics/hourly', {
+      ...options,
       params: params as Record<string, string | number | undefined>,
     });
   }
@@ -1,5 +1,7 @@
+import type { APIPromise } from '../api-promise.js';
 import type { HttpClient } from '../client.js';
 import type {
+  CallOptions,
   ConversionSummary,
   ConversionTimeseriesPoint,
   ConversionBreakdownEntry,
@@ -50,6 +52,7 @@ export class ConversionsResource {
    * Use this from server-side code, mobile apps, or any HTTP client.
    *
    * @param params - Conversion event details including link, visitor, and revenue data.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @throws {ValidationError} If required fields are missing.
    * @throws {AuthenticationError} If the API key is invalid.
    *
@@ -65,21 +68,8 @@ export class ConversionsResource {
    * });
    * ```
    */
-  async track(params: TrackConversionParams): Promise<void> {
-    const event: JourneyEvent = {
-      link_id: params.link_id,
-      visitor_id: params.visitor_id,
-      session_id: params.session_id,
-      event_type: 'conversion',
-      event_name: params.name,
-      page_url: params.page_url || '',
-      conversion_name: params.name,
-      revenue_cents: Math.round((params.revenue ?? 0) * 100),
-      currency: params.currency || 'USD',
-      properties: params.properties || {},
-    };
-
-    return this.client.post('/journey/events', { events: [event] });
+  track(params: TrackConversionParams, options?: CallOptions): APIPromise<void> {
+    return this.client.post('/journey/events', { events: [conversionEvent(params)] }, options);
   }
 
   /**
@@ -87,6 +77,7 @@ export class ConversionsResource {
    * Scope by domain_id and/or link_id, or omit both for org-wide data.
    *
    * @param params - Optional scope and period parameters.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns Aggregated conversion metrics including totals, revenue, and conversion rate.
    *
    * @example
@@ -101,8 +92,9 @@ export class ConversionsResource {
    * });
    * ```
    */
-  async summary(params?: ConversionScopeParams): Promise<ConversionSummary> {
+  summary(params?: ConversionScopeParams, options?: CallOptions): APIPromise<ConversionSummary> {
     return this.client.get<ConversionSummary>('/conversions/summary', {
+      ...options,
       params: params as unknown as Record<string, string | number | undefined>,
     });
   }
@@ -112,6 +104,7 @@ export class ConversionsResource {
    * Returns data points at the specified interval.
    *
    * @param params - Optional scope, period, and interval parameters.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns An array of timeseries data points with conversion counts and revenue.
    *
    * @example
@@ -125,8 +118,12 @@ export class ConversionsResource {
    * }
    * ```
    */
-  async timeseries(params?: ConversionTimeseriesParams): Promise<ConversionTimeseriesPoint[]> {
+  timeseries(
+    params?: ConversionTimeseriesParams,
+    options?: CallOptions,
+  ): APIPromise<ConversionTimeseriesPoint[]> {
     return this.client.get<ConversionTimeseriesPoint[]>('/conversions/timeseries', {
+      ...options,
       params: params as unknown as Record<string, string | number | undefined>,
     });
   }
@@ -136,6 +133,7 @@ export class ConversionsResource {
    * Dimensions: source, device, country, link, name.
    *
    * @param params - Breakdown parameters including the required dimension.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns An array of breakdown entries, each with conversions, revenue, and rate.
    *
    * @example
@@ -150,8 +148,12 @@ export class ConversionsResource {
    * }
    * ```
    */
-  async breakdown(params: ConversionBreakdownParams): Promise<ConversionBreakdownEntry[]> {
+  breakdown(
+    params: ConversionBreakdownParams,
+    options?: CallOptions,
+  ): APIPromise<ConversionBreakdownEntry[]> {
     return this.client.get<ConversionBreakdownEntry[]>('/conversions/breakdown', {
+      ...options,
       params: params as unknown as Record<string, string | number | undefined>,
     });
   }
@@ -161,6 +163,7 @@ export class ConversionsResource {
    * Shows how long visitors take from first click to conversion.
    *
    * @param params - Optional scope and period parameters.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns Distribution buckets with average and median conversion times.
    *
    * @example
@@ -172,9 +175,34 @@ export class ConversionsResource {
    * }
    * ```
    */
-  async timeToConvert(params?: ConversionScopeParams): Promise<TimeToConvertData> {
+  timeToConvert(
+    params?: ConversionScopeParams,
+    options?: CallOptions,
+  ): APIPromise<TimeToConvertData> {
     return this.client.get<TimeToConvertData>('/conversions/time-to-convert', {
+      ...options,
       params: params as unknown as Record<string, string | number | undefined>,
     });
   }
 }
+
+/**
+ * Convert conversion parameters to the journey event the API ingests.
+ *
+ * @param params - Conversion details, with revenue in dollars.
+ * @returns A `'conversion'` journey event, with revenue in cents.
+ */
+export function conversionEvent(params: TrackConversionParams): JourneyEvent {
+  return {
+    link_id: params.link_id,
+    visitor_id: params.visitor_id,
+    session_id: params.session_id,
+    event_type: 'conversion',
+    event_name: params.name,
+    page_url: params.page_url || '',
+    conversion_name: params.name,
+    revenue_cents: Math.round((params.revenue ?? 0) * 100),
+    currency: params.currency || 'USD',
+    properties: params.properties || {},
+  };
+}
@@ -1,5 +1,6 @@
+import type { APIPromise } from '../api-promise.js';
 import type { HttpClient } from '../client.js';
-import type { Domain } from '../types.js';
+import type { CallOptions, Domain } from '../types.js';
 
 /**
  * List custom domains through the QCK API.
@@ -27,6 +28,7 @@ export class DomainsResource {
   /**
    * List all custom domains for the organization associated with the API key.
    *
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns An array of custom domain objects.
    * @throws {AuthenticationError} If the API key is invalid.
    *
@@ -37,8 +39,9 @@ export class DomainsResource {
    * console.log(`${verified.length} verified domains`);
    * ```
    */
-  async list(): Promise<Domain[]> {
-    const response = await this.client.get<{ domains: Domain[]; total: number }>('/domains');
-    return response.domains;
+  list(options?: CallOptions): APIPromise<Domain[]> {
+    return this.client
+      .get<{ domains: Domain[]; total: number }>('/domains', options)
+      .transform((response) => response.domains);
   }
 }
@@ -1,5 +1,12 @@
+import { APIPromise } from '../api-promise.js';
 import type { HttpClient } from '../client.js';
+import { JourneyBatcher } from '../journey/batcher.js';
+import { DurableJourneyQueue } from '../journey/queue.js';
+import { invalidEventsError, validateJourneyEvent } from '../journey/validate.js';
+import { Paginator } from '../pagination.js';
 import type {
+  CallOptions,
+  PaginationOptions,
   JourneyEvent,
   IngestEventsParams,
   JourneyLinkSummary,
@@ -10,6 +17,8 @@ import type {
   ListJourneySessionsParams,
   ListJourneyEventsParams,
   PaginatedResponse,
+  JourneyBatcherOptions,
+  DurableJourneyQueueOptions,
 } from '../types.js';
 
 /**
@@ -51,7 +60,10 @@ export class JourneyResource {
    * Events are queued for processing asynchronously.
    *
    * @param params - Object containing the array of events to ingest.
-   * @throws {ValidationError} If any event in the batch is invalid.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
+   * @throws {ValidationError} If any event in the batch is invalid. Events are checked
+   *   with {@link validateJourneyEvent} before sending; `fieldErrors` name each
+   *   invalid field by its position (e.g. `'events.3.scroll_percent'`).
    *
    * @example
    * ```ts
@@ -77,18 +89,78 @@ export class JourneyResource {
    * });
    * ```
    */
-  async ingest(params: IngestEventsParams): Promise<void> {
-    const batchId = crypto.randomUUID();
-    return this.client.post('/journey/events', params, {
-      headers: { 'X-Idempotency-Key': batchId },
-    });
+  ingest(params: IngestEventsParams, options?: CallOptions): APIPromise<void> {
+    const issues = params.events.flatMap((event, index) => validateJourneyEvent(event, index));
+    if (issues.length > 0) {
+      return new APIPromise<void>(Promise.reject(invalidEventsError(issues)));
+    }
+    return this.client.post('/journey/events', params, options);
+  }
+
+  /**
+   * Create a batcher that buffers events and ingests them in batches of up to 100.
+   *
+   * @description Use it instead of calling {@link ingest} per event on busy
+   * servers. See {@link JourneyBatcher} for flushing, retry and overflow behavior.
+   *
+   * @param options - Batch size, flush interval, queue limit, overflow policy and metrics.
+   * @returns A new batcher. Call `close()` on shutdown to send queued events.
+   *
+   * @example
+   * ```ts
+   * const batcher = qck.journey.createBatcher({
+   *   maxQueueSize: 50_000,
+   *   overflow: 'drop_oldest',
+   *   onMetric: (m) => m.type === 'dropped' && metrics.increment('qck.dropped', m.count),
+   * });
+   *
+   * await batcher.add({ link_id, visitor_id, event_type: 'page_view', page_url: '/pricing' });
+   * await batcher.track({ link_id, visitor_id, name: 'purchase', revenue: 49.99 });
+   *
+   * process.on('SIGTERM', () => batcher.close());
+   * ```
+   */
+  createBatcher(options?: JourneyBatcherOptions): JourneyBatcher {
+    return new JourneyBatcher(this, options);
+  }
+
+  /**
+   * Create a persistent queue that holds events until QCK accepts them.
+   *
+   * @description Use it for clients that go offline for long periods, such as
+   * mobile web apps and kiosks. Queued events survive restarts and are replayed
+   * in order with their original `timestamp`. See {@link DurableJourneyQueue}.
+   *
+   * @param options - Storage, size limit, batch size, flush interval and metrics.
+   * @returns A new queue. Events stored by a previous queue over the same storage
+   *   are loaded and sent.
+   *
+   * @example
+   * ```ts
+   * import fs from 'node:fs/promises';
+   * import { FileJourneyStorage } from '@qcksh/sdk';
+   *
+   * const queue = qck.journey.createQueue({
+   *   storage: new FileJourneyStorage('/var/lib/kiosk/qck-events.jsonl', fs),
+   *   maxBytes: 10_000_000,
+   * });
+   *
+   * await queue.enqueue({ link_id, visitor_id, event_type: 'page_view', page_url: '/menu' });
+   * metrics.gauge('qck.queue_depth', queue.stats.depth);
+   * ```
+   */
+  createQueue(options?: DurableJourneyQueueOptions): DurableJourneyQueue {
+    return new DurableJourneyQueue(this, options);
   }
 
   /**
    * Get journey summary for a specific link.
    *
+   * @typeParam M - Custom event schema passed to {@link defineJourneyEvents}, to type
+   *   the names in `top_events`.
    * @param linkId - The unique identifier (UUID) of the link.
    * @param params - Optional period filter.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns Aggregated journey metrics including visitors, sessions, top pages, and top events.
    * @throws {NotFoundError} If the link does not exist.
    *
@@ -97,10 +169,18 @@ export class JourneyResource {
    * const summary = await qck.journey.getSummary('abc123', { period: '30d' });
    * console.log(`${summary.total_visitors} visitors, ${summary.total_sessions} sessions`);
    * console.log(`Avg session: ${summary.avg_session_duration_seconds}s`);
+   *
+   * // With a custom event schema, top event names are typed
+   * const typed = await qck.journey.getSummary<AppEvents>('abc123');
    * ```
    */
-  async getSummary(linkId: string, params?: JourneyQueryParams): Promise<JourneyLinkSummary> {
-    return this.client.get<JourneyLinkSummary>(`/journey/links/${linkId}/summary`, {
+  getSummary<M = Record<string, unknown>>(
+    linkId: string,
+    params?: JourneyQueryParams,
+    options?: CallOptions,
+  ): APIPromise<JourneyLinkSummary<M>> {
+    return this.client.get<JourneyLinkSummary<M>>(`/journey/links/${linkId}/summary`, {
+      ...options,
       params: params as Record<string, string | number | undefined>,
     });
   }
@@ -111,6 +191,7 @@ export class JourneyResource {
    *
    * @param linkId - The unique identifier (UUID) of the link.
    * @param params - Funnel configuration with ordered step names and optional period.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns Funnel analysis showing visitor drop-off at each step.
    * @throws {NotFoundError} If the link does not exist.
    *
@@ -125,8 +206,13 @@ export class JourneyResource {
    * }
    * ```
    */
-  async getFunnel(linkId: string, params: FunnelParams): Promise<FunnelResult> {
+  getFunnel(
+    linkId: string,
+    params: FunnelParams,
+    options?: CallOptions,
+  ): APIPromise<FunnelResult> {
     return this.client.get<FunnelResult>(`/journey/links/${linkId}/funnel`, {
+      ...options,
       params: {
         steps: params.steps.join(','),
         period: params.period,
@@ -139,6 +225,7 @@ export class JourneyResource {
    *
    * @param linkId - The unique identifier (UUID) of the link.
    * @param params - Optional pagination, visitor filter, and period parameters.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns A paginated response containing session summaries.
    * @throws {NotFoundError} If the link does not exist.
    *
@@ -154,23 +241,53 @@ export class JourneyResource {
    * }
    * ```
    */
-  async listSessions(
+  listSessions(
     linkId: string,
     params?: ListJourneySessionsParams,
-  ): Promise<PaginatedResponse<SessionSummary>> {
+    options?: CallOptions,
+  ): APIPromise<PaginatedResponse<SessionSummary>> {
     return this.client.get<PaginatedResponse<SessionSummary>>(
       `/journey/links/${linkId}/sessions`,
       {
+        ...options,
         params: params as Record<string, string | number | undefined>,
       },
     );
   }
 
+  /**
+   * Iterate over all sessions for a specific link, fetching pages as needed.
+   *
+   * @param linkId - The unique identifier (UUID) of the link.
+   * @param params - Optional page size, visitor filter, and period. `page` sets the first page.
+   * @param options - Optional per-call overrides applied to every page, plus `prefetch`.
+   * @returns A lazy {@link Paginator} over every matching session.
+   * @throws {NotFoundError} While iterating, if the link does not exist.
+   *
+   * @example
+   * ```ts
+   * for await (const session of qck.journey.listAllSessions('abc123', { period: '7d' })) {
+   *   console.log(`Session ${session.session_id}: ${session.event_count} events`);
+   * }
+   * ```
+   */
+  listAllSessions(
+    linkId: string,
+    params?: ListJourneySessionsParams,
+    options?: PaginationOptions,
+  ): Paginator<SessionSummary> {
+    return new Paginator((page) => this.listSessions(linkId, { ...params, page }, options), {
+      startPage: params?.page,
+      prefetch: options?.prefetch,
+    });
+  }
+
   /**
    * List raw events for a specific link.
    *
    * @param linkId - The unique identifier (UUID) of the link.
    * @param params - Optional pagination, event type filter, and period parameters.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns A paginated response containing raw journey events.
    * @throws {NotFoundError} If the link does not exist.
    *
@@ -186,15 +303,44 @@ export class JourneyResource {
    * }
    * ```
    */
-  async listEvents(
+  listEvents(
     linkId: string,
     params?: ListJourneyEventsParams,
-  ): Promise<PaginatedResponse<JourneyEvent>> {
+    options?: CallOptions,
+  ): APIPromise<PaginatedResponse<JourneyEvent>> {
     return this.client.get<PaginatedResponse<JourneyEvent>>(
       `/journey/links/${linkId}/events`,
       {
+        ...options,
         params: params as Record<string, string | number | undefined>,
       },
     );
   }
+
+  /**
+   * Iterate over all raw events for a specific link, fetching pages as needed.
+   *
+   * @param linkId - The unique identifier (UUID) of the link.
+   * @param params - Optional page size, event type filter, and period. `page` sets the first page.
+   * @param options - Optional per-call overrides applied to every page, plus `prefetch`.
+   * @returns A lazy {@link Paginator} over every matching event.
+   * @throws {NotFoundError} While iterating, if the link does not exist.
+   *
+   * @example
+   * ```ts
+   * const events = await qck.journey
+   *   .listAllEvents('abc123', { event_type: 'page_view', limit: 100 }, { prefetch: true })
+   *   .toArray({ max: 1_000 });
+   * ```
+   */
+  listAllEvents(
+    linkId: string,
+    params?: ListJourneyEventsParams,
+    options?: PaginationOptions,
+  ): Paginator<JourneyEvent> {
+    return new Paginator((page) => this.listEvents(linkId, { ...params, page }, options), {
+      startPage: params?.page,
+      prefetch: options?.prefetch,
+    });
+  }
 }
@@ -1,5 +1,9 @@
+import type { APIPromise } from '../api-promise.js';
 import type { HttpClient } from '../client.js';
+import { Paginator } from '../pagination.js';
 import type {
+  CallOptions,
+  PaginationOptions,
   Link,
   CreateLinkParams,
   UpdateLinkParams,
@@ -45,6 +49,7 @@ export class LinksResource {
    * Create a new short link.
    *
    * @param params - Link creation parameters including the destination URL.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns The newly created link object.
    * @throws {ValidationError} If the URL is invalid or required fields are missing.
    * @throws {AuthenticationError} If the API key is invalid.
@@ -60,14 +65,15 @@ export class LinksResource {
    * console.log(link.short_url); // 'https://qck.sh/promo'
    * ```
    */
-  async create(params: CreateLinkParams): Promise<Link> {
-    return this.client.post<Link>('/links', params);
+  create(params: CreateLinkParams, options?: CallOptions): APIPromise<Link> {
+    return this.client.post<Link>('/links', params, options);
   }
 
   /**
    * List links with optional filtering, pagination, and sorting.
    *
    * @param params - Optional filtering and pagination parameters.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns A paginated response containing an array of links and metadata.
    *
    * @example
@@ -81,16 +87,39 @@ export class LinksResource {
    * console.log(`${result.total} links found`);
    * ```
    */
-  async list(params?: ListLinksParams): Promise<PaginatedResponse<Link>> {
+  list(params?: ListLinksParams, options?: CallOptions): APIPromise<PaginatedResponse<Link>> {
     return this.client.get<PaginatedResponse<Link>>('/links', {
+      ...options,
       params: params as Record<string, string | number | boolean | string[] | undefined>,
     });
   }
 
+  /**
+   * Iterate over all links matching the filters, fetching pages as needed.
+   *
+   * @param params - Optional filters, sorting, and page size. `page` sets the first page.
+   * @param options - Optional per-call overrides applied to every page, plus `prefetch`.
+   * @returns A lazy {@link Paginator} over every matching link.
+   *
+   * @example
+   * ```ts
+   * for await (const link of qck.links.listAll({ per_page: 100, is_active: true })) {
+   *   console.log(link.short_url);
+   * }
+   * ```
+   */
+  listAll(params?: ListLinksParams, options?: PaginationOptions): Paginator<Link> {
+    return new Paginator((page) => this.list({ ...params, page }, options), {
+      startPage: params?.page,
+      prefetch: options?.prefetch,
+    });
+  }
+
   /**
    * Get a single link by ID.
    *
    * @param id - The unique identifier (UUID) of the link.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns The link object.
    * @throws {NotFoundError} If the link does not exist.
    *
@@ -99,8 +128,8 @@ export class LinksResource {
    * const link = await qck.links.get('550e8400-e29b-41d4-a716-446655440000');
    * ```
    */
-  async get(id: string): Promise<Link> {
-    return this.client.get<Link>(`/links/${id}`);
+  get(id: string, options?: CallOptions): APIPromise<Link> {
+    return this.client.get<Link>(`/links/${id}`, options);
   }
 
   /**
@@ -108,6 +137,7 @@ export class LinksResource {
    *
    * @param id - The unique identifier (UUID) of the link to update.
    * @param params - Fields to update. Only provided fields are modified.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns The updated link object.
    * @throws {NotFoundError} If the link does not exist.
    * @throws {ValidationError} If the update payload is invalid.
@@ -120,14 +150,15 @@ export class LinksResource {
    * });
    * ```
    */
-  async update(id: string, params: UpdateLinkParams): Promise<Link> {
-    return this.client.patch<Link>(`/links/${id}`, params);
+  update(id: string, params: UpdateLinkParams, options?: CallOptions): APIPromise<Link> {
+    return this.client.patch<Link>(`/links/${id}`, params, options);
   }
 
   /**
    * Delete a link.
    *
    * @param id - The unique identifier (UUID) of the link to delete.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @throws {NotFoundError} If the link does not exist.
    *
    * @example
@@ -135,14 +166,15 @@ export class LinksResource {
    * await qck.links.delete('550e8400-...');
    * ```
    */
-  async delete(id: string): Promise<void> {
-    return this.client.delete(`/links/${id}`);
+  delete(id: string, options?: CallOptions): APIPromise<void> {
+    return this.client.delete(`/links/${id}`, options);
   }
 
   /**
    * Bulk create multiple links at once.
    *
    * @param params - Object containing an array of link creation payloads.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns An array of the newly created link objects.
    * @throws {ValidationError} If any link payload is invalid.
    *
@@ -156,14 +188,15 @@ export class LinksResource {
    * });
    * ```
    */
-  async bulkCreate(params: BulkCreateParams): Promise<Link[]> {
-    return this.client.post<Link[]>('/links/bulk', params.links);
+  bulkCreate(params: BulkCreateParams, options?: CallOptions): APIPromise<Link[]> {
+    return this.client.post<Link[]>('/links/bulk', params.links, options);
   }
 
   /**
    * Get click statistics for a specific link.
    *
    * @param id - The unique identifier (UUID) of the link.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns Click statistics broken down by country, device, and referrer.
    * @throws {NotFoundError} If the link does not exist.
    *
@@ -174,8 +207,8 @@ export class LinksResource {
    * console.log(`Unique clicks: ${stats.unique_clicks}`);
    * ```
    */
-  async getStats(id: string): Promise<LinkStats> {
-    return this.client.get<LinkStats>(`/links/${id}/stats`);
+  getStats(id: string, options?: CallOptions): APIPromise<LinkStats> {
+    return this.client.get<LinkStats>(`/links/${id}/stats`, options);
   }
 
   /**
@@ -184,6 +217,7 @@ export class LinksResource {
    *
    * @param id - The unique identifier (UUID) of the link.
    * @param file - The image data to upload. The MIME type is auto-detected from Blobs.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns An object containing the public URL of the uploaded OG image.
    * @throws {NotFoundError} If the link does not exist.
    * @throws {ValidationError} If the file format is unsupported.
@@ -196,10 +230,11 @@ export class LinksResource {
    * console.log(result.og_image); // Public URL
    * ```
    */
-  async uploadOgImage(
+  uploadOgImage(
     id: string,
     file: Blob | ArrayBuffer | Uint8Array,
-  ): Promise<{ og_image: string }> {
+    options?: CallOptions,
+  ): APIPromise<{ og_image: string }> {
     const contentType =
       file instanceof Blob
         ? file.type || 'application/octet-stream'
@@ -209,6 +244,7 @@ export class LinksResource {
       `/links/${id}/og-image`,
       file,
       contentType,
+      options,
     );
   }
 
@@ -216,6 +252,7 @@ export class LinksResource {
    * Delete the OG image for a link.
    *
    * @param id - The unique identifier (UUID) of the link.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @throws {NotFoundError} If the link does not exist.
    *
    * @example
@@ -223,7 +260,7 @@ export class LinksResource {
    * await qck.links.deleteOgImage('550e8400-...');
    * ```
    */
-  async deleteOgImage(id: string): Promise<void> {
-    return this.client.delete(`/links/${id}/og-image`);
+  deleteOgImage(id: string, options?: CallOptions): APIPromise<void> {
+    return this.client.delete(`/links/${id}/og-image`, options);
   }
 }
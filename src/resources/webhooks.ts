@@ -1,13 +1,37 @@
+import type { APIPromise } from '../api-promise.js';
 import type { HttpClient } from '../client.js';
+import { Paginator } from '../pagination.js';
 import type {
+  CallOptions,
+  PaginationOptions,
   WebhookEndpoint,
   CreateWebhookParams,
   UpdateWebhookParams,
   WebhookDelivery,
   ListWebhookDeliveriesParams,
   PaginatedResponse,
+  WebhookHealth,
+  WebhookHealthParams,
+  WebhookHealthReport,
+  WebhookHealthWindow,
+  WebhookDefinition,
+  WebhookSyncAction,
+  WebhookSyncParams,
+  WebhookSyncResult,
 } from '../types.js';
 
+/** Length of each health window in milliseconds. */
+const HEALTH_WINDOW_MS: Record<WebhookHealthWindow, number> = {
+  '1h': 3_600_000,
+  '24h': 86_400_000,
+  '7d': 7 * 86_400_000,
+  '30d': 30 * 86_400_000,
+};
+/** Default consecutive failures at which an endpoint is flagged as at risk. */
+const DEFAULT_AT_RISK_FAILURES = 5;
+/** Page size used when scanning delivery history. */
+const HEALTH_PAGE_SIZE = 100;
+
 /**
  * Manage webhook endpoints through the QCK API.
  *
@@ -40,6 +64,7 @@ export class WebhooksResource {
    * Create a new webhook endpoint.
    *
    * @param params - Webhook creation parameters including URL and subscribed events.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns The newly created webhook endpoint, including the signing secret.
    * @throws {ValidationError} If the URL is invalid or events are empty.
    *
@@ -53,13 +78,14 @@ export class WebhooksResource {
    * // Store webhook.secret for signature verification
    * ```
    */
-  async create(params: CreateWebhookParams): Promise<WebhookEndpoint> {
-    return this.client.post<WebhookEndpoint>('/webhooks', params);
+  create(params: CreateWebhookParams, options?: CallOptions): APIPromise<WebhookEndpoint> {
+    return this.client.post<WebhookEndpoint>('/webhooks', params, options);
   }
 
   /**
    * List all webhook endpoints for the authenticated account.
    *
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns An array of all registered webhook endpoints.
    *
    * @example
@@ -70,14 +96,15 @@ export class WebhooksResource {
    * }
    * ```
    */
-  async list(): Promise<WebhookEndpoint[]> {
-    return this.client.get<WebhookEndpoint[]>('/webhooks');
+  list(options?: CallOptions): APIPromise<WebhookEndpoint[]> {
+    return this.client.get<WebhookEndpoint[]>('/webhooks', options);
   }
 
   /**
    * Get a single webhook endpoint by ID.
    *
    * @param id - The unique identifier (UUID) of the webhook endpoint.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns The webhook endpoint object.
    * @throws {NotFoundError} If the webhook does not exist.
    *
@@ -87,8 +114,8 @@ export class WebhooksResource {
    * console.log(`Events: ${webhook.events.join(', ')}`);
    * ```
    */
-  async get(id: string): Promise<WebhookEndpoint> {
-    return this.client.get<WebhookEndpoint>(`/webhooks/${id}`);
+  get(id: string, options?: CallOptions): APIPromise<WebhookEndpoint> {
+    return this.client.get<WebhookEndpoint>(`/webhooks/${id}`, options);
   }
 
   /**
@@ -96,6 +123,7 @@ export class WebhooksResource {
    *
    * @param id - The unique identifier (UUID) of the webhook endpoint.
    * @param params - Fields to update. Only provided fields are modified.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns The updated webhook endpoint object.
    * @throws {NotFoundError} If the webhook does not exist.
    * @throws {ValidationError} If the update payload is invalid.
@@ -108,14 +136,19 @@ export class WebhooksResource {
    * });
    * ```
    */
-  async update(id: string, params: UpdateWebhookParams): Promise<WebhookEndpoint> {
-    return this.client.patch<WebhookEndpoint>(`/webhooks/${id}`, params);
+  update(
+    id: string,
+    params: UpdateWebhookParams,
+    options?: CallOptions,
+  ): APIPromise<WebhookEndpoint> {
+    return this.client.patch<WebhookEndpoint>(`/webhooks/${id}`, params, options);
   }
 
   /**
    * Delete a webhook endpoint.
    *
    * @param id - The unique identifier (UUID) of the webhook endpoint.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @throws {NotFoundError} If the webhook does not exist.
    *
    * @example
@@ -123,8 +156,8 @@ export class WebhooksResource {
    * await qck.webhooks.delete('wh-uuid');
    * ```
    */
-  async delete(id: string): Promise<void> {
-    return this.client.delete(`/webhooks/${id}`);
+  delete(id: string, options?: CallOptions): APIPromise<void> {
+    return this.client.delete(`/webhooks/${id}`, options);
   }
 
   /**
@@ -132,6 +165,7 @@ export class WebhooksResource {
    *
    * @param id - The unique identifier (UUID) of the webhook endpoint.
    * @param params - Optional pagination parameters.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @returns A paginated response containing delivery attempt records.
    * @throws {NotFoundError} If the webhook does not exist.
    *
@@ -146,24 +180,200 @@ export class WebhooksResource {
    * }
    * ```
    */
-  async listDeliveries(
+  listDeliveries(
     id: string,
     params?: ListWebhookDeliveriesParams,
-  ): Promise<PaginatedResponse<WebhookDelivery>> {
+    options?: CallOptions,
+  ): APIPromise<PaginatedResponse<WebhookDelivery>> {
     return this.client.get<PaginatedResponse<WebhookDelivery>>(
       `/webhooks/${id}/deliveries`,
       {
+        ...options,
         params: params as Record<string, string | number | undefined>,
       },
     );
   }
 
+  /**
+   * Iterate over all delivery attempts for a webhook endpoint, fetching pages as needed.
+   *
+   * @param id - The unique identifier (UUID) of the webhook endpoint.
+   * @param params - Optional page size. `page` sets the first page.
+   * @param options - Optional per-call overrides applied to every page, plus `prefetch`.
+   * @returns A lazy {@link Paginator} over every delivery.
+   * @throws {NotFoundError} While iterating, if the webhook does not exist.
+   *
+   * @example
+   * ```ts
+   * const failed = [];
+   * for await (const d of qck.webhooks.listAllDeliveries('wh-uuid', { limit: 100 })) {
+   *   if (d.status === 'failed') failed.push(d);
+   * }
+   * ```
+   */
+  listAllDeliveries(
+    id: string,
+    params?: ListWebhookDeliveriesParams,
+    options?: PaginationOptions,
+  ): Paginator<WebhookDelivery> {
+    return new Paginator((page) => this.listDeliveries(id, { ...params, page }, options), {
+      startPage: params?.page,
+      prefetch: options?.prefetch,
+    });
+  }
+
+  /**
+   * Reconcile the account's webhook endpoints with a desired configuration.
+   *
+   * @description Endpoints are matched by URL. Missing endpoints are created,
+   * endpoints whose events, description or active state differ are updated, and
+   * endpoints not in `desired` (or duplicates of one URL) are deleted unless
+   * `prune` is `false`. Changes are applied in order (creates, updates, deletes),
+   * so a failure part-way leaves earlier changes in place; running `sync` again
+   * resumes from there. An `idempotencyKey` in `options` is extended per change
+   * (e.g. `deploy-42:create:https://...`), so each request gets its own key and
+   * retrying the same sync doesn't repeat a change.
+   *
+   * @param desired - The endpoints that should exist.
+   * @param params - `dryRun` to only compute the plan, `prune: false` to keep unknown endpoints.
+   * @param options - Optional per-call overrides applied to every request.
+   * @returns The plan, and the endpoints and secrets created when applied.
+   * @throws {Error} If `desired` lists the same URL twice.
+   *
+   * @example
+   * ```ts
+   * const result = await qck.webhooks.sync(
+   *   [
+   *     { url: 'https://api.example.com/hooks', events: [...WebhookEventCategories.links] },
+   *     { url: 'https://billing.example.com/hooks', events: [...WebhookEventCategories.billing] },
+   *   ],
+   *   { dryRun: process.env.CI_DRY_RUN === '1' },
+   * );
+   * for (const action of result.actions) console.log(action.type, action.url);
+   * await secretsManager.put(result.secrets);
+   * ```
+   */
+  async sync(
+    desired: WebhookDefinition[],
+    params: WebhookSyncParams = {},
+    options?: CallOptions,
+  ): Promise<WebhookSyncResult> {
+    const seen = new Set<string>();
+    for (const { url } of desired) {
+      if (seen.has(url)) throw new Error(`Duplicate webhook URL in sync definition: ${url}`);
+      seen.add(url);
+    }
+
+    const existing = await this.list(options);
+    const { actions, unchanged } = planSync(desired, existing, params.prune ?? true);
+    const result: WebhookSyncResult = {
+      dryRun: params.dryRun ?? false,
+      actions,
+      unchanged,
+      created: [],
+      secrets: {},
+    };
+    if (result.dryRun) return result;
+
+    // One caller key would make the API replay the first change for all of them.
+    const optionsFor = (change: string): CallOptions | undefined =>
+      options?.idempotencyKey
+        ? { ...options, idempotencyKey: `${options.idempotencyKey}:${change}` }
+        : options;
+
+    for (const action of actions) {
+      if (action.type === 'create') {
+        let endpoint = await this.create(action.params, optionsFor(`create:${action.url}`));
+        if (endpoint.secret) result.secrets[action.url] = endpoint.secret;
+        if (!action.is_active) {
+          const paused = await this.update(
+            endpoint.id,
+            { is_active: false },
+            optionsFor(`pause:${action.url}`),
+          );
+          endpoint = { ...paused, secret: endpoint.secret };
+        }
+        result.created.push(endpoint);
+      } else if (action.type === 'update') {
+        await this.update(action.id, action.params, optionsFor(`update:${action.id}`));
+      } else {
+        await this.delete(action.id, optionsFor(`delete:${action.id}`));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Compute delivery health for a webhook endpoint over a recent window.
+   *
+   * @description Pages through the endpoint's delivery history, keeping deliveries
+   * created within the window (by `created_at`, whatever order they arrive in),
+   * until a full page is older than the window. Then summarizes them: success
+   * rate, p50/p95 time to delivery, failures by HTTP status, and how many
+   * attempts were retries.
+   *
+   * @param id - The unique identifier (UUID) of the webhook endpoint.
+   * @param params - The window to cover and the at-risk threshold.
+   * @param options - Optional per-call overrides applied to every request.
+   * @returns Delivery metrics for the endpoint.
+   * @throws {NotFoundError} If the webhook does not exist.
+   *
+   * @example
+   * ```ts
+   * const health = await qck.webhooks.health('wh-uuid', { window: '7d' });
+   * console.log(`success rate ${health.successRate}, p95 ${health.timeToDeliveryMs.p95}ms`);
+   * console.log(health.failuresByStatus); // { '500': 12, network_error: 3 }
+   * ```
+   */
+  async health(
+    id: string,
+    params?: WebhookHealthParams,
+    options?: CallOptions,
+  ): Promise<WebhookHealth> {
+    return this.endpointHealth(await this.get(id, options), params, options);
+  }
+
+  /**
+   * Compute delivery health for every webhook endpoint on the account.
+   *
+   * @param params - The window to cover and the at-risk threshold.
+   * @param options - Optional per-call overrides applied to every request.
+   * @returns Health of each endpoint, with at-risk and disabled endpoints listed separately.
+   *
+   * @example
+   * ```ts
+   * const report = await qck.webhooks.healthReport({ atRiskFailures: 3 });
+   * for (const endpoint of report.atRisk) {
+   *   pager.alert(`${endpoint.url} has failed ${endpoint.consecutiveFailures} times in a row`);
+   * }
+   * ```
+   */
+  async healthReport(
+    params?: WebhookHealthParams,
+    options?: CallOptions,
+  ): Promise<WebhookHealthReport> {
+    const generatedAt = new Date();
+    const endpoints: WebhookHealth[] = [];
+    for (const endpoint of await this.list(options)) {
+      endpoints.push(await this.endpointHealth(endpoint, params, options, generatedAt));
+    }
+
+    return {
+      generatedAt,
+      window: params?.window ?? '24h',
+      endpoints,
+      atRisk: endpoints.filter((e) => e.atRisk),
+      disabled: endpoints.filter((e) => !e.isActive),
+    };
+  }
+
   /**
    * Send a test delivery to a webhook endpoint.
    * Useful for verifying that your endpoint is reachable and correctly
    * configured to handle webhook payloads.
    *
    * @param id - The unique identifier (UUID) of the webhook endpoint.
+   * @param options - Optional per-call overrides (signal, timeout, retries, headers).
    * @throws {NotFoundError} If the webhook does not exist.
    *
    * @example
@@ -172,7 +382,164 @@ export class WebhooksResource {
    * console.log('Test delivery sent!');
    * ```
    */
-  async test(id: string): Promise<void> {
-    return this.client.post(`/webhooks/${id}/test`);
+  test(id: string, options?: CallOptions): APIPromise<void> {
+    return this.client.post(`/webhooks/${id}/test`, undefined, options);
+  }
+
+  /** Summarize the deliveries of an endpoint within the window ending at `now`. */
+  private async endpointHealth(
+    endpoint: WebhookEndpoint,
+    params: WebhookHealthParams = {},
+    options?: CallOptions,
+    now = new Date(),
+  ): Promise<WebhookHealth> {
+    const window = params.window ?? '24h';
+    const since = new Date(now.getTime() - HEALTH_WINDOW_MS[window]);
+
+    // History comes roughly newest first, but retries can interleave, so filter by
+    // `created_at` and stop only after a full page of deliveries older than the window.
+    const deliveries: WebhookDelivery[] = [];
+    let olderInARow = 0;
+    const history = this.listAllDeliveries(endpoint.id, { limit: HEALTH_PAGE_SIZE }, options);
+    for await (const delivery of history) {
+      if (Date.parse(delivery.created_at) >= since.getTime()) {
+        deliveries.push(delivery);
+        olderInARow = 0;
+      } else if (++olderInARow >= HEALTH_PAGE_SIZE) {
+        break;
+      }
+    }
+    deliveries.sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at));
+
+    const atRiskFailures = params.atRiskFailures ?? DEFAULT_AT_RISK_FAILURES;
+    return {
+      webhookId: endpoint.id,
+      url: endpoint.url,
+      isActive: endpoint.is_active,
+      consecutiveFailures: endpoint.consecutive_failures,
+      lastFailureAt: endpoint.last_failure_at ?? null,
+      atRisk: endpoint.is_active && endpoint.consecutive_failures >= atRiskFailures,
+      window,
+      since,
+      ...summarizeDeliveries(deliveries),
+    };
+  }
+}
+
+/** Diff desired definitions against existing endpoints, matching by URL. */
+function planSync(
+  desired: WebhookDefinition[],
+  existing: WebhookEndpoint[],
+  prune: boolean,
+): { actions: WebhookSyncAction[]; unchanged: WebhookEndpoint[] } {
+  const creates: WebhookSyncAction[] = [];
+  const updates: WebhookSyncAction[] = [];
+  const deletes: WebhookSyncAction[] = [];
+  const unchanged: WebhookEndpoint[] = [];
+  const matched = new Set<WebhookEndpoint>();
+
+  for (const definition of desired) {
+    const endpoint = existing.find((e) => e.url === definition.url && !matched.has(e));
+    const isActive = definition.is_active ?? true;
+
+    if (!endpoint) {
+      creates.push({
+        type: 'create',
+        url: definition.url,
+        params: {
+          url: definition.url,
+          events: definition.events,
+          ...(definition.description === undefined ? {} : { description: definition.description }),
+        },
+        is_active: isActive,
+      });
+      continue;
+    }
+
+    matched.add(endpoint);
+    const params: UpdateWebhookParams = {};
+    if (!sameEvents(endpoint.events, definition.events)) params.events = definition.events;
+    if (definition.description !== undefined && definition.description !== endpoint.description) {
+      params.description = definition.description;
+    }
+    if (endpoint.is_active !== isActive) params.is_active = isActive;
+
+    if (Object.keys(params).length > 0) {
+      updates.push({ type: 'update', id: endpoint.id, url: endpoint.url, params });
+    } else {
+      unchanged.push(endpoint);
+    }
+  }
+
+  if (prune) {
+    for (const endpoint of existing) {
+      if (!matched.has(endpoint)) {
+        deletes.push({ type: 'delete', id: endpoint.id, url: endpoint.url });
+      }
+    }
   }
+
+  return { actions: [...creates, ...updates, ...deletes], unchanged };
+}
+
+/** @returns Whether two event lists contain the same events, ignoring order and repeats. */
+function sameEvents(a: string[], b: string[]): boolean {
+  const left = new Set(a);
+  const right = new Set(b);
+  return left.size === right.size && [...left].every((event) => right.has(event));
+}
+
+/** Compute delivery counts, latency percentiles, and failure/retry breakdowns. */
+function summarizeDeliveries(
+  deliveries: WebhookDelivery[],
+): Pick<
+  WebhookHealth,
+  | 'deliveries'
+  | 'succeeded'
+  | 'failed'
+  | 'pending'
+  | 'successRate'
+  | 'timeToDeliveryMs'
+  | 'failuresByStatus'
+  | 'attempts'
+> {
+  let succeeded = 0;
+  let failed = 0;
+  const latencies: number[] = [];
+  const failuresByStatus: Record<string, number> = {};
+  const attempts: Record<number, number> = {};
+
+  for (const delivery of deliveries) {
+    attempts[delivery.attempt_number] = (attempts[delivery.attempt_number] ?? 0) + 1;
+
+    if (delivery.status === 'success') {
+      succeeded += 1;
+      if (delivery.delivered_at) {
+        latencies.push(Date.parse(delivery.delivered_at) - Date.parse(delivery.created_at));
+      }
+    } else if (delivery.status === 'failed') {
+      failed += 1;
+      // No HTTP status means the endpoint never responded (DNS, TLS, timeout, refused).
+      const key = delivery.http_status == null ? 'network_error' : String(delivery.http_status);
+      failuresByStatus[key] = (failuresByStatus[key] ?? 0) + 1;
+    }
+  }
+
+  latencies.sort((a, b) => a - b);
+  return {
+    deliveries: deliveries.length,
+    succeeded,
+    failed,
+    pending: deliveries.length - succeeded - failed,
+    successRate: succeeded + failed === 0 ? null : succeeded / (succeeded + failed),
+    timeToDeliveryMs: { p50: percentile(latencies, 50), p95: percentile(latencies, 95) },
+    failuresByStatus,
+    attempts,
+  };
+}
+
+/** @returns The nearest-rank percentile of sorted values, or `null` if empty. */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
 }
@@ -0,0 +1,119 @@
+import type { RetryContext, RetryJitter, RetryPolicy } from './types.js';
+
+/** HTTP statuses retried by default: rate limits and transient gateway/availability errors. */
+export const DEFAULT_RETRYABLE_STATUSES: readonly number[] = [429, 502, 503, 504];
+/** SDK error codes retried by default: timeouts and network failures. */
+export const DEFAULT_RETRYABLE_ERROR_CODES: readonly string[] = ['TIMEOUT', 'NETWORK_ERROR'];
+
+/** Default base delay for exponential backoff in milliseconds. */
+const DEFAULT_BASE_DELAY_MS = 1_000;
+/** Default maximum backoff delay in milliseconds. */
+const DEFAULT_MAX_DELAY_MS = 10_000;
+/** Maximum delay honoured from a `Retry-After` header in milliseconds (2 minutes). */
+const MAX_RETRY_AFTER_MS = 120_000;
+
+/**
+ * Applies a {@link RetryPolicy}: decides whether a failed attempt is retried
+ * and how long to wait before the next one.
+ */
+export class RetryStrategy {
+  private readonly statuses: ReadonlySet<number>;
+  private readonly errorCodes: ReadonlySet<string>;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly jitter: RetryJitter;
+
+  /**
+   * @param policy - Retry settings. Omitted fields use the defaults.
+   */
+  constructor(private readonly policy: RetryPolicy = {}) {
+    this.statuses = new Set(policy.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES);
+    this.errorCodes = new Set(policy.retryableErrorCodes ?? DEFAULT_RETRYABLE_ERROR_CODES);
+    this.baseDelayMs = policy.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.jitter = policy.jitter ?? 'full';
+  }
+
+  /**
+   * Decide whether a failed attempt should be retried. Caller aborts are never retried.
+   *
+   * @param context - The failed attempt.
+   * @returns `true` if the request should be attempted again.
+   */
+  shouldRetry(context: RetryContext): boolean {
+    if (context.error.code === 'ABORTED') return false;
+    if (this.policy.shouldRetry) return this.policy.shouldRetry(context);
+    return this.isRetryable(context.error);
+  }
+
+  /**
+   * Whether an error is retryable under the configured statuses and error codes,
+   * ignoring any custom `shouldRetry` predicate.
+   *
+   * @param error - The error to classify.
+   * @returns `true` if the status or error code is retryable.
+   */
+  isRetryable(error: { status: number; code: string }): boolean {
+    return this.statuses.has(error.status) || this.errorCodes.has(error.code);
+  }
+
+  /**
+   * Compute the delay before the next attempt. A `Retry-After` value from the
+   * server always wins over backoff (capped at 2 minutes).
+   *
+   * @param attempt - Zero-based number of the attempt that failed.
+   * @param retryAfter - Seconds from the `Retry-After` header, or `null` if absent.
+   * @param previousDelay - Delay used before the failed attempt (for decorrelated jitter).
+   * @returns Delay in milliseconds.
+   */
+  delay(attempt: number, retryAfter: number | null, previousDelay: number): number {
+    if (retryAfter !== null) {
+      return Math.min(retryAfter * 1000, MAX_RETRY_AFTER_MS);
+    }
+
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+
+    switch (this.jitter) {
+      case 'none':
+        return exponential;
+      case 'full':
+        return Math.random() * exponential;
+      case 'decorrelated': {
+        const upper = Math.max(this.baseDelayMs, previousDelay * 3);
+        const delay = this.baseDelayMs + Math.random() * (upper - this.baseDelayMs);
+        return Math.min(this.maxDelayMs, delay);
+      }
+    }
+  }
+
+  /**
+   * Invoke the policy's `onRetry` callback, if any.
+   *
+   * @param context - The failed attempt.
+   * @param delayMs - Delay before the next attempt.
+   */
+  async notify(context: RetryContext, delayMs: number): Promise<void> {
+    await this.policy.onRetry?.({ ...context, delayMs });
+  }
+}
+
+/**
+ * Parse the `Retry-After` HTTP header value into seconds.
+ * Supports both the delay-seconds and the HTTP-date forms.
+ *
+ * @param header - Raw header value, or `null` if not present.
+ * @returns Number of seconds to wait (never negative), or `null` if the header
+ *   is missing or unparsable.
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10);
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) return null;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
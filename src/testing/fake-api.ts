@@ -0,0 +1,1222 @@
+import type {
+  AnalyticsSummary,
+  ConversionBreakdownEntry,
+  ConversionSummary,
+  ConversionTimeseriesPoint,
+  CreateLinkParams,
+  CreateWebhookParams,
+  DeviceAnalyticsEntry,
+  Domain,
+  FetchLike,
+  FieldError,
+  FunnelResult,
+  GeoAnalyticsEntry,
+  HourlyAnalyticsEntry,
+  IngestEventsParams,
+  JourneyEvent,
+  ConversionJourneyEvent,
+  JourneyLinkSummary,
+  Link,
+  LinkStats,
+  PaginatedResponse,
+  ReferrerAnalyticsEntry,
+  SessionSummary,
+  TimeseriesPoint,
+  UpdateLinkParams,
+  UpdateWebhookParams,
+  WebhookDelivery,
+  WebhookEndpoint,
+} from '../types.js';
+import type {
+  FakeClick,
+  FakeClickOptions,
+  FakeFault,
+  FakeFaultMatcher,
+  FakeQCKApiOptions,
+  FakeRequest,
+} from './types.js';
+
+/** Default page size of paginated endpoints. */
+const DEFAULT_PAGE_SIZE = 20;
+/** Maximum number of journey events per ingest request. */
+const MAX_INGEST_BATCH = 100;
+/** Milliseconds in a day. */
+const DAY_MS = 86_400_000;
+/** Top-level API path segments, used to strip the base URL from request paths. */
+const API_ROOT = /^.*?(?=\/(?:links|domains|webhooks|journey|analytics|conversions)(?:\/|$))/;
+
+/** A response produced by a route handler, before it is wrapped in an envelope. */
+interface FakeResponse {
+  status: number;
+  data?: unknown;
+  error?: { code: string; message: string; details?: FieldError[] };
+  headers?: Record<string, string>;
+}
+
+/** A registered fault with its remaining number of uses. */
+interface PendingFault extends FakeFaultMatcher {
+  fault: FakeFault;
+  remaining: number;
+}
+
+/** A route: method, path pattern, and handler receiving the path captures. */
+type Route = [
+  method: string,
+  pattern: RegExp,
+  handler: (req: FakeRequest, ...params: string[]) => FakeResponse,
+];
+
+/** Thrown by route handlers to respond with an API error. */
+class ApiFailure extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: FieldError[],
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Stateful in-memory fake of the QCK API for testing code built on the SDK.
+ *
+ * @description Pass {@link FakeQCKApi.fetch} to the `QCK` constructor and every
+ * SDK call is served from memory, with no network access. The fake implements
+ * links (CRUD, bulk create, alias conflicts, filters, sorting, and pagination),
+ * domains, webhooks (with delivery records for link events), journey ingest and
+ * queries, and simple click and conversion analytics. Mutating requests are
+ * replayed by `X-Idempotency-Key`, like the real API.
+ *
+ * Use {@link FakeQCKApi.failNext} to inject 429s, 5xx responses, timeouts, and
+ * network errors, and {@link FakeQCKApi.requests} to assert on what was sent.
+ *
+ * @example
+ * ```ts
+ * import { QCK, ConflictError } from '@qcksh/sdk';
+ * import { FakeQCKApi } from '@qcksh/sdk/testing';
+ *
+ * const api = new FakeQCKApi();
+ * const qck = new QCK({
+ *   apiKey: 'qck_test',
+ *   fetch: api.fetch,
+ *   retryPolicy: { baseDelayMs: 0 },
+ * });
+ *
+ * api.failNext({ type: 'http', status: 503 }, { method: 'POST', path: '/links' });
+ * const link = await qck.links.create({ url: 'https://example.com', custom_alias: 'promo' });
+ *
+ * expect(api.requests.filter((r) => r.path === '/links')).toHaveLength(2);
+ * await expect(qck.links.create({ url: 'https://example.com', custom_alias: 'promo' }))
+ *   .rejects.toThrow(ConflictError);
+ * ```
+ */
+export class FakeQCKApi {
+  /** Every request received, oldest first (including those that hit an injected fault). */
+  readonly requests: FakeRequest[] = [];
+
+  private readonly options: FakeQCKApiOptions;
+  private readonly now: () => Date;
+  private readonly linkStore = new Map<string, Link>();
+  private readonly domainStore = new Map<string, Domain>();
+  private readonly webhookStore = new Map<string, WebhookEndpoint>();
+  private readonly deliveryStore = new Map<string, WebhookDelivery[]>();
+  private readonly eventStore: JourneyEvent[] = [];
+  private readonly clickStore: FakeClick[] = [];
+  private readonly idempotentResponses = new Map<string, FakeResponse>();
+  private faults: PendingFault[] = [];
+  private sequence = 0;
+
+  private readonly routes: Route[] = [
+    ['POST', /^\/links$/, (req) => this.createLink(req.body as CreateLinkParams)],
+    ['POST', /^\/links\/bulk$/, (req) => this.bulkCreateLinks(req.body as CreateLinkParams[])],
+    ['GET', /^\/links$/, (req) => this.listLinks(req.query)],
+    ['GET', /^\/links\/([^/]+)$/, (_req, id) => ok(this.findLink(id))],
+    ['PATCH', /^\/links\/([^/]+)$/, (req, id) => this.updateLink(id, req.body as UpdateLinkParams)],
+    ['DELETE', /^\/links\/([^/]+)$/, (_req, id) => this.deleteLink(id)],
+    ['GET', /^\/links\/([^/]+)\/stats$/, (_req, id) => this.linkStats(id)],
+    ['PUT', /^\/links\/([^/]+)\/og-image$/, (_req, id) => this.setOgImage(id, true)],
+    ['DELETE', /^\/links\/([^/]+)\/og-image$/, (_req, id) => this.setOgImage(id, false)],
+    ['GET', /^\/domains$/, () => ok({ domains: this.domains, total: this.domainStore.size })],
+    ['POST', /^\/webhooks$/, (req) => this.createWebhook(req.body as CreateWebhookParams)],
+    ['GET', /^\/webhooks$/, () => ok(this.webhooks)],
+    ['GET', /^\/webhooks\/([^/]+)$/, (_req, id) => ok(this.findWebhook(id))],
+    [
+      'PATCH',
+      /^\/webhooks\/([^/]+)$/,
+      (req, id) => this.updateWebhook(id, req.body as UpdateWebhookParams),
+    ],
+    ['DELETE', /^\/webhooks\/([^/]+)$/, (_req, id) => this.deleteWebhook(id)],
+    [
+      'GET',
+      /^\/webhooks\/([^/]+)\/deliveries$/,
+      (req, id) => ok(paginate(this.deliveriesFor(id), req.query, 'limit')),
+    ],
+    ['POST', /^\/webhooks\/([^/]+)\/test$/, (_req, id) => this.testWebhook(id)],
+    ['POST', /^\/journey\/events$/, (req) => this.ingest(req.body as IngestEventsParams)],
+    [
+      'GET',
+      /^\/journey\/links\/([^/]+)\/summary$/,
+      (req, id) => this.journeySummary(id, req.query),
+    ],
+    ['GET', /^\/journey\/links\/([^/]+)\/funnel$/, (req, id) => this.funnel(id, req.query)],
+    ['GET', /^\/journey\/links\/([^/]+)\/sessions$/, (req, id) => this.sessions(id, req.query)],
+    [
+      'GET',
+      /^\/journey\/links\/([^/]+)\/events$/,
+      (req, id) => this.journeyEvents(id, req.query),
+    ],
+    ['GET', /^\/analytics\/summary$/, (req) => this.analyticsSummary(req.query)],
+    ['GET', /^\/analytics\/timeseries$/, (req) => this.timeseries(req.query)],
+    ['GET', /^\/analytics\/geo$/, (req) => this.geo(req.query)],
+    ['GET', /^\/analytics\/devices$/, (req) => this.devices(req.query)],
+    ['GET', /^\/analytics\/referrers$/, (req) => this.referrers(req.query)],
+    ['GET', /^\/analytics\/hourly$/, (req) => this.hourly(req.query)],
+    ['GET', /^\/conversions\/summary$/, (req) => this.conversionSummary(req.query)],
+    ['GET', /^\/conversions\/timeseries$/, (req) => this.conversionTimeseries(req.query)],
+    ['GET', /^\/conversions\/breakdown$/, (req) => this.conversionBreakdown(req.query)],
+    [
+      'GET',
+      /^\/conversions\/time-to-convert$/,
+      () => ok({ buckets: [], average_seconds: 0, median_seconds: 0 }),
+    ],
+  ];
+
+  /**
+   * @param options - Accepted API key, clock, short domain, and initial data.
+   */
+  constructor(options: FakeQCKApiOptions = {}) {
+    this.options = options;
+    this.now = options.now ?? (() => new Date());
+    this.reset();
+  }
+
+  /**
+   * `fetch` implementation serving requests from memory. Pass it as the `fetch`
+   * option of the `QCK` constructor.
+   */
+  readonly fetch: FetchLike = (url, init) => this.handle(url, init);
+
+  /** All links, in creation order. */
+  get links(): Link[] {
+    return Array.from(this.linkStore.values());
+  }
+
+  /** All custom domains. */
+  get domains(): Domain[] {
+    return Array.from(this.domainStore.values());
+  }
+
+  /** All webhook endpoints (without signing secrets). */
+  get webhooks(): WebhookEndpoint[] {
+    return Array.from(this.webhookStore.values());
+  }
+
+  /** All ingested journey events, oldest first. */
+  get events(): JourneyEvent[] {
+    return [...this.eventStore];
+  }
+
+  /** All recorded clicks, oldest first. */
+  get clicks(): FakeClick[] {
+    return [...this.clickStore];
+  }
+
+  /**
+   * Fail the next matching request(s) with the given fault instead of serving them.
+   * Faults are checked in the order they were added.
+   *
+   * @param fault - The failure to inject.
+   * @param matcher - Which requests to fail, and how many times (default once).
+   * @returns This fake, for chaining.
+   *
+   * @example
+   * ```ts
+   * api
+   *   .failNext({ type: 'http', status: 429, retryAfter: 1 })
+   *   .failNext({ type: 'timeout' }, { method: 'GET', path: /^\/links/ })
+   *   .failNext({ type: 'http', status: 503 }, { times: 2 });
+   * ```
+   */
+  failNext(fault: FakeFault, matcher: FakeFaultMatcher = {}): this {
+    this.faults.push({ ...matcher, fault, remaining: matcher.times ?? 1 });
+    return this;
+  }
+
+  /**
+   * Add a custom domain.
+   *
+   * @param domain - Hostname and optional fields.
+   * @returns The stored domain.
+   */
+  addDomain(domain: Partial<Domain> & { domain: string }): Domain {
+    const stored: Domain = {
+      id: this.nextId(),
+      is_verified: true,
+      is_default: this.domainStore.size === 0,
+      created_at: this.timestamp(),
+      ...domain,
+    };
+    this.domainStore.set(stored.id, stored);
+    return stored;
+  }
+
+  /**
+   * Record a click on a link, updating its counters and feeding the analytics endpoints.
+   *
+   * @param linkIdOrCode - Link UUID or short code.
+   * @param options - Visitor, location, device, and time of the click.
+   * @returns The recorded click.
+   * @throws {Error} If the link does not exist.
+   */
+  click(linkIdOrCode: string, options: FakeClickOptions = {}): FakeClick {
+    const link =
+      this.linkStore.get(linkIdOrCode) ?? this.links.find((l) => l.link_id === linkIdOrCode);
+    if (!link) {
+      throw new Error(`FakeQCKApi: no link with id or code '${linkIdOrCode}'`);
+    }
+
+    const { at, ...fields } = options;
+    const click: FakeClick = {
+      link_id: link.id,
+      visitor_id: `visitor_${this.clickStore.length + 1}`,
+      country_code: 'US',
+      referrer: 'direct',
+      device_type: 'desktop',
+      browser: 'Chrome',
+      os: 'macOS',
+      is_bot: false,
+      ...fields,
+      timestamp: (at ?? this.now()).toISOString(),
+    };
+
+    const isNewVisitor = !this.clickStore.some(
+      (c) => c.link_id === link.id && c.visitor_id === click.visitor_id,
+    );
+    this.clickStore.push(click);
+
+    link.total_clicks++;
+    if (click.is_bot) link.bot_clicks++;
+    if (isNewVisitor) link.unique_visitors++;
+    link.last_accessed_at = click.timestamp;
+    return click;
+  }
+
+  /** Clear all data, recorded requests, idempotency keys, and faults, then re-apply the seed. */
+  reset(): void {
+    this.requests.length = 0;
+    this.linkStore.clear();
+    this.domainStore.clear();
+    this.webhookStore.clear();
+    this.deliveryStore.clear();
+    this.eventStore.length = 0;
+    this.clickStore.length = 0;
+    this.idempotentResponses.clear();
+    this.faults = [];
+
+    const { seed } = this.options;
+    for (const link of seed?.links ?? []) this.linkStore.set(link.id, structuredClone(link));
+    for (const domain of seed?.domains ?? []) {
+      this.domainStore.set(domain.id, structuredClone(domain));
+    }
+    for (const webhook of seed?.webhooks ?? []) {
+      this.webhookStore.set(webhook.id, structuredClone(webhook));
+      this.deliveryStore.set(webhook.id, []);
+    }
+    this.eventStore.push(...structuredClone(seed?.events ?? []));
+  }
+
+  // ── Request handling ──
+
+  /**
+   * Serve one request: record it, apply any matching fault, then route it.
+   */
+  private async handle(url: string, init: RequestInit): Promise<Response> {
+    const parsedUrl = new URL(url);
+    const request: FakeRequest = {
+      method: (init.method ?? 'GET').toUpperCase(),
+      path: parsedUrl.pathname.replace(API_ROOT, ''),
+      query: parsedUrl.searchParams,
+      headers: new Headers(init.headers),
+      body: typeof init.body === 'string' ? JSON.parse(init.body) : (init.body ?? undefined),
+    };
+    this.requests.push(request);
+
+    const fault = this.takeFault(request);
+    if (fault?.type === 'timeout') {
+      return hang(init.signal);
+    }
+    if (fault?.type === 'network') {
+      throw new TypeError(fault.message ?? 'fetch failed');
+    }
+    if (fault?.type === 'http') {
+      return this.toResponse({
+        status: fault.status,
+        error: { code: fault.code ?? 'FAKE_ERROR', message: fault.message ?? 'Injected failure' },
+        headers: {
+          ...(fault.retryAfter !== undefined && { 'Retry-After': String(fault.retryAfter) }),
+          ...fault.headers,
+        },
+      });
+    }
+
+    return this.toResponse(this.dispatch(request));
+  }
+
+  /**
+   * Authenticate, replay by idempotency key, and run the matching route handler.
+   */
+  private dispatch(request: FakeRequest): FakeResponse {
+    const authFailure = this.authenticate(request);
+    if (authFailure) return failure(authFailure);
+
+    const idempotencyKey = request.headers.get('X-Idempotency-Key');
+    const replayKey = idempotencyKey && `${request.method} ${request.path} ${idempotencyKey}`;
+    const replayed = replayKey ? this.idempotentResponses.get(replayKey) : undefined;
+    if (replayed) return replayed;
+
+    let response: FakeResponse | undefined;
+    for (const [method, pattern, handler] of this.routes) {
+      const match = method === request.method ? pattern.exec(request.path) : null;
+      if (!match) continue;
+      try {
+        response = handler(request, ...match.slice(1).map(decodeURIComponent));
+      } catch (err: unknown) {
+        if (!(err instanceof ApiFailure)) throw err;
+        response = failure(err);
+      }
+      break;
+    }
+
+    response ??= failure(
+      new ApiFailure(404, 'NOT_FOUND', `No route for ${request.method} ${request.path}`),
+    );
+    if (replayKey) this.idempotentResponses.set(replayKey, response);
+    return response;
+  }
+
+  /**
+   * Check the secret API key, or the publishable key, which may only ingest
+   * journey events.
+   *
+   * @returns The failure to respond with, or `undefined` if the request may proceed.
+   */
+  private authenticate(request: FakeRequest): ApiFailure | undefined {
+    const publishableKey = request.headers.get('X-Publishable-Key');
+    if (publishableKey !== null && request.headers.get('X-API-Key') === null) {
+      const expected = this.options.publishableKey;
+      if (
+        !publishableKey.startsWith('qck_pk_') ||
+        (expected !== undefined && publishableKey !== expected)
+      ) {
+        return new ApiFailure(401, 'UNAUTHORIZED', 'Invalid publishable key');
+      }
+      if (request.method !== 'POST' || request.path !== '/journey/events') {
+        return new ApiFailure(
+          403,
+          'PERMISSION_DENIED',
+          'Publishable keys can only ingest journey events',
+        );
+      }
+      return undefined;
+    }
+
+    const apiKey = request.headers.get('X-API-Key');
+    if (!apiKey || (this.options.apiKey !== undefined && apiKey !== this.options.apiKey)) {
+      return new ApiFailure(401, 'UNAUTHORIZED', 'Invalid API key');
+    }
+    return undefined;
+  }
+
+  /**
+   * @returns The first pending fault matching the request, consuming one use of it.
+   */
+  private takeFault(request: FakeRequest): FakeFault | undefined {
+    const index = this.faults.findIndex(
+      ({ method, path }) =>
+        (method === undefined || method.toUpperCase() === request.method) &&
+        (path === undefined ||
+          (typeof path === 'string' ? path === request.path : path.test(request.path))),
+    );
+    if (index === -1) return undefined;
+
+    const pending = this.faults[index];
+    if (--pending.remaining <= 0) this.faults.splice(index, 1);
+    return pending.fault;
+  }
+
+  /**
+   * Wrap a handler response in the `ApiResponse` envelope.
+   */
+  private toResponse({ status, data, error, headers }: FakeResponse): Response {
+    const responseHeaders = new Headers(headers);
+    responseHeaders.set('X-Request-ID', `req_fake_${++this.sequence}`);
+
+    if (status === 204) {
+      return new Response(null, { status, headers: responseHeaders });
+    }
+
+    responseHeaders.set('Content-Type', 'application/json');
+    const envelope = error
+      ? { success: false, data: null, error }
+      : { success: true, data: data ?? null };
+    return new Response(JSON.stringify(envelope), { status, headers: responseHeaders });
+  }
+
+  // ── Links ──
+
+  private createLink(params: CreateLinkParams): FakeResponse {
+    this.validateLinks([params], '');
+    return ok(this.insertLink(params), 201);
+  }
+
+  private bulkCreateLinks(params: CreateLinkParams[]): FakeResponse {
+    if (!Array.isArray(params) || params.length === 0) {
+      throw new ApiFailure(400, 'VALIDATION_ERROR', 'Provide at least one link');
+    }
+    this.validateLinks(params, 'links.');
+    return ok(params.map((p) => this.insertLink(p)), 201);
+  }
+
+  /**
+   * Validate link payloads up front so a bulk create is all-or-nothing.
+   *
+   * @throws {ApiFailure} 400 with field errors, or 409 if an alias is taken.
+   */
+  private validateLinks(batch: CreateLinkParams[], fieldPrefix: string): void {
+    const details: FieldError[] = [];
+    const aliases = new Set<string>();
+
+    batch.forEach((params, i) => {
+      const prefix = fieldPrefix ? `${fieldPrefix}${i}.` : '';
+      if (!isHttpUrl(params?.url)) {
+        details.push({
+          field: `${prefix}url`,
+          message: 'Must be a valid HTTP or HTTPS URL',
+          code: 'invalid_url',
+        });
+      }
+      if (params?.domain_id !== undefined && !this.domainStore.has(params.domain_id)) {
+        details.push({ field: `${prefix}domain_id`, message: 'Unknown domain', code: 'not_found' });
+      }
+      const alias = params?.custom_alias;
+      if (alias !== undefined) {
+        if (aliases.has(alias) || this.links.some((l) => l.link_id === alias)) {
+          throw new ApiFailure(409, 'ALIAS_TAKEN', `Alias '${alias}' is already taken`);
+        }
+        aliases.add(alias);
+      }
+    });
+
+    if (details.length > 0) {
+      throw new ApiFailure(400, 'VALIDATION_ERROR', 'Invalid request', details);
+    }
+  }
+
+  private insertLink(params: CreateLinkParams): Link {
+    const now = this.timestamp();
+    const domain = params.domain_id ? this.domainStore.get(params.domain_id) : undefined;
+    const host = domain?.domain ?? this.options.shortDomain ?? 'qck.sh';
+    const code = params.custom_alias ?? this.generateCode();
+
+    const link: Link = {
+      id: this.nextId(),
+      link_id: code,
+      original_url: withUtm(params),
+      short_url: `https://${host}/${code}`,
+      title: params.title,
+      description: params.description,
+      expires_at: params.expires_at,
+      created_at: now,
+      updated_at: now,
+      is_active: true,
+      tags: params.tags ?? [],
+      is_password_protected: params.is_password_protected ?? false,
+      metadata: {
+        title: params.title,
+        description: params.description,
+        og_image: params.og_image,
+        domain: host,
+        is_safe: true,
+        tags: params.tags ?? [],
+      },
+      total_clicks: 0,
+      unique_visitors: 0,
+      bot_clicks: 0,
+      domain_id: domain?.id,
+      domain_name: domain?.domain,
+    };
+
+    this.linkStore.set(link.id, link);
+    this.emit('link.created');
+    return link;
+  }
+
+  private listLinks(query: URLSearchParams): FakeResponse {
+    const search = query.get('search')?.toLowerCase();
+    const tags = query.getAll('tags');
+    const isActive = query.get('is_active');
+    const hasPassword = query.get('has_password');
+    const domain = query.get('domain');
+    const domainId = query.get('domain_id');
+    const createdAfter = parseTime(query.get('created_after'));
+    const createdBefore = parseTime(query.get('created_before'));
+    const lastActiveAfter = parseTime(query.get('last_active_after'));
+    const sortBy = (query.get('sort_by') ?? 'created_at') as keyof Link;
+    const direction = query.get('sort_order') === 'asc' ? 1 : -1;
+
+    const links = this.links
+      .map((link, index) => ({ link, index }))
+      .filter(({ link }) => {
+        if (search) {
+          const haystack = [link.original_url, link.title ?? '', link.link_id].join(' ');
+          if (!haystack.toLowerCase().includes(search)) return false;
+        }
+        if (tags.length > 0 && !tags.some((tag) => link.tags.includes(tag))) return false;
+        if (isActive !== null && String(link.is_active) !== isActive) return false;
+        if (hasPassword !== null && String(link.is_password_protected) !== hasPassword) {
+          return false;
+        }
+        if (domain !== null && (link.domain_name ?? link.metadata.domain) !== domain) return false;
+        if (domainId !== null && link.domain_id !== domainId) return false;
+        const created = Date.parse(link.created_at);
+        if (createdAfter !== null && created <= createdAfter) return false;
+        if (createdBefore !== null && created >= createdBefore) return false;
+        if (lastActiveAfter !== null) {
+          const lastActive = parseTime(link.last_accessed_at ?? null);
+          if (lastActive === null || lastActive <= lastActiveAfter) return false;
+        }
+        return true;
+      })
+      .sort((a, b) => {
+        const order = compare(a.link[sortBy], b.link[sortBy]) || a.index - b.index;
+        return order * direction;
+      })
+      .map(({ link }) => link);
+
+    return ok(paginate(links, query, 'per_page'));
+  }
+
+  private findLink(id: string): Link {
+    const link = this.linkStore.get(id);
+    if (!link) throw new ApiFailure(404, 'NOT_FOUND', 'Link not found');
+    return link;
+  }
+
+  private updateLink(id: string, params: UpdateLinkParams): FakeResponse {
+    const link = this.findLink(id);
+    const alias = params.custom_alias;
+    if (alias !== undefined && alias !== link.link_id) {
+      if (this.links.some((l) => l.link_id === alias)) {
+        throw new ApiFailure(409, 'ALIAS_TAKEN', `Alias '${alias}' is already taken`);
+      }
+      link.link_id = alias;
+      link.short_url = `https://${link.metadata.domain}/${alias}`;
+    }
+
+    if (params.title !== undefined) link.title = link.metadata.title = params.title;
+    if (params.description !== undefined) {
+      link.description = link.metadata.description = params.description;
+    }
+    if (params.og_image !== undefined) link.metadata.og_image = params.og_image;
+    if (params.expires_at !== undefined) link.expires_at = params.expires_at ?? undefined;
+    if (params.is_active !== undefined) link.is_active = params.is_active;
+    if (params.tags !== undefined) link.tags = link.metadata.tags = params.tags;
+    if (params.is_password_protected !== undefined) {
+      link.is_password_protected = params.is_password_protected;
+    }
+    link.updated_at = this.timestamp();
+
+    this.emit('link.updated');
+    return ok(link);
+  }
+
+  private deleteLink(id: string): FakeResponse {
+    this.findLink(id);
+    this.linkStore.delete(id);
+    this.emit('link.deleted');
+    return { status: 204 };
+  }
+
+  private linkStats(id: string): FakeResponse {
+    const link = this.findLink(id);
+    const daysActive = Math.max(
+      1,
+      Math.ceil((this.now().getTime() - Date.parse(link.created_at)) / DAY_MS),
+    );
+    const stats: LinkStats = {
+      short_code: link.link_id,
+      original_url: link.original_url,
+      total_clicks: link.total_clicks,
+      unique_visitors: link.unique_visitors,
+      bot_clicks: link.bot_clicks,
+      human_clicks: link.total_clicks - link.bot_clicks,
+      created_at: link.created_at,
+      last_accessed_at: link.last_accessed_at ?? null,
+      is_active: link.is_active,
+      days_active: daysActive,
+      average_clicks_per_day: link.total_clicks / daysActive,
+      conversion_rate: link.total_clicks ? link.unique_visitors / link.total_clicks : 0,
+    };
+    return ok(stats);
+  }
+
+  private setOgImage(id: string, uploaded: boolean): FakeResponse {
+    const link = this.findLink(id);
+    if (!uploaded) {
+      link.metadata.og_image = undefined;
+      return { status: 204 };
+    }
+    link.metadata.og_image = `https://cdn.qck.sh/og/${link.id}.png`;
+    return ok({ og_image: link.metadata.og_image });
+  }
+
+  // ── Webhooks ──
+
+  private createWebhook(params: CreateWebhookParams): FakeResponse {
+    const details: FieldError[] = [];
+    if (!isHttpUrl(params?.url) || !params.url.startsWith('https:')) {
+      details.push({ field: 'url', message: 'Must be an HTTPS URL', code: 'invalid_url' });
+    }
+    if (!Array.isArray(params?.events) || params.events.length === 0) {
+      details.push({ field: 'events', message: 'Required', code: 'required' });
+    }
+    if (details.length > 0) {
+      throw new ApiFailure(400, 'VALIDATION_ERROR', 'Invalid request', details);
+    }
+
+    const now = this.timestamp();
+    const webhook: WebhookEndpoint = {
+      id: this.nextId(),
+      url: params.url,
+      events: params.events,
+      is_active: true,
+      description: params.description,
+      consecutive_failures: 0,
+      created_at: now,
+      updated_at: now,
+    };
+    const secret = `whsec_fake_${webhook.id.slice(-12)}`;
+
+    this.webhookStore.set(webhook.id, webhook);
+    this.deliveryStore.set(webhook.id, []);
+    return ok({ ...webhook, secret }, 201);
+  }
+
+  private findWebhook(id: string): WebhookEndpoint {
+    const webhook = this.webhookStore.get(id);
+    if (!webhook) throw new ApiFailure(404, 'NOT_FOUND', 'Webhook not found');
+    return webhook;
+  }
+
+  private updateWebhook(id: string, params: UpdateWebhookParams): FakeResponse {
+    const webhook = this.findWebhook(id);
+    if (params.url !== undefined) webhook.url = params.url;
+    if (params.events !== undefined) webhook.events = params.events;
+    if (params.description !== undefined) webhook.description = params.description;
+    if (params.is_active !== undefined) webhook.is_active = params.is_active;
+    webhook.updated_at = this.timestamp();
+    return ok(webhook);
+  }
+
+  private deleteWebhook(id: string): FakeResponse {
+    this.findWebhook(id);
+    this.webhookStore.delete(id);
+    this.deliveryStore.delete(id);
+    return { status: 204 };
+  }
+
+  private deliveriesFor(id: string): WebhookDelivery[] {
+    this.findWebhook(id);
+    return [...(this.deliveryStore.get(id) ?? [])].reverse();
+  }
+
+  private testWebhook(id: string): FakeResponse {
+    this.findWebhook(id);
+    this.recordDelivery(id, 'webhook.test');
+    return { status: 204 };
+  }
+
+  /** Record a successful delivery to every active webhook subscribed to the event. */
+  private emit(event: string): void {
+    for (const webhook of this.webhookStore.values()) {
+      if (webhook.is_active && webhook.events.includes(event)) {
+        this.recordDelivery(webhook.id, event);
+      }
+    }
+  }
+
+  private recordDelivery(webhookId: string, eventType: string): void {
+    const now = this.timestamp();
+    this.deliveryStore.get(webhookId)?.push({
+      id: this.nextId(),
+      event_type: eventType,
+      status: 'success',
+      http_status: 200,
+      attempt_number: 1,
+      created_at: now,
+      delivered_at: now,
+    });
+  }
+
+  // ── Journey ──
+
+  private ingest(params: IngestEventsParams): FakeResponse {
+    const events = params?.events;
+    if (!Array.isArray(events) || events.length === 0 || events.length > MAX_INGEST_BATCH) {
+      throw new ApiFailure(
+        400,
+        'VALIDATION_ERROR',
+        `Send between 1 and ${MAX_INGEST_BATCH} events per request`,
+        [{ field: 'events', message: 'Invalid batch size', code: 'invalid_length' }],
+      );
+    }
+
+    const details: FieldError[] = [];
+    events.forEach((event, i) => {
+      for (const field of ['link_id', 'visitor_id', 'event_type'] as const) {
+        if (!event[field]) {
+          details.push({ field: `events.${i}.${field}`, message: 'Required', code: 'required' });
+        }
+      }
+      if (typeof event.page_url !== 'string') {
+        details.push({ field: `events.${i}.page_url`, message: 'Required', code: 'required' });
+      }
+    });
+    if (details.length > 0) {
+      throw new ApiFailure(400, 'VALIDATION_ERROR', 'Invalid events', details);
+    }
+
+    const now = this.timestamp();
+    this.eventStore.push(
+      ...events.map((event) => ({ ...event, timestamp: event.timestamp ?? now })),
+    );
+    return { status: 204 };
+  }
+
+  /**
+   * @returns Events for a link within the `period` query parameter (default 30 days).
+   */
+  private linkEvents(linkId: string, query: URLSearchParams): JourneyEvent[] {
+    const since = this.now().getTime() - periodDays(query.get('period')) * DAY_MS;
+    return this.eventStore.filter(
+      (event) => event.link_id === linkId && Date.parse(event.timestamp ?? '') >= since,
+    );
+  }
+
+  private journeyEvents(linkId: string, query: URLSearchParams): FakeResponse {
+    const eventType = query.get('event_type');
+    const events = this.linkEvents(linkId, query)
+      .filter((event) => eventType === null || event.event_type === eventType)
+      .reverse();
+    return ok(paginate(events, query, 'limit'));
+  }
+
+  /**
+   * Group a link's events by `session_id`. Events without a session are skipped.
+   */
+  private buildSessions(linkId: string, query: URLSearchParams): SessionSummary[] {
+    const sessions = new Map<string, JourneyEvent[]>();
+    for (const event of this.linkEvents(linkId, query)) {
+      if (!event.session_id) continue;
+      const events = sessions.get(event.session_id) ?? [];
+      events.push(event);
+      sessions.set(event.session_id, events);
+    }
+
+    return Array.from(sessions, ([sessionId, events]) => {
+      const ordered = [...events].sort((a, b) => compare(a.timestamp, b.timestamp));
+      return {
+        visitor_id: ordered[0].visitor_id,
+        session_id: sessionId,
+        session_start: ordered[0].timestamp!,
+        session_end: ordered[ordered.length - 1].timestamp!,
+        event_count: ordered.length,
+        pages_visited: ordered.filter((e) => e.event_type === 'page_view').map((e) => e.page_url),
+        events: ordered.map((e) => ({
+          event_type: e.event_type,
+          event_name: e.event_name ?? '',
+          page_url: e.page_url,
+          timestamp: e.timestamp!,
+          scroll_percent: e.event_type === 'scroll_depth' ? e.scroll_percent : 0,
+          time_on_page: e.event_type === 'time_on_page' ? e.time_on_page : 0,
+        })),
+      };
+    });
+  }
+
+  private sessions(linkId: string, query: URLSearchParams): FakeResponse {
+    const visitorId = query.get('visitor_id');
+    const sessions = this.buildSessions(linkId, query)
+      .filter((session) => visitorId === null || session.visitor_id === visitorId)
+      .reverse();
+    return ok(paginate(sessions, query, 'limit'));
+  }
+
+  private journeySummary(linkId: string, query: URLSearchParams): FakeResponse {
+    const events = this.linkEvents(linkId, query);
+    const sessions = this.buildSessions(linkId, query);
+    const totalDuration = sessions.reduce(
+      (sum, s) => sum + (Date.parse(s.session_end) - Date.parse(s.session_start)) / 1000,
+      0,
+    );
+
+    const summary: JourneyLinkSummary = {
+      total_visitors: new Set(events.map((e) => e.visitor_id)).size,
+      total_sessions: sessions.length,
+      total_events: events.length,
+      avg_session_duration_seconds: sessions.length ? totalDuration / sessions.length : 0,
+      top_pages: countBy(events.filter((e) => e.event_type === 'page_view'), (e) => e.page_url)
+        .map(([url, count]) => ({ url, count })),
+      top_events: countBy(events, (e) => e.event_name ?? e.event_type)
+        .map(([name, count]) => ({ name, count })),
+    };
+    return ok(summary);
+  }
+
+  private funnel(linkId: string, query: URLSearchParams): FakeResponse {
+    const steps = (query.get('steps') ?? '').split(',').filter(Boolean);
+    const events = this.linkEvents(linkId, query);
+
+    let remaining: Set<string> | undefined;
+    const result: FunnelResult = { steps: [], total_visitors: 0 };
+    for (const step of steps) {
+      const reached = new Set(
+        events
+          .filter((e) => e.event_name === step || e.event_type === step)
+          .map((e) => e.visitor_id)
+          .filter((visitor) => remaining === undefined || remaining.has(visitor)),
+      );
+      remaining = reached;
+      if (result.steps.length === 0) result.total_visitors = reached.size;
+      result.steps.push({
+        step_name: step,
+        visitors: reached.size,
+        conversion_rate: result.total_visitors ? (reached.size / result.total_visitors) * 100 : 0,
+      });
+    }
+    return ok(result);
+  }
+
+  // ── Analytics ──
+
+  /**
+   * @returns Clicks matching the date range, bot filter, and domain query parameters.
+   */
+  private filteredClicks(query: URLSearchParams): FakeClick[] {
+    const now = this.now().getTime();
+    const days = query.get('days');
+    const start = parseTime(query.get('start_date')) ?? (days ? now - Number(days) * DAY_MS : 0);
+    const end = parseTime(query.get('end_date')) ?? Infinity;
+    const botFilter = query.get('bot_filter') ?? 'real';
+    const domainName = query.get('domain_name');
+
+    return this.clickStore.filter((click) => {
+      const time = Date.parse(click.timestamp);
+      if (time < start || time > end) return false;
+      if (botFilter === 'real' && click.is_bot) return false;
+      if (botFilter === 'bot' && !click.is_bot) return false;
+      if (domainName !== null) {
+        const link = this.linkStore.get(click.link_id);
+        if ((link?.domain_name ?? link?.metadata.domain) !== domainName) return false;
+      }
+      return true;
+    });
+  }
+
+  private analyticsSummary(query: URLSearchParams): FakeResponse {
+    const clicks = this.filteredClicks(query);
+    const today = startOfDay(this.now());
+    const onDay = (day: number) =>
+      clicks.filter((c) => startOfDay(new Date(c.timestamp)) === day).length;
+
+    const summary: AnalyticsSummary = {
+      total_clicks: clicks.length,
+      unique_visitors: new Set(clicks.map((c) => c.visitor_id)).size,
+      total_links: new Set(clicks.map((c) => c.link_id)).size,
+      last_click_at: clicks.length ? clicks[clicks.length - 1].timestamp : null,
+      today_clicks: onDay(today),
+      yesterday_clicks: onDay(today - DAY_MS),
+      active_links: this.links.filter((l) => l.is_active).length,
+      total_links_count: this.linkStore.size,
+    };
+    return ok(summary);
+  }
+
+  private timeseries(query: URLSearchParams): FakeResponse {
+    const points: TimeseriesPoint[] = groupBy(this.filteredClicks(query), (c) =>
+      new Date(startOfDay(new Date(c.timestamp))).toISOString(),
+    ).map(([timestamp, clicks]) => ({
+      timestamp,
+      clicks: clicks.length,
+      unique_visitors: new Set(clicks.map((c) => c.visitor_id)).size,
+    }));
+    return ok(points.sort((a, b) => compare(a.timestamp, b.timestamp)));
+  }
+
+  private geo(query: URLSearchParams): FakeResponse {
+    const entries: GeoAnalyticsEntry[] = groupBy(
+      this.filteredClicks(query),
+      (c) => c.country_code,
+    ).map(([code, clicks]) => ({
+      country: code,
+      country_code: code,
+      clicks: clicks.length,
+      unique_visitors: new Set(clicks.map((c) => c.visitor_id)).size,
+    }));
+    return ok(entries.sort((a, b) => b.clicks - a.clicks));
+  }
+
+  private devices(query: URLSearchParams): FakeResponse {
+    const entries: DeviceAnalyticsEntry[] = groupBy(
+      this.filteredClicks(query),
+      (c) => `${c.device_type}|${c.browser}|${c.os}`,
+    ).map(([key, clicks]) => {
+      const [device_type, browser, os] = key.split('|');
+      return { device_type, browser, os, clicks: clicks.length };
+    });
+    return ok(entries.sort((a, b) => b.clicks - a.clicks));
+  }
+
+  private referrers(query: URLSearchParams): FakeResponse {
+    const entries: ReferrerAnalyticsEntry[] = groupBy(
+      this.filteredClicks(query),
+      (c) => c.referrer,
+    ).map(([referrer, clicks]) => ({
+      referrer,
+      clicks: clicks.length,
+      unique_visitors: new Set(clicks.map((c) => c.visitor_id)).size,
+    }));
+    return ok(entries.sort((a, b) => b.clicks - a.clicks));
+  }
+
+  private hourly(query: URLSearchParams): FakeResponse {
+    const clicks = this.filteredClicks(query);
+    const entries: HourlyAnalyticsEntry[] = Array.from({ length: 24 }, (_, hour) => {
+      const inHour = clicks.filter((c) => new Date(c.timestamp).getUTCHours() === hour);
+      return {
+        hour,
+        clicks: inHour.length,
+        unique_visitors: new Set(inHour.map((c) => c.visitor_id)).size,
+      };
+    });
+    return ok(entries);
+  }
+
+  // ── Conversions ──
+
+  /**
+   * @returns Conversion events matching the period, link, and domain scope parameters.
+   */
+  private conversions(query: URLSearchParams): ConversionJourneyEvent[] {
+    const since = this.now().getTime() - periodDays(query.get('period')) * DAY_MS;
+    const linkCode = query.get('link_id');
+    const domainId = query.get('domain_id');
+
+    return this.eventStore.filter((event): event is ConversionJourneyEvent => {
+      if (event.event_type !== 'conversion') return false;
+      if (Date.parse(event.timestamp ?? '') < since) return false;
+      const link = this.linkStore.get(event.link_id);
+      if (linkCode !== null && event.link_id !== linkCode && link?.link_id !== linkCode) {
+        return false;
+      }
+      if (domainId !== null && link?.domain_id !== domainId) return false;
+      return true;
+    });
+  }
+
+  private conversionSummary(query: URLSearchParams): FakeResponse {
+    const conversions = this.conversions(query);
+    const revenue = conversions.reduce((sum, e) => sum + (e.revenue_cents ?? 0), 0) / 100;
+    const converters = new Set(conversions.map((e) => e.visitor_id)).size;
+    const visitors = new Set(this.eventStore.map((e) => e.visitor_id)).size;
+
+    const summary: ConversionSummary = {
+      total_conversions: conversions.length,
+      unique_converters: converters,
+      total_revenue: revenue,
+      average_order_value: conversions.length ? revenue / conversions.length : 0,
+      conversion_rate: visitors ? (converters / visitors) * 100 : 0,
+    };
+    return ok(summary);
+  }
+
+  private conversionTimeseries(query: URLSearchParams): FakeResponse {
+    const points: ConversionTimeseriesPoint[] = groupBy(this.conversions(query), (e) =>
+      new Date(startOfDay(new Date(e.timestamp!))).toISOString(),
+    ).map(([timestamp, events]) => ({
+      timestamp,
+      conversions: events.length,
+      revenue: events.reduce((sum, e) => sum + (e.revenue_cents ?? 0), 0) / 100,
+    }));
+    return ok(points.sort((a, b) => compare(a.timestamp, b.timestamp)));
+  }
+
+  private conversionBreakdown(query: URLSearchParams): FakeResponse {
+    const dimension = query.get('dimension');
+    const label = (e: ConversionJourneyEvent): string => {
+      switch (dimension) {
+        case 'device':
+          return e.device_type ?? 'unknown';
+        case 'country':
+          return e.country_code ?? 'unknown';
+        case 'link':
+          return this.linkStore.get(e.link_id)?.link_id ?? e.link_id;
+        default:
+          return e.conversion_name ?? e.event_name ?? 'unknown';
+      }
+    };
+
+    const conversions = this.conversions(query);
+    const entries: ConversionBreakdownEntry[] = groupBy(conversions, label).map(
+      ([segment, events]) => ({
+        label: segment,
+        conversions: events.length,
+        revenue: events.reduce((sum, e) => sum + (e.revenue_cents ?? 0), 0) / 100,
+        conversion_rate: (events.length / conversions.length) * 100,
+      }),
+    );
+    return ok(entries.sort((a, b) => b.conversions - a.conversions));
+  }
+
+  // ── Helpers ──
+
+  private nextId(): string {
+    return `00000000-0000-4000-8000-${(++this.sequence).toString(16).padStart(12, '0')}`;
+  }
+
+  private generateCode(): string {
+    let code: string;
+    do {
+      code = `f${(++this.sequence).toString(36).padStart(5, '0')}`;
+    } while (this.links.some((l) => l.link_id === code));
+    return code;
+  }
+
+  private timestamp(): string {
+    return this.now().toISOString();
+  }
+}
+
+/**
+ * @returns A successful handler response.
+ */
+function ok(data: unknown, status = 200): FakeResponse {
+  return { status, data };
+}
+
+/**
+ * @returns An error handler response.
+ */
+function failure({ status, code, message, details }: ApiFailure): FakeResponse {
+  return { status, error: { code, message, ...(details && { details }) } };
+}
+
+/**
+ * A response that never arrives: rejects with an `AbortError` once the request is aborted.
+ */
+function hang(signal?: AbortSignal | null): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    const abort = () => reject(new DOMException('The operation was aborted', 'AbortError'));
+    if (signal?.aborted) abort();
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+/**
+ * Slice a list into a page using the endpoint's page-size parameter name.
+ */
+function paginate<T>(
+  items: T[],
+  query: URLSearchParams,
+  sizeParam: 'per_page' | 'limit',
+): PaginatedResponse<T> {
+  const page = Math.max(1, Number(query.get('page') ?? 1));
+  const limit = Math.max(1, Number(query.get(sizeParam) ?? DEFAULT_PAGE_SIZE));
+  const start = (page - 1) * limit;
+  return { data: items.slice(start, start + limit), total: items.length, page, limit };
+}
+
+/**
+ * Append UTM parameters to the destination URL, as the API does.
+ */
+function withUtm(params: CreateLinkParams): string {
+  const utm = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+  if (!utm.some((key) => params[key])) return params.url;
+
+  const url = new URL(params.url);
+  for (const key of utm) {
+    const value = params[key];
+    if (value) url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+/**
+ * @returns Whether the value is an absolute HTTP or HTTPS URL.
+ */
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @returns Epoch milliseconds, or `null` if the value is missing or not a date.
+ */
+function parseTime(value: string | null): number | null {
+  if (value === null) return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * @returns Number of days in a `'7d' | '30d' | '90d'` period (default 30).
+ */
+function periodDays(period: string | null): number {
+  return period === '7d' ? 7 : period === '90d' ? 90 : 30;
+}
+
+/**
+ * @returns Epoch milliseconds of the start of the UTC day.
+ */
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Sort comparator for strings and numbers. Missing values sort first.
+ */
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return -1;
+  if (b === undefined || b === null) return 1;
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+/**
+ * @returns Items grouped by key, in order of first appearance.
+ */
+function groupBy<T>(items: T[], key: (item: T) => string): [string, T[]][] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k) ?? [];
+    group.push(item);
+    groups.set(k, group);
+  }
+  return Array.from(groups);
+}
+
+/**
+ * @returns Counts per key, most frequent first.
+ */
+function countBy<T>(items: T[], key: (item: T) => string): [string, number][] {
+  return groupBy(items, key)
+    .map(([k, group]): [string, number] => [k, group.length])
+    .sort((a, b) => b[1] - a[1]);
+}
@@ -0,0 +1,27 @@
+/**
+ * Test utilities for code built on the QCK SDK.
+ *
+ * @example
+ * ```ts
+ * import { QCK } from '@qcksh/sdk';
+ * import { FakeQCKApi } from '@qcksh/sdk/testing';
+ *
+ * const api = new FakeQCKApi();
+ * const qck = new QCK({ apiKey: 'qck_test', fetch: api.fetch });
+ * ```
+ *
+ * @packageDocumentation
+ */
+export { FakeQCKApi } from './fake-api.js';
+export { WebhookTrigger } from './webhook-trigger.js';
+export type {
+  FakeFault,
+  FakeFaultMatcher,
+  FakeRequest,
+  FakeClick,
+  FakeClickOptions,
+  FakeQCKApiOptions,
+  WebhookTriggerOptions,
+  WebhookTriggerResult,
+  WebhookReplayOptions,
+} from './types.js';
@@ -0,0 +1,152 @@
+import type {
+  Domain,
+  FetchLike,
+  JourneyEvent,
+  Link,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookPayload,
+} from '../types.js';
+
+/**
+ * A failure injected into the fake API with {@link FakeQCKApi.failNext}.
+ *
+ * - `http`: respond with an error envelope and the given status.
+ * - `timeout`: never respond, so the request hits the client timeout (or the caller's signal).
+ * - `network`: reject like `fetch` does when the connection fails.
+ */
+export type FakeFault =
+  | {
+      type: 'http';
+      /** HTTP status to respond with (e.g. `429`, `503`). */
+      status: number;
+      /** Error code in the response envelope. @default 'FAKE_ERROR' */
+      code?: string;
+      /** Error message in the response envelope. @default 'Injected failure' */
+      message?: string;
+      /** Value of the `Retry-After` header (seconds or an HTTP date), if any. */
+      retryAfter?: number | string;
+      /** Additional response headers. */
+      headers?: Record<string, string>;
+    }
+  | { type: 'timeout' }
+  | {
+      type: 'network';
+      /** Message of the thrown `TypeError`. @default 'fetch failed' */
+      message?: string;
+    };
+
+/** Restricts which requests an injected fault applies to. */
+export interface FakeFaultMatcher {
+  /** HTTP method to match (e.g. `'POST'`). Matches any method if omitted. */
+  method?: string;
+  /** Exact path (e.g. `'/links'`) or pattern to match. Matches any path if omitted. */
+  path?: string | RegExp;
+  /** Number of matching requests to fail. @default 1 */
+  times?: number;
+}
+
+/** A request received by the fake API, recorded in {@link FakeQCKApi.requests}. */
+export interface FakeRequest {
+  /** HTTP method. */
+  method: string;
+  /** API path without the base URL or query string (e.g. `'/links/abc'`). */
+  path: string;
+  /** Parsed query string. */
+  query: URLSearchParams;
+  /** Request headers. */
+  headers: Headers;
+  /** Parsed JSON body, the raw body for binary uploads, or `undefined`. */
+  body: unknown;
+}
+
+/** A click recorded with {@link FakeQCKApi.click}, used by the analytics endpoints. */
+export interface FakeClick {
+  /** Link UUID. */
+  link_id: string;
+  /** Visitor identifier. */
+  visitor_id: string;
+  /** ISO 3166-1 alpha-2 country code. */
+  country_code: string;
+  /** Referrer domain, or `'direct'`. */
+  referrer: string;
+  /** Device category. */
+  device_type: string;
+  /** Browser name. */
+  browser: string;
+  /** Operating system. */
+  os: string;
+  /** Whether the click came from a bot. */
+  is_bot: boolean;
+  /** ISO 8601 timestamp of the click. */
+  timestamp: string;
+}
+
+/** Options for {@link FakeQCKApi.click}. All fields have defaults. */
+export type FakeClickOptions = Partial<Omit<FakeClick, 'link_id' | 'timestamp'>> & {
+  /** When the click happened. @default now */
+  at?: Date;
+};
+
+/** Options for creating a {@link FakeQCKApi}. */
+export interface FakeQCKApiOptions {
+  /** API key the fake accepts. If omitted, any non-empty key is accepted. */
+  apiKey?: string;
+  /**
+   * Publishable key the fake accepts, only on `POST /journey/events`. If omitted,
+   * any `qck_pk_` key is accepted there.
+   */
+  publishableKey?: string;
+  /** Domain used for generated short URLs. @default 'qck.sh' */
+  shortDomain?: string;
+  /**
+   * Clock used for timestamps. Pass a fixed clock for deterministic output.
+   * @default () => new Date()
+   */
+  now?: () => Date;
+  /** Initial data. */
+  seed?: {
+    links?: Link[];
+    domains?: Domain[];
+    webhooks?: WebhookEndpoint[];
+    events?: JourneyEvent[];
+  };
+}
+
+/** Options for creating a {@link WebhookTrigger}. */
+export interface WebhookTriggerOptions {
+  /** URL of the webhook consumer to deliver to (e.g. `'http://localhost:3000/webhooks/qck'`). */
+  url: string;
+  /** Signing secret the consumer verifies with. */
+  secret: string;
+  /** `fetch` implementation used to deliver. @default globalThis.fetch */
+  fetch?: FetchLike;
+  /**
+   * Clock used for payload and signature timestamps.
+   * @default () => new Date()
+   */
+  now?: () => Date;
+}
+
+/** Outcome of a delivery sent by {@link WebhookTrigger}. */
+export interface WebhookTriggerResult {
+  /** The payload that was delivered. */
+  payload: WebhookPayload;
+  /** HTTP status returned by the consumer. */
+  status: number;
+  /** Whether the consumer responded with a 2xx status. */
+  ok: boolean;
+  /** Response body returned by the consumer. */
+  body: string;
+}
+
+/** Options for {@link WebhookTrigger.replay}. */
+export interface WebhookReplayOptions {
+  /**
+   * Builds the `data` to deliver for a recorded delivery. Delivery records don't
+   * include the original payload, so sample data for the event type is used by default.
+   */
+  data?: (delivery: WebhookDelivery) => unknown;
+  /** Only replay deliveries for which this returns `true` (e.g. failed ones). */
+  filter?: (delivery: WebhookDelivery) => boolean;
+}
@@ -0,0 +1,247 @@
+import type {
+  Domain,
+  FetchLike,
+  JourneyEvent,
+  Link,
+  WebhookDelivery,
+  WebhookEventDataMap,
+  WebhookEventType,
+  WebhookPayload,
+} from '../types.js';
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from '../webhooks/signature.js';
+import type {
+  WebhookReplayOptions,
+  WebhookTriggerOptions,
+  WebhookTriggerResult,
+} from './types.js';
+
+/**
+ * Delivers signed webhook payloads to a local consumer, exactly as QCK does.
+ *
+ * @description Builds realistic payloads for any {@link WebhookEventType}, signs
+ * them with the production scheme (`X-QCK-Signature`), and POSTs them to your
+ * consumer, so webhook handlers can be exercised end to end in CI without a QCK
+ * account or a publicly reachable URL. {@link WebhookTrigger.replay} re-sends
+ * recorded delivery history from `qck.webhooks.listDeliveries`.
+ *
+ * @example
+ * ```ts
+ * import { WebhookTrigger } from '@qcksh/sdk/testing';
+ *
+ * const trigger = new WebhookTrigger({
+ *   url: 'http://localhost:3000/webhooks/qck',
+ *   secret: 'whsec_test',
+ * });
+ *
+ * const result = await trigger.send('link.created', { original_url: 'https://example.com' });
+ * expect(result.status).toBe(200);
+ * ```
+ */
+export class WebhookTrigger {
+  private readonly options: WebhookTriggerOptions;
+  private readonly fetch: FetchLike;
+  private readonly now: () => Date;
+  private sequence = 0;
+
+  /**
+   * @param options - Consumer URL, signing secret, and optional `fetch` and clock.
+   */
+  constructor(options: WebhookTriggerOptions) {
+    this.options = options;
+    this.fetch = options.fetch ?? ((url, init) => globalThis.fetch(url, init));
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Deliver an event with sample data, optionally overriding fields.
+   *
+   * @param event - The event type to deliver.
+   * @param data - Fields merged over the sample data for the event.
+   * @returns The delivered payload and the consumer's response.
+   *
+   * @example
+   * ```ts
+   * await trigger.send(WebhookEvents.BULK_IMPORT_COMPLETED, { failed: 2 });
+   * ```
+   */
+  async send<E extends WebhookEventType>(
+    event: E,
+    data?: Partial<WebhookEventDataMap[E]>,
+  ): Promise<WebhookTriggerResult> {
+    return this.deliver(this.buildPayload(event, data));
+  }
+
+  /**
+   * Build a payload for an event without sending it.
+   *
+   * @param event - The event type.
+   * @param data - Fields merged over the sample data for the event.
+   * @returns A payload shaped like a production delivery.
+   */
+  buildPayload<E extends WebhookEventType>(
+    event: E,
+    data?: Partial<WebhookEventDataMap[E]>,
+  ): WebhookPayload<WebhookEventDataMap[E]> {
+    const timestamp = this.now().toISOString();
+    const sample = this.sampleData(event, timestamp) as WebhookEventDataMap[E];
+    return { event, timestamp, data: { ...sample, ...data } };
+  }
+
+  /**
+   * Sign and POST a payload to the consumer.
+   *
+   * @param payload - The payload to deliver. Sent as-is, so unknown event types
+   *   and malformed data can be delivered too.
+   * @returns The payload and the consumer's response.
+   */
+  async deliver(payload: WebhookPayload): Promise<WebhookTriggerResult> {
+    const body = JSON.stringify(payload);
+    const signature = await signWebhookPayload(
+      body,
+      this.options.secret,
+      Math.floor(this.now().getTime() / 1000),
+    );
+
+    const response = await this.fetch(this.options.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [WEBHOOK_SIGNATURE_HEADER]: signature,
+      },
+      body,
+    });
+
+    return {
+      payload,
+      status: response.status,
+      ok: response.ok,
+      body: await response.text(),
+    };
+  }
+
+  /**
+   * Re-deliver recorded deliveries one at a time, oldest first by `created_at`.
+   *
+   * @description Deliveries are sorted before sending, so history from
+   * `listDeliveries` (newest first) is replayed in the order it happened.
+   *
+   * @param deliveries - Delivery records, e.g. `page.data` from
+   *   `qck.webhooks.listDeliveries(id)` or `qck.webhooks.listAllDeliveries(id)`.
+   * @param options - Which deliveries to replay and what data to send.
+   * @returns The result of each delivery, oldest first.
+   *
+   * @example
+   * ```ts
+   * const history = await qck.webhooks.listDeliveries(webhookId);
+   * const results = await trigger.replay(history.data, {
+   *   filter: (d) => d.status === 'failed',
+   * });
+   * ```
+   */
+  async replay(
+    deliveries: Iterable<WebhookDelivery> | AsyncIterable<WebhookDelivery>,
+    options: WebhookReplayOptions = {},
+  ): Promise<WebhookTriggerResult[]> {
+    const selected: WebhookDelivery[] = [];
+    for await (const delivery of deliveries) {
+      if (!options.filter || options.filter(delivery)) selected.push(delivery);
+    }
+    selected.sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at));
+
+    const results: WebhookTriggerResult[] = [];
+    for (const delivery of selected) {
+      const data = options.data
+        ? options.data(delivery)
+        : this.sampleData(delivery.event_type, delivery.created_at);
+      results.push(
+        await this.deliver({
+          event: delivery.event_type as WebhookEventType,
+          timestamp: delivery.created_at,
+          data,
+        }),
+      );
+    }
+    return results;
+  }
+
+  /** @returns Realistic sample `data` for an event type (`{}` for unknown types). */
+  private sampleData(event: string, at: string): unknown {
+    const id = this.nextId();
+    switch (event) {
+      case 'link.created':
+      case 'link.updated':
+      case 'link.expired':
+        return sampleLink(id, at);
+      case 'link.deleted':
+        return { id, link_id: 'abc123', deleted_at: at };
+      case 'domain.verified':
+      case 'domain.expired':
+      case 'domain.suspended':
+        return {
+          id,
+          domain: 'go.example.com',
+          is_verified: event === 'domain.verified',
+          is_default: false,
+          created_at: at,
+        } satisfies Domain;
+      case 'api_key.created':
+      case 'api_key.revoked':
+        return {
+          id,
+          name: 'CI key',
+          prefix: 'qck_live_ab12',
+          created_at: at,
+          ...(event === 'api_key.revoked' ? { revoked_at: at } : {}),
+        };
+      case 'team.member_added':
+      case 'team.member_removed':
+        return { user_id: id, email: 'teammate@example.com', role: 'member' };
+      case 'subscription.upgraded':
+        return { previous_plan: 'free', plan: 'pro', changed_at: at };
+      case 'subscription.downgraded':
+        return { previous_plan: 'pro', plan: 'free', changed_at: at };
+      case 'bulk_import.completed':
+        return { job_id: id, total: 10, succeeded: 10, failed: 0, errors: [] };
+      case 'conversion':
+        return {
+          link_id: id,
+          visitor_id: 'visitor-1',
+          session_id: 'session-1',
+          event_type: 'conversion',
+          event_name: 'purchase',
+          conversion_name: 'purchase',
+          revenue_cents: 4999,
+          currency: 'USD',
+          page_url: 'https://example.com/checkout',
+          timestamp: at,
+        } satisfies JourneyEvent;
+      default:
+        return {};
+    }
+  }
+
+  /** @returns A deterministic UUID-shaped ID, unique per trigger. */
+  private nextId(): string {
+    this.sequence += 1;
+    return `00000000-0000-4000-8000-${this.sequence.toString(16).padStart(12, '0')}`;
+  }
+}
+
+/** @returns A sample link as sent with `link.*` events. */
+function sampleLink(id: string, at: string): Link {
+  return {
+    id,
+    link_id: 'abc123',
+    original_url: 'https://example.com/landing',
+    short_url: 'https://qck.sh/abc123',
+    created_at: at,
+    updated_at: at,
+    is_active: true,
+    tags: [],
+    is_password_protected: false,
+    metadata: { title: 'Example', domain: 'qck.sh', is_safe: true, tags: [] },
+    total_clicks: 0,
+    unique_visitors: 0,
+    bot_clicks: 0,
+  };
+}
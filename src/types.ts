@@ -1,3 +1,5 @@
+import type { QCKError } from './errors.js';
+
 // ── SDK Configuration ──
 
 /** Configuration options for initializing the QCK SDK client. */
@@ -8,8 +10,43 @@ export interface QCKConfig {
   baseUrl?: string;
   /** Request timeout in milliseconds. @default 30000 */
   timeout?: number;
-  /** Number of automatic retries on transient failures (network errors, 429s). @default 3 */
+  /** Number of automatic retries on transient failures (see `retryPolicy`). @default 3 */
   retries?: number;
+  /**
+   * Middleware run, in order, around every request attempt (including retries).
+   * Use it to add headers, log responses, or report errors without patching `fetch`.
+   * @default []
+   */
+  middleware?: Middleware[];
+  /**
+   * Fetch implementation used for every request (JSON and binary uploads).
+   * Use it to route through a custom dispatcher, a proxy, or an in-memory test transport.
+   * @default globalThis.fetch
+   */
+  fetch?: FetchLike;
+  /**
+   * Client-side throttle applied to every request attempt. Requests are queued
+   * in FIFO order instead of bursting into the server's rate limit.
+   * Omit to send requests immediately (rate-limit headers are still tracked).
+   */
+  rateLimit?: RateLimitOptions;
+  /**
+   * Controls which failures are retried and how long to wait between attempts.
+   * The number of retries is still set by `retries`.
+   */
+  retryPolicy?: RetryPolicy;
+}
+
+/**
+ * Configuration for {@link createPublicClient}. Accepts the same transport
+ * options as {@link QCKConfig}, with a publishable key instead of an API key.
+ */
+export interface PublicClientConfig extends Omit<QCKConfig, 'apiKey'> {
+  /**
+   * Publishable key (`qck_pk_...`). Safe to embed in front-end code: it can only
+   * ingest journey events and conversions. Obtain yours at https://qck.sh/app/api
+   */
+  publishableKey: string;
 }
 
 // ── API Response Wrapper ──
@@ -31,9 +68,62 @@ export interface ApiResponse<T> {
     code: string;
     /** Human-readable error message. */
     message: string;
+    /** Per-field validation failures, present on validation errors. */
+    details?: FieldError[];
   };
 }
 
+// ── Errors ──
+
+/** A single field that failed server-side validation. */
+export interface FieldError {
+  /** Name of the invalid field, using dot notation for nested fields (e.g. `'links.0.url'`). */
+  field: string;
+  /** Human-readable description of the problem. */
+  message: string;
+  /** Machine-readable reason (e.g. `'invalid_url'`), if the server provided one. */
+  code?: string;
+}
+
+/** Request context attached to a {@link QCKError}. All fields are optional. */
+export interface QCKErrorOptions {
+  /** HTTP method of the failed request. */
+  method?: string;
+  /** API endpoint path of the failed request (e.g. `'/links'`). */
+  path?: string;
+  /** Server-assigned request ID from the `X-Request-ID` response header. */
+  requestId?: string | null;
+  /** Response headers, if a response was received. */
+  headers?: Headers;
+  /** Per-field validation failures reported by the server. */
+  fieldErrors?: FieldError[];
+  /**
+   * Error code reported by the server, kept by `PermissionDeniedError`,
+   * `ConflictError` and `ServerError` instead of their default code.
+   */
+  code?: string;
+  /** Whether the failure is transient and may succeed if retried. @default false */
+  retryable?: boolean;
+  /** The underlying error (e.g. the `fetch` rejection for network failures). */
+  cause?: unknown;
+}
+
+/** Plain-object form of a {@link QCKError}, produced by `toJSON()` for structured logs. */
+export interface QCKErrorJSON {
+  name: string;
+  message: string;
+  status: number;
+  code: string;
+  method: string | null;
+  path: string | null;
+  requestId: string | null;
+  isRetryable: boolean;
+  fieldErrors: FieldError[];
+  headers: Record<string, string>;
+  retryAfter?: number;
+  cause?: string;
+}
+
 // ── Paginated Response ──
 
 /**
@@ -523,8 +613,7 @@ export const WebhookEventCategories = {
 
 /**
  * Shape of a webhook delivery payload received at your endpoint.
- * Your webhook handler should validate the signature and parse
- * the `data` field according to the `event` type.
+ * Prefer {@link WebhookEventPayload}, which types `data` by event.
  *
  * @typeParam T - The shape of the event-specific data payload.
  */
@@ -537,6 +626,305 @@ export interface WebhookPayload<T = unknown> {
   data: T;
 }
 
+/** Data of a `link.deleted` event. The link no longer exists, so only its identifiers are sent. */
+export interface WebhookLinkDeletedData {
+  /** UUID of the deleted link. */
+  id: string;
+  /** Short code of the deleted link. */
+  link_id: string;
+  /** ISO 8601 timestamp when the link was deleted. */
+  deleted_at: string;
+}
+
+/** Data of `api_key.*` events. The key itself is never included. */
+export interface WebhookApiKeyData {
+  /** API key UUID. */
+  id: string;
+  /** Display name of the key. */
+  name: string;
+  /** First characters of the key, for identification (e.g. `'qck_live_ab12'`). */
+  prefix: string;
+  /** ISO 8601 timestamp when the key was created. */
+  created_at: string;
+  /** ISO 8601 timestamp when the key was revoked. Set for `api_key.revoked`. */
+  revoked_at?: string;
+}
+
+/** Data of `team.*` events. */
+export interface WebhookTeamMemberData {
+  /** User UUID of the member. */
+  user_id: string;
+  /** Email address of the member. */
+  email: string;
+  /** Role of the member on the team (e.g. `'admin'`, `'member'`). */
+  role: string;
+}
+
+/** Data of `subscription.*` events. */
+export interface WebhookSubscriptionData {
+  /** Plan before the change (e.g. `'free'`). */
+  previous_plan: string;
+  /** Plan after the change (e.g. `'pro'`). */
+  plan: string;
+  /** ISO 8601 timestamp when the change took effect. */
+  changed_at: string;
+}
+
+/** Data of a `bulk_import.completed` event. */
+export interface WebhookBulkImportData {
+  /** Bulk import job UUID. */
+  job_id: string;
+  /** Number of links submitted. */
+  total: number;
+  /** Number of links created. */
+  succeeded: number;
+  /** Number of links that could not be created. */
+  failed: number;
+  /** Per-row failures, by zero-based position in the submitted list. */
+  errors: Array<{ index: number; message: string }>;
+}
+
+/**
+ * Event-specific `data` carried by each webhook event type.
+ * `conversion` carries the tracked conversion as a journey event.
+ */
+export interface WebhookEventDataMap {
+  'link.created': Link;
+  'link.updated': Link;
+  'link.deleted': WebhookLinkDeletedData;
+  'link.expired': Link;
+  'domain.verified': Domain;
+  'domain.expired': Domain;
+  'domain.suspended': Domain;
+  'api_key.created': WebhookApiKeyData;
+  'api_key.revoked': WebhookApiKeyData;
+  'team.member_added': WebhookTeamMemberData;
+  'team.member_removed': WebhookTeamMemberData;
+  'subscription.upgraded': WebhookSubscriptionData;
+  'subscription.downgraded': WebhookSubscriptionData;
+  'bulk_import.completed': WebhookBulkImportData;
+  conversion: ConversionJourneyEvent;
+}
+
+/**
+ * A webhook delivery payload typed by its event, as a union discriminated on `event`.
+ * Switching on `payload.event` narrows `data` to the matching shape.
+ *
+ * @typeParam E - The event type(s) to include. Defaults to every event.
+ *
+ * @example
+ * ```ts
+ * function handle(payload: WebhookEventPayload) {
+ *   switch (payload.event) {
+ *     case 'link.created':
+ *       console.log(payload.data.short_url); // data: Link
+ *       break;
+ *     case 'bulk_import.completed':
+ *       console.log(payload.data.failed); // data: WebhookBulkImportData
+ *       break;
+ *   }
+ * }
+ * ```
+ */
+export type WebhookEventPayload<E extends WebhookEventType = WebhookEventType> = {
+  [K in E]: {
+    /** The event type that triggered this delivery. */
+    event: K;
+    /** ISO 8601 timestamp when the event occurred. */
+    timestamp: string;
+    /** Event-specific data payload. */
+    data: WebhookEventDataMap[K];
+  };
+}[E];
+
+/**
+ * Request headers of an incoming webhook delivery: a Fetch API `Headers` object
+ * or a plain object such as Node's `IncomingHttpHeaders`.
+ */
+export type WebhookHeaders = Headers | Record<string, string | string[] | undefined>;
+
+/**
+ * Reason a webhook failed verification:
+ * - `'missing_header'`: no `X-QCK-Signature` header.
+ * - `'malformed_header'`: the header has no timestamp or no `v1` signature.
+ * - `'timestamp_outside_tolerance'`: the signed timestamp is too old or too far in the future.
+ * - `'no_matching_signature'`: no signature matches any of the secrets.
+ * - `'invalid_payload'`: the signature is valid but the body is not a JSON webhook payload.
+ */
+export type WebhookSignatureFailure =
+  | 'missing_header'
+  | 'malformed_header'
+  | 'timestamp_outside_tolerance'
+  | 'no_matching_signature'
+  | 'invalid_payload';
+
+/** Options for verifying a webhook signature. */
+export interface VerifyWebhookOptions {
+  /**
+   * Maximum age (and clock skew) of the signed timestamp in seconds. Deliveries
+   * outside this window are rejected to prevent replays. Pass `Infinity` to disable.
+   * @default 300
+   */
+  toleranceSeconds?: number;
+}
+
+/** Name of a group in {@link WebhookEventCategories} (e.g. `'links'`). */
+export type WebhookEventCategory = keyof typeof WebhookEventCategories;
+
+/** Handles one verified webhook event. Throw (or reject) to have QCK redeliver it. */
+export type WebhookEventHandler<E extends WebhookEventType = WebhookEventType> = (
+  payload: WebhookEventPayload<E>,
+) => unknown;
+
+/**
+ * Handlers keyed by event type (e.g. `'link.created'`) or by category wildcard
+ * (e.g. `'links.*'`, from {@link WebhookEventCategories}). An exact event handler
+ * takes precedence over its category's wildcard.
+ */
+export type WebhookEventHandlers = {
+  [E in WebhookEventType]?: WebhookEventHandler<E>;
+} & {
+  [C in WebhookEventCategory as `${C}.*`]?: WebhookEventHandler<
+    (typeof WebhookEventCategories)[C][number]
+  >;
+};
+
+/**
+ * Storage for the keys of processed webhook events, used to skip redeliveries.
+ * Implement it over Redis, SQLite, a file, etc. to share state across processes
+ * and restarts; {@link MemoryWebhookEventStore} keeps keys in memory.
+ */
+export interface WebhookEventStore {
+  /**
+   * Atomically record `key` unless it is already recorded and unexpired.
+   *
+   * @param key - The event key.
+   * @param ttlMs - How long to remember the key, in milliseconds.
+   * @returns `true` if the key was recorded (process the event), `false` if it is a duplicate.
+   */
+  claim(key: string, ttlMs: number): boolean | Promise<boolean>;
+  /**
+   * Forget `key`, so a redelivery is processed again. Called when the handler fails.
+   *
+   * @param key - The event key.
+   */
+  release(key: string): void | Promise<void>;
+}
+
+/** Options for de-duplicating webhook events. */
+export interface WebhookDedupeOptions {
+  /** Where processed event keys are kept. @default a new {@link MemoryWebhookEventStore} */
+  store?: WebhookEventStore;
+  /** How long to remember processed events, in milliseconds. @default 86_400_000 (24 hours) */
+  ttlMs?: number;
+  /**
+   * Derives the key identifying an event. Redeliveries carry the same body, so the
+   * default combines the event type, timestamp and a SHA-256 digest of `data`.
+   */
+  key?: (payload: WebhookPayload) => string | Promise<string>;
+}
+
+/** Options for creating a {@link MemoryWebhookEventStore}. */
+export interface MemoryWebhookEventStoreOptions {
+  /** Maximum number of keys kept; the least recently seen are evicted first. @default 10_000 */
+  maxEntries?: number;
+}
+
+/** Options for {@link createWebhookHandler}. */
+export interface WebhookHandlerOptions extends VerifyWebhookOptions {
+  /** The endpoint's signing secret, or several during rotation. */
+  secret: string | string[];
+  /** Event handlers by event type or category wildcard. */
+  handlers: WebhookEventHandlers;
+  /**
+   * Called for verified events with no matching handler, including event types
+   * newer than this SDK. Unhandled events are acknowledged if omitted.
+   */
+  fallback?: (payload: WebhookPayload) => unknown;
+  /**
+   * Called when verification fails or a handler throws, e.g. for logging.
+   * `payload` is `null` if the delivery could not be verified.
+   */
+  onError?: (error: unknown, payload: WebhookPayload | null) => void;
+  /**
+   * Skip events that were already processed, so redeliveries don't repeat side
+   * effects. Enabled with an in-memory store by default; pass a shared
+   * {@link WebhookEventStore} when running several instances, or `false` to disable.
+   */
+  dedupe?: WebhookDedupeOptions | false;
+}
+
+/**
+ * Outcome of handling a webhook delivery, as sent back to QCK. QCK treats 2xx as
+ * delivered, does not retry 4xx, and redelivers 5xx with backoff.
+ */
+export interface WebhookHandlerResult {
+  /**
+   * HTTP status: `200` when handled or ignored, `400` when verification fails,
+   * `405` for non-POST requests, `500` when a handler throws.
+   */
+  status: number;
+  /** JSON response body. */
+  body: { received: boolean; error?: string };
+  /** The delivered event type, or `null` if the delivery could not be verified. */
+  event: string | null;
+  /** Whether a handler (or the fallback) ran for the event. */
+  handled: boolean;
+  /** Whether the event was skipped because it had already been processed. */
+  duplicate: boolean;
+}
+
+/**
+ * The subset of Node's `http.IncomingMessage` used by the webhook handler. Body
+ * parsers that store the raw body on `req.body` (e.g. `express.raw()`) are supported.
+ */
+export interface NodeWebhookRequest extends AsyncIterable<Uint8Array | string> {
+  /** HTTP method. */
+  method?: string;
+  /** Request headers. */
+  headers: Record<string, string | string[] | undefined>;
+  /** Body set by body-parsing middleware, if any. */
+  body?: unknown;
+}
+
+/** The subset of Node's `http.ServerResponse` used by the webhook handler. */
+export interface NodeWebhookResponse {
+  /** Response status code. */
+  statusCode: number;
+  /** Set a response header. */
+  setHeader(name: string, value: string): unknown;
+  /** Send the body and finish the response. */
+  end(body?: string): unknown;
+}
+
+/**
+ * Verifies, parses and dispatches webhook deliveries, with adapters for
+ * Fetch-style runtimes, Node's `http` module and Express/Connect.
+ */
+export interface WebhookHandler {
+  /**
+   * Verify and dispatch a delivery from its raw body and headers.
+   * Never throws: failures are reported in the result.
+   */
+  handle(
+    rawBody: string | Uint8Array | ArrayBuffer,
+    headers: WebhookHeaders,
+  ): Promise<WebhookHandlerResult>;
+  /** Handle a Fetch API `Request` (edge runtimes, Bun, Deno, Next.js route handlers). */
+  fetch(request: Request): Promise<Response>;
+  /** Handle a Node `http` request and write the response. */
+  node(req: NodeWebhookRequest, res: NodeWebhookResponse): Promise<void>;
+  /**
+   * Express/Connect middleware. Mount it before any JSON body parser, or behind
+   * `express.raw({ type: 'application/json' })`. Misconfiguration is passed to `next`.
+   */
+  middleware(
+    req: NodeWebhookRequest,
+    res: NodeWebhookResponse,
+    next: (error?: unknown) => void,
+  ): void;
+}
+
 // ── Webhooks ──
 
 /** A registered webhook endpoint that receives event deliveries. */
@@ -593,8 +981,8 @@ export interface WebhookDelivery {
   event_type: string;
   /** Delivery status (e.g. `'success'`, `'failed'`, `'pending'`). */
   status: string;
-  /** HTTP status code returned by the endpoint, if available. */
-  http_status?: number;
+  /** HTTP status code returned by the endpoint, or `null` if it did not respond. */
+  http_status?: number | null;
   /** Which attempt number this was (1-based). */
   attempt_number: number;
   /** ISO 8601 timestamp when the delivery was initiated. */
@@ -611,36 +999,144 @@ export interface ListWebhookDeliveriesParams {
   limit?: number;
 }
 
+/**
+ * Desired configuration of a webhook endpoint, for {@link WebhooksResource.sync}.
+ * Endpoints are identified by URL.
+ */
+export interface WebhookDefinition {
+  /** The URL that receives webhook POST requests. */
+  url: string;
+  /** Event types to subscribe to. Order does not matter. */
+  events: string[];
+  /** Description of the endpoint. Left unchanged on existing endpoints if omitted. */
+  description?: string;
+  /** Whether the endpoint should be active. @default true */
+  is_active?: boolean;
+}
+
+/** Parameters for {@link WebhooksResource.sync}. */
+export interface WebhookSyncParams {
+  /** Compute the plan without applying it. @default false */
+  dryRun?: boolean;
+  /** Delete existing endpoints whose URL is not in the desired list. @default true */
+  prune?: boolean;
+}
+
+/** A change planned by {@link WebhooksResource.sync}. */
+export type WebhookSyncAction =
+  | {
+      type: 'create';
+      url: string;
+      params: CreateWebhookParams;
+      /** `false` if the endpoint is paused right after creation. */
+      is_active: boolean;
+    }
+  | { type: 'update'; id: string; url: string; params: UpdateWebhookParams }
+  | { type: 'delete'; id: string; url: string };
+
+/** Outcome of {@link WebhooksResource.sync}. */
+export interface WebhookSyncResult {
+  /** Whether the plan was only computed, not applied. */
+  dryRun: boolean;
+  /** The planned changes: creates, then updates, then deletes, in the order applied. */
+  actions: WebhookSyncAction[];
+  /** Existing endpoints that already match their definition. */
+  unchanged: WebhookEndpoint[];
+  /** Endpoints created by the sync (empty for a dry run). */
+  created: WebhookEndpoint[];
+  /**
+   * Signing secrets of created endpoints by URL. Secrets are only returned on
+   * creation, so store them now.
+   */
+  secrets: Record<string, string>;
+}
+
+/** Time window covered by webhook health metrics. */
+export type WebhookHealthWindow = '1h' | '24h' | '7d' | '30d';
+
+/** Parameters for computing webhook endpoint health. */
+export interface WebhookHealthParams {
+  /** How far back to look at deliveries. @default '24h' */
+  window?: WebhookHealthWindow;
+  /**
+   * Consecutive failures at which an active endpoint is flagged as at risk. Endpoints
+   * are auto-disabled after repeated failures, so flag them before that happens.
+   * @default 5
+   */
+  atRiskFailures?: number;
+}
+
+/** Delivery metrics for a webhook endpoint, computed from its delivery history. */
+export interface WebhookHealth {
+  /** Webhook endpoint UUID. */
+  webhookId: string;
+  /** The endpoint URL. */
+  url: string;
+  /** Whether the endpoint is active. `false` if it was disabled manually or automatically. */
+  isActive: boolean;
+  /** Current number of consecutive delivery failures. */
+  consecutiveFailures: number;
+  /** ISO 8601 timestamp of the most recent failure, or `null` if none. */
+  lastFailureAt: string | null;
+  /** Whether the endpoint is active and close to being auto-disabled. */
+  atRisk: boolean;
+  /** The window the metrics cover. */
+  window: WebhookHealthWindow;
+  /** Start of the window. */
+  since: Date;
+  /** Delivery attempts in the window. */
+  deliveries: number;
+  /** Attempts with status `'success'`. */
+  succeeded: number;
+  /** Attempts with status `'failed'`. */
+  failed: number;
+  /** Attempts not yet completed. */
+  pending: number;
+  /** `succeeded / (succeeded + failed)` from 0 to 1, or `null` if no attempt completed. */
+  successRate: number | null;
+  /** Time from creation to successful delivery in milliseconds, or `null` if none was delivered. */
+  timeToDeliveryMs: { p50: number | null; p95: number | null };
+  /**
+   * Failed attempts by HTTP status returned by the endpoint, with `'network_error'`
+   * for attempts it did not respond to.
+   */
+  failuresByStatus: Record<string, number>;
+  /** Attempts by `attempt_number`: `1` for first attempts, higher numbers for retries. */
+  attempts: Record<number, number>;
+}
+
+/** Account-wide webhook health, from {@link WebhooksResource.healthReport}. */
+export interface WebhookHealthReport {
+  /** When the report was generated. */
+  generatedAt: Date;
+  /** The window the metrics cover. */
+  window: WebhookHealthWindow;
+  /** Health of every webhook endpoint. */
+  endpoints: WebhookHealth[];
+  /** Active endpoints close to being auto-disabled. */
+  atRisk: WebhookHealth[];
+  /** Endpoints that are currently disabled. */
+  disabled: WebhookHealth[];
+}
+
 // ── Journey Tracking ──
 
-/** A single visitor journey event to be ingested or returned from queries. */
-export interface JourneyEvent {
+/** Fields shared by every {@link JourneyEvent}, whatever its `event_type`. */
+export interface JourneyEventBase {
   /** Link UUID. Read from `?qck_link=` URL param after redirect. */
   link_id: string;
   /** Unique visitor identifier (user-managed — your user ID, device UUID, etc.). */
   visitor_id: string;
   /** Session identifier (optional — enables session analytics and funnel analysis when provided). */
   session_id?: string;
-  /** Type of event being tracked. */
-  event_type: 'page_view' | 'scroll_depth' | 'time_on_page' | 'custom' | 'conversion';
-  /** Event name for custom/conversion events (e.g. "signup", "purchase"). */
+  /** Event name (e.g. "signup", "purchase"). Required for `'custom'` events. */
   event_name?: string;
   /** Page URL (web) or screen/route name (mobile/server). */
   page_url: string;
   /** Page title or screen title. */
   page_title?: string;
-  /** Scroll depth percentage (0-100) for `'scroll_depth'` events. */
-  scroll_percent?: number;
-  /** Time spent on the page in seconds for `'time_on_page'` events. */
-  time_on_page?: number;
   /** ISO 8601 timestamp. Defaults to server time if omitted. */
   timestamp?: string;
-  /** Conversion name (e.g. "purchase"). Set for conversion events. */
-  conversion_name?: string;
-  /** Revenue in cents (integer). $49.99 → 4999. */
-  revenue_cents?: number;
-  /** ISO 4217 currency code. @default 'USD' */
-  currency?: string;
   /** Country code (2-char ISO 3166-1, e.g. "US"). */
   country_code?: string;
   /** City name. */
@@ -661,14 +1157,385 @@ export interface JourneyEvent {
   properties?: Record<string, unknown>;
 }
 
+/** A page or screen load. */
+export interface PageViewJourneyEvent extends JourneyEventBase {
+  event_type: 'page_view';
+}
+
+/** How far the visitor scrolled a page. */
+export interface ScrollDepthJourneyEvent extends JourneyEventBase {
+  event_type: 'scroll_depth';
+  /** Scroll depth percentage, 0-100. */
+  scroll_percent: number;
+}
+
+/** Time the visitor spent on a page or screen. */
+export interface TimeOnPageJourneyEvent extends JourneyEventBase {
+  event_type: 'time_on_page';
+  /** Time spent on the page in seconds (0 or more). */
+  time_on_page: number;
+}
+
+/** Any user-defined event, identified by `event_name`. */
+export interface CustomJourneyEvent extends JourneyEventBase {
+  event_type: 'custom';
+  /** Event name (e.g. "cta_click"). */
+  event_name: string;
+}
+
+/** A purchase, signup, lead or other conversion. */
+export interface ConversionJourneyEvent extends JourneyEventBase {
+  event_type: 'conversion';
+  /** Conversion name (e.g. "purchase"). */
+  conversion_name: string;
+  /** Revenue in cents (integer). $49.99 → 4999. */
+  revenue_cents?: number;
+  /** ISO 4217 currency code. @default 'USD' */
+  currency?: string;
+}
+
+/**
+ * A single visitor journey event to be ingested or returned from queries.
+ * Narrow on `event_type` to access the fields specific to each type.
+ *
+ * @example
+ * ```ts
+ * const event: JourneyEvent = {
+ *   link_id, visitor_id, page_url: '/pricing',
+ *   event_type: 'scroll_depth',
+ *   scroll_percent: 75, // required for 'scroll_depth'
+ * };
+ * ```
+ */
+export type JourneyEvent =
+  | PageViewJourneyEvent
+  | ScrollDepthJourneyEvent
+  | TimeOnPageJourneyEvent
+  | CustomJourneyEvent
+  | ConversionJourneyEvent;
+
+/** Type of a {@link JourneyEvent}. */
+export type JourneyEventType = JourneyEvent['event_type'];
+
+/**
+ * A problem found by {@link validateJourneyEvent}.
+ *
+ * @example
+ * ```ts
+ * { index: 3, field: 'scroll_percent', message: 'must be a number from 0 to 100' }
+ * ```
+ */
+export interface JourneyEventIssue {
+  /** Position of the event in the batch (`0` for a single event). */
+  index: number;
+  /** The invalid field. */
+  field: string;
+  /** Human-readable description of the problem. */
+  message: string;
+}
+
+/**
+ * Device category of a user agent. `'bot'` marks crawlers, monitors and HTTP
+ * libraries, as in the analytics `bot_filter`.
+ */
+export type UserAgentDeviceType = 'desktop' | 'mobile' | 'tablet' | 'bot';
+
+/** A `User-Agent` header parsed by {@link parseUserAgent}. Unrecognized fields are omitted. */
+export interface ParsedUserAgent {
+  /** Device category. */
+  device_type: UserAgentDeviceType;
+  /** Browser name (e.g. "Chrome", "Safari"). */
+  browser?: string;
+  /** Browser version (e.g. "120.0.6099.109"). */
+  browser_version?: string;
+  /** OS name (e.g. "iOS", "Windows"). */
+  os?: string;
+  /** OS version (e.g. "17.0", "10"). */
+  os_version?: string;
+  /** Whether the user agent is a crawler, monitor or HTTP library rather than a visitor. */
+  is_bot: boolean;
+}
+
+/** Request headers used by {@link enrichFromRequest}. */
+export interface JourneyRequestInfo {
+  /** The `User-Agent` header. */
+  userAgent?: string | null;
+  /** The `Accept-Language` header. */
+  acceptLanguage?: string | null;
+}
+
 /** Parameters for ingesting a batch of journey events. */
 export interface IngestEventsParams {
   /** Array of journey events to ingest. Processed asynchronously. */
   events: JourneyEvent[];
 }
 
-/** Aggregated journey summary for a specific link. */
-export interface JourneyLinkSummary {
+/**
+ * What a {@link JourneyBatcher} does when its queue is full:
+ * - `'block'`: `add()` waits until a flush frees space (backpressure).
+ * - `'drop_newest'`: the events being added are dropped.
+ * - `'drop_oldest'`: the oldest queued events are dropped to make room.
+ */
+export type JourneyBatcherOverflow = 'block' | 'drop_newest' | 'drop_oldest';
+
+/** Options for {@link JourneyResource.createBatcher}. */
+export interface JourneyBatcherOptions {
+  /** Events per ingest request. Capped at the API maximum of 100. @default 100 */
+  maxBatchSize?: number;
+  /** Flush queued events this often, in milliseconds. `0` disables the timer. @default 5000 */
+  flushIntervalMs?: number;
+  /** Maximum number of events waiting to be sent. @default 10_000 */
+  maxQueueSize?: number;
+  /** What to do when the queue is full. @default 'drop_oldest' */
+  overflow?: JourneyBatcherOverflow;
+  /**
+   * Times a batch is re-sent after the client's own retries are exhausted by a
+   * retryable error (5xx, timeout, network). Non-retryable errors drop the batch.
+   * @default 3
+   */
+  batchRetries?: number;
+  /** Delay before re-sending a failed batch, multiplied by the attempt number. @default 1000 */
+  batchRetryDelayMs?: number;
+  /** Called for every batch sent and every event dropped. */
+  onMetric?: (metric: JourneyBatcherMetric) => void;
+}
+
+/** A delivery outcome reported to {@link JourneyBatcherOptions.onMetric}. */
+export type JourneyBatcherMetric =
+  | { type: 'sent'; count: number; attempts: number }
+  | {
+      type: 'dropped';
+      count: number;
+      /**
+       * `'queue_full'` per the overflow policy, `'failed'` after retries, `'closed'`
+       * after close, `'invalid'` when the event failed client-side validation.
+       */
+      reason: 'queue_full' | 'failed' | 'closed' | 'invalid';
+      /** The send error for `'failed'` drops, the `ValidationError` for `'invalid'` ones. */
+      error?: unknown;
+    };
+
+/** Counters of a {@link JourneyBatcher} since it was created. */
+export interface JourneyBatcherStats {
+  /** Events waiting to be sent. */
+  queued: number;
+  /** Events sent successfully. */
+  sent: number;
+  /** Events dropped (queue full, send failed, or added after close). */
+  dropped: number;
+  /** Ingest requests that succeeded. */
+  batches: number;
+  /** Batch re-sends after failures. */
+  retries: number;
+}
+
+/**
+ * Persistent storage for a {@link DurableJourneyQueue}. Implementations must keep
+ * events in order. The SDK ships memory, Web Storage (`localStorage`) and file
+ * implementations; implement this interface for IndexedDB, SQLite, etc.
+ */
+export interface JourneyQueueStorage {
+  /** Read every stored event, oldest first. */
+  load(): Promise<JourneyEvent[]>;
+  /** Store events after those already stored. */
+  append(events: JourneyEvent[]): Promise<void>;
+  /** Replace the stored events, e.g. after sent or dropped events are removed. */
+  replace(events: JourneyEvent[]): Promise<void>;
+}
+
+/**
+ * The subset of Node's `fs/promises` used by {@link FileJourneyStorage}. Pass the
+ * module itself: `import fs from 'node:fs/promises'`.
+ */
+export interface JourneyQueueFileSystem {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  appendFile(path: string, data: string): Promise<void>;
+  writeFile(path: string, data: string): Promise<void>;
+  rename(from: string, to: string): Promise<void>;
+}
+
+/** Options for {@link JourneyResource.createQueue}. */
+export interface DurableJourneyQueueOptions {
+  /** Where queued events are persisted. @default a new {@link MemoryJourneyStorage} */
+  storage?: JourneyQueueStorage;
+  /**
+   * Maximum size of the queued events, in bytes of JSON. The oldest events are
+   * dropped beyond it. @default 2_000_000
+   */
+  maxBytes?: number;
+  /** Events per ingest request. Capped at the API maximum of 100. @default 100 */
+  maxBatchSize?: number;
+  /**
+   * Try to send queued events this often, in milliseconds. `0` disables the timer;
+   * call `flush()` yourself. @default 5000
+   */
+  flushIntervalMs?: number;
+  /** Called for every batch sent and every event dropped. */
+  onMetric?: (metric: DurableJourneyQueueMetric) => void;
+}
+
+/** A delivery outcome reported to {@link DurableJourneyQueueOptions.onMetric}. */
+export type DurableJourneyQueueMetric =
+  | { type: 'sent'; count: number }
+  | {
+      type: 'dropped';
+      count: number;
+      /**
+       * `'size_limit'` when `maxBytes` was exceeded, `'rejected'` when the API
+       * refused the batch, `'invalid'` when the event failed client-side validation.
+       */
+      reason: 'size_limit' | 'rejected' | 'invalid';
+      /** The API error for `'rejected'` drops, the `ValidationError` for `'invalid'` ones. */
+      error?: unknown;
+    };
+
+/** Current state of a {@link DurableJourneyQueue}. */
+export interface DurableJourneyQueueStats {
+  /** Events waiting to be sent. */
+  depth: number;
+  /** Size of the waiting events in bytes of JSON. */
+  bytes: number;
+  /** Events sent since the queue was created. */
+  sent: number;
+  /** Events dropped since the queue was created. */
+  dropped: number;
+  /** The error of the last failed send, or `null` once a send succeeds. */
+  lastError: unknown;
+}
+
+/** A visitor's current session, as kept by a {@link JourneySessionStore}. */
+export interface JourneySessionState {
+  /** Session ID, stamped on the visitor's events as `session_id`. */
+  id: string;
+  /** When the session started, in milliseconds since the epoch. */
+  startedAt: number;
+  /** When the session's latest event happened, in milliseconds since the epoch. */
+  lastActivity: number;
+  /** Campaign the session was started by, if known. */
+  campaign?: string;
+}
+
+/**
+ * Where a {@link JourneySessionManager} keeps each visitor's current session.
+ * Implement it for Redis, a database or any other shared store.
+ */
+export interface JourneySessionStore {
+  /** Read the visitor's current session, if any. */
+  get(visitorId: string): Promise<JourneySessionState | undefined>;
+  /** Store the visitor's current session. */
+  set(visitorId: string, session: JourneySessionState): Promise<void>;
+  /** Forget the visitor's session, so their next event starts a new one. */
+  delete(visitorId: string): Promise<void>;
+}
+
+/** Options for {@link JourneySessionManager}. */
+export interface JourneySessionManagerOptions {
+  /** Where sessions are kept. @default a new {@link MemoryJourneySessionStore} */
+  store?: JourneySessionStore;
+  /**
+   * Start a new session after this long without events, in milliseconds.
+   * @default 1_800_000 (30 minutes)
+   */
+  timeoutMs?: number;
+  /** Start a new session at midnight in `timeZone`. @default true */
+  splitAtMidnight?: boolean;
+  /** IANA time zone of the midnight split, e.g. `'America/New_York'`. @default 'UTC' */
+  timeZone?: string;
+  /**
+   * The campaign an event belongs to. An event from a different campaign than its
+   * session's starts a new session; events without a campaign continue it. `false`
+   * disables campaign splits. @default (event) => event.link_id
+   */
+  campaign?: ((event: JourneyEvent) => string | undefined) | false;
+  /** Generates session IDs. @default crypto.randomUUID */
+  generateId?: () => string;
+}
+
+/**
+ * A `document`-like cookie target for {@link CookieJourneySessionStore}: reading
+ * `cookie` returns `name=value` pairs separated by `; `, and assigning it sets one
+ * cookie. On servers, read the request's `Cookie` header and append
+ * `Set-Cookie` response headers.
+ */
+export interface JourneySessionCookieTarget {
+  cookie: string;
+}
+
+/** Options for {@link CookieJourneySessionStore}. */
+export interface CookieJourneySessionStoreOptions {
+  /** Cookie name. @default 'qck_session' */
+  name?: string;
+  /** Where cookies are read and written. @default globalThis.document */
+  document?: JourneySessionCookieTarget;
+  /**
+   * Cookie lifetime in seconds. Keep it longer than the session timeout.
+   * @default 86_400 (1 day)
+   */
+  maxAgeSeconds?: number;
+  /** Cookie `Domain`, e.g. `'.example.com'` to share sessions across subdomains. */
+  domain?: string;
+  /** Cookie `Path`. @default '/' */
+  path?: string;
+  /** Cookie `SameSite`. @default 'Lax' */
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  /** Set the `Secure` attribute. @default false */
+  secure?: boolean;
+}
+
+/**
+ * Property shapes of custom journey events, keyed by `event_name`. Use
+ * `undefined` for events without properties.
+ *
+ * @example
+ * ```ts
+ * type AppEvents = {
+ *   video_played: { seconds: number; video_id: string };
+ *   signup_clicked: { plan: 'free' | 'pro' };
+ *   newsletter_opened: undefined;
+ * };
+ * ```
+ */
+export type JourneyEventSchema<M> = { [K in keyof M]: object | undefined };
+
+/** Arguments after the event name: the properties, optional for events without any. */
+export type JourneyEventPropertiesArgs<M, K extends keyof M> = M[K] extends undefined
+  ? [properties?: undefined]
+  : [properties: M[K]];
+
+/** The fields of a custom event other than its name and properties. */
+export type JourneyEventContext = Omit<JourneyEventBase, 'event_name' | 'properties'>;
+
+/** Receives events from a {@link TypedJourneyTracker}, e.g. a `BrowserTracker`. */
+export interface JourneyEventSink {
+  track(eventName: string, properties?: Record<string, unknown>): unknown;
+}
+
+/** Options for {@link defineJourneyEvents}. */
+export interface JourneyEventRegistryOptions<M> {
+  /**
+   * Runtime checks of event properties. Each returns a description of the problem,
+   * or nothing if the properties are valid. Events without a check aren't validated.
+   */
+  validate?: { [K in keyof M]?: (properties: M[K]) => string | undefined | void };
+}
+
+/** Tracks custom events whose names and properties are checked against a schema. */
+export interface TypedJourneyTracker<M> {
+  /**
+   * Track a custom event.
+   *
+   * @throws {ValidationError} If the properties fail the event's runtime check.
+   */
+  track<K extends keyof M & string>(name: K, ...properties: JourneyEventPropertiesArgs<M, K>): void;
+}
+
+/**
+ * Aggregated journey summary for a specific link.
+ *
+ * @typeParam M - Custom event schema (see {@link JourneyEventSchema}) that types
+ *   the names in `top_events`.
+ */
+export interface JourneyLinkSummary<M = Record<string, unknown>> {
   /** Total number of unique visitors who interacted with this link. */
   total_visitors: number;
   /** Total number of sessions recorded. */
@@ -679,8 +1546,11 @@ export interface JourneyLinkSummary {
   avg_session_duration_seconds: number;
   /** Most visited pages, sorted by visit count descending. */
   top_pages: { url: string; count: number }[];
-  /** Most triggered events, sorted by count descending. */
-  top_events: { name: string; count: number }[];
+  /**
+   * Most triggered events, sorted by count descending. Custom events are named by
+   * their `event_name`, others by their `event_type`.
+   */
+  top_events: { name: JourneyEventType | (keyof M & string); count: number }[];
 }
 
 /** A single step in a funnel analysis result. */
@@ -882,10 +1752,272 @@ export interface TimeToConvertData {
 
 // ── HTTP Client Internals ──
 
+/**
+ * Per-call options accepted as the last argument of every resource method.
+ * Values override the client-wide configuration for that call only.
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * const points = await qck.analytics.timeseries({ days: 90 }, {
+ *   signal: controller.signal,
+ *   timeout: 60_000,
+ *   retries: 0,
+ *   headers: { 'X-Correlation-ID': 'dash-42' },
+ * });
+ * ```
+ */
+export interface CallOptions {
+  /** Signal that cancels the request, including any pending retry. Cancelled calls reject with code `'ABORTED'`. */
+  signal?: AbortSignal;
+  /** Timeout for each attempt in milliseconds. Overrides {@link QCKConfig.timeout}. */
+  timeout?: number;
+  /** Number of automatic retries. Overrides {@link QCKConfig.retries}. */
+  retries?: number;
+  /** Additional HTTP headers to include in the request. */
+  headers?: Record<string, string>;
+  /**
+   * Idempotency key for POST, PUT, PATCH, and DELETE requests, sent as `X-Idempotency-Key`
+   * and reused across retries. Pass a stable business identifier (e.g. an order ID) to
+   * deduplicate across separate calls too. Defaults to a random UUID per call.
+   */
+  idempotencyKey?: string;
+  /**
+   * Let the request outlive the page, as `fetch`'s `keepalive` does. Use it for
+   * requests sent while the page is being hidden or unloaded. Bodies are limited
+   * to 64 KB by browsers.
+   */
+  keepalive?: boolean;
+}
+
+/**
+ * Options accepted by the `listAll*` methods. Call options apply to every page request.
+ *
+ * @example
+ * ```ts
+ * const links = qck.links.listAll({ per_page: 100 }, { prefetch: true, timeout: 10_000 });
+ * ```
+ */
+export interface PaginationOptions extends CallOptions {
+  /** Request the next page while the current one is being consumed. @default false */
+  prefetch?: boolean;
+}
+
 /** Options passed to individual HTTP requests. */
-export interface RequestOptions {
+export interface RequestOptions extends CallOptions {
   /** Query string parameters to append to the request URL. `undefined` values are omitted. */
   params?: Record<string, string | number | boolean | string[] | undefined>;
-  /** Additional HTTP headers to include in the request. */
-  headers?: Record<string, string>;
+}
+
+/**
+ * Jitter applied to exponential backoff between retries.
+ * - `'none'`: `base * 2^attempt`, capped at `maxDelayMs`.
+ * - `'full'`: a random delay between 0 and the exponential delay.
+ * - `'decorrelated'`: a random delay between `base` and three times the previous delay, capped at `maxDelayMs`.
+ */
+export type RetryJitter = 'none' | 'full' | 'decorrelated';
+
+/** A failed request attempt, passed to {@link RetryPolicy} callbacks. */
+export interface RetryContext {
+  /** The error the attempt failed with. */
+  error: QCKError;
+  /** Zero-based number of the attempt that failed. */
+  attempt: number;
+  /** HTTP method of the request. */
+  method: string;
+  /** API endpoint path of the request (e.g. `'/links'`). */
+  path: string;
+  /** Seconds from the response's `Retry-After` header, or `null` if absent. */
+  retryAfter: number | null;
+}
+
+/** Details of a scheduled retry, passed to {@link RetryPolicy.onRetry}. */
+export interface RetryInfo extends RetryContext {
+  /** Delay before the next attempt in milliseconds. */
+  delayMs: number;
+}
+
+/**
+ * Retry behaviour for transient failures.
+ *
+ * @example
+ * ```ts
+ * const qck = new QCK({
+ *   apiKey: 'qck_...',
+ *   retries: 5,
+ *   retryPolicy: {
+ *     retryableStatuses: [429, 500, 502, 503, 504],
+ *     baseDelayMs: 250,
+ *     maxDelayMs: 5_000,
+ *     jitter: 'decorrelated',
+ *     onRetry: ({ attempt, delayMs, error }) =>
+ *       log.warn(`retry #${attempt + 1} in ${delayMs}ms after ${error.code}`),
+ *   },
+ * });
+ * ```
+ */
+export interface RetryPolicy {
+  /** HTTP statuses that are retried. @default [429, 502, 503, 504] */
+  retryableStatuses?: number[];
+  /** SDK error codes that are retried. @default ['TIMEOUT', 'NETWORK_ERROR'] */
+  retryableErrorCodes?: string[];
+  /** Base delay for exponential backoff in milliseconds. @default 1000 */
+  baseDelayMs?: number;
+  /**
+   * Maximum backoff delay in milliseconds. `Retry-After` values are capped separately at 2 minutes.
+   * @default 10000
+   */
+  maxDelayMs?: number;
+  /** Jitter strategy for backoff delays. @default 'full' */
+  jitter?: RetryJitter;
+  /**
+   * Custom predicate replacing the status and error-code checks.
+   * Only called while retries remain; caller aborts are never retried.
+   */
+  shouldRetry?(context: RetryContext): boolean;
+  /** Called before waiting for each retry. */
+  onRetry?(info: RetryInfo): void | Promise<void>;
+}
+
+/**
+ * Client-side throttle settings.
+ *
+ * @example
+ * ```ts
+ * const qck = new QCK({
+ *   apiKey: 'qck_...',
+ *   rateLimit: { requestsPerSecond: 10, maxConcurrency: 4 },
+ * });
+ * ```
+ */
+export interface RateLimitOptions {
+  /** Maximum requests started per second (token bucket, allows bursts up to this size). */
+  requestsPerSecond?: number;
+  /** Maximum requests started per minute (token bucket, allows bursts up to this size). */
+  requestsPerMinute?: number;
+  /** Maximum number of requests in flight at once. @default Infinity */
+  maxConcurrency?: number;
+  /**
+   * Pause the queue when the server reports an exhausted budget
+   * (`X-RateLimit-Remaining: 0`) or responds 429 with `Retry-After`.
+   * @default true
+   */
+  respectHeaders?: boolean;
+}
+
+/** Snapshot of the client's rate-limit budget, available as `qck.rateLimit`. */
+export interface RateLimitStatus {
+  /** Request limit reported by the last `X-RateLimit-Limit` header, or `null` if never seen. */
+  limit: number | null;
+  /**
+   * Remaining requests reported by the last `X-RateLimit-Remaining` header, or `null`
+   * if never seen. Refilled to `limit` once `resetAt` has passed.
+   */
+  remaining: number | null;
+  /**
+   * When the server budget resets, from the last `X-RateLimit-Reset` header, or
+   * `null` if never seen or already passed.
+   */
+  resetAt: Date | null;
+  /** Requests that can start right now under the local throttle, or `null` if no rate is configured. */
+  available: number | null;
+  /** Requests waiting in the queue. */
+  queued: number;
+  /** Requests currently in flight. */
+  inFlight: number;
+  /** When the queue resumes after the server asked the client to back off, or `null` if not paused. */
+  pausedUntil: Date | null;
+}
+
+/** HTTP metadata for a completed request, returned by `.withResponse()`. */
+export interface ResponseMeta {
+  /** HTTP status code of the final response. */
+  status: number;
+  /** Response headers (rate-limit counters, caching headers, etc.). */
+  headers: Headers;
+  /** Server-assigned request ID from the `X-Request-ID` header, or `null` if absent. Quote it in support tickets. */
+  requestId: string | null;
+  /** Number of attempts made, including retries (`1` if the first attempt succeeded). */
+  attempts: number;
+  /** Total time spent on the call in milliseconds, including retries and backoff. */
+  elapsedMs: number;
+  /** The raw `Response` of the final attempt. Its body has already been consumed. */
+  raw: Response;
+}
+
+/**
+ * Unwrapped response data together with its HTTP metadata.
+ *
+ * @typeParam T - The unwrapped response data type.
+ */
+export interface WithResponse<T> {
+  /** The unwrapped response data, identical to what awaiting the call returns. */
+  data: T;
+  /** HTTP metadata for the request. */
+  response: ResponseMeta;
+}
+
+/**
+ * A `fetch`-compatible function used by the {@link HttpClient} to send requests.
+ * The global `fetch`, undici's `fetch`, and in-memory handlers all satisfy this signature.
+ *
+ * @example
+ * ```ts
+ * import { fetch, Agent } from 'undici';
+ *
+ * const dispatcher = new Agent({ keepAliveTimeout: 30_000 });
+ * const qck = new QCK({
+ *   apiKey: 'qck_...',
+ *   fetch: (url, init) => fetch(url, { ...init, dispatcher }),
+ * });
+ * ```
+ */
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * A single outgoing request attempt as seen by {@link Middleware}.
+ * A fresh object is created for every attempt, so retries are observed separately.
+ */
+export interface MiddlewareRequest {
+  /** HTTP method (e.g. `'GET'`, `'POST'`). */
+  method: string;
+  /** Fully qualified request URL, including the query string. */
+  url: string;
+  /** API endpoint path the request was made for (e.g. `'/links'`). */
+  path: string;
+  /** Outgoing HTTP headers. Changes made in `onRequest` are sent with this attempt. */
+  headers: Record<string, string>;
+  /** Zero-based attempt number (`0` for the first try, `1` for the first retry, ...). */
+  attempt: number;
+}
+
+/**
+ * Hooks into every request made by the {@link HttpClient}.
+ * Middleware runs in the order it was configured; every hook is optional
+ * and may be async. Errors thrown from a hook abort the request.
+ *
+ * @example
+ * ```ts
+ * const correlation: Middleware = {
+ *   onRequest(request) {
+ *     request.headers['X-Correlation-ID'] = getCorrelationId();
+ *   },
+ *   onError(error, request) {
+ *     audit.warn(`${request.method} ${request.path} failed`, error);
+ *   },
+ * };
+ *
+ * const qck = new QCK({ apiKey: 'qck_...', middleware: [correlation] });
+ * ```
+ */
+export interface Middleware {
+  /** Called before each attempt is sent. Mutate `request.headers` to change outgoing headers. */
+  onRequest?(request: MiddlewareRequest): void | Promise<void>;
+  /**
+   * Called with every HTTP response, successful or not, before it is unwrapped.
+   * Use `response.clone()` to read the body without consuming it.
+   */
+  onResponse?(response: Response, request: MiddlewareRequest): void | Promise<void>;
+  /** Called when an attempt fails (API error, timeout, or network failure), before any retry. */
+  onError?(error: QCKError, request: MiddlewareRequest): void | Promise<void>;
 }
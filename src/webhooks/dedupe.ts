@@ -0,0 +1,121 @@
+import type {
+  MemoryWebhookEventStoreOptions,
+  WebhookDedupeOptions,
+  WebhookEventStore,
+  WebhookPayload,
+} from '../types.js';
+
+/** Default time processed events are remembered (24 hours). */
+const DEFAULT_TTL_MS = 86_400_000;
+/** Default capacity of {@link MemoryWebhookEventStore}. */
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+/**
+ * In-memory, least-recently-used {@link WebhookEventStore} with per-key expiry.
+ *
+ * @description Suitable for a single process. Keys are lost on restart and are
+ * not shared between instances; implement {@link WebhookEventStore} over a
+ * shared database for that.
+ *
+ * @example
+ * ```ts
+ * const store = new MemoryWebhookEventStore({ maxEntries: 50_000 });
+ * const handler = createWebhookHandler({ secret, handlers, dedupe: { store } });
+ * ```
+ */
+export class MemoryWebhookEventStore implements WebhookEventStore {
+  /** Key → expiry time in epoch milliseconds, least recently seen first. */
+  private readonly entries = new Map<string, number>();
+  private readonly maxEntries: number;
+
+  /**
+   * @param options - Capacity of the store.
+   */
+  constructor(options: MemoryWebhookEventStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  /** Number of keys currently held, including expired ones not yet evicted. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  claim(key: string, ttlMs: number): boolean {
+    const now = Date.now();
+    const expiresAt = this.entries.get(key);
+    if (expiresAt !== undefined && expiresAt > now) {
+      // Refresh recency so frequently redelivered keys are evicted last.
+      this.entries.delete(key);
+      this.entries.set(key, expiresAt);
+      return false;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, now + ttlMs);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    return true;
+  }
+
+  release(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Wrap a webhook handler so each event is processed at most once.
+ *
+ * @description The event's key is claimed in the store before the handler runs.
+ * Redeliveries of a claimed event resolve without calling the handler. If the
+ * handler throws, the claim is released so QCK's retry is processed, and the
+ * error is rethrown.
+ *
+ * @typeParam P - The payload type the handler accepts.
+ * @param handler - The handler to protect.
+ * @param options - Store, TTL and key derivation.
+ * @returns A handler resolving to `true` if it ran, `false` for a duplicate.
+ *
+ * @example
+ * ```ts
+ * const onConversion = withDeduplication(async (payload: WebhookEventPayload<'conversion'>) => {
+ *   await credit(payload.data.visitor_id, payload.data.revenue_cents);
+ * });
+ * ```
+ */
+export function withDeduplication<P extends WebhookPayload>(
+  handler: (payload: P) => unknown,
+  options: WebhookDedupeOptions = {},
+): (payload: P) => Promise<boolean> {
+  const store = options.store ?? new MemoryWebhookEventStore();
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  const keyOf = options.key ?? webhookEventKey;
+
+  return async (payload) => {
+    const key = await keyOf(payload);
+    if (!(await store.claim(key, ttlMs))) return false;
+
+    try {
+      await handler(payload);
+    } catch (err) {
+      await store.release(key);
+      throw err;
+    }
+    return true;
+  };
+}
+
+/**
+ * Derive the default de-duplication key of a webhook event.
+ *
+ * @param payload - The webhook payload.
+ * @returns `<event>:<timestamp>:<SHA-256 of data, hex>`.
+ */
+export async function webhookEventKey(payload: WebhookPayload): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(JSON.stringify(payload.data) ?? ''),
+  );
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0'));
+  return `${payload.event}:${payload.timestamp}:${hex.join('')}`;
+}
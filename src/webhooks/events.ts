@@ -0,0 +1,29 @@
+import type { WebhookEventPayload, WebhookEventType } from '../types.js';
+
+/**
+ * Check whether a webhook payload is of the given event type, narrowing its `data`.
+ *
+ * @param payload - A parsed webhook payload (or any value).
+ * @param event - The event type to check for, e.g. `WebhookEvents.LINK_CREATED`.
+ * @returns `true` if `payload` is a webhook payload for `event`.
+ *
+ * @example
+ * ```ts
+ * const payload = await constructWebhookEvent(rawBody, headers, secret);
+ *
+ * if (isWebhookEvent(payload, WebhookEvents.DOMAIN_VERIFIED)) {
+ *   await enableDomain(payload.data.domain); // data: Domain
+ * }
+ * ```
+ */
+export function isWebhookEvent<E extends WebhookEventType>(
+  payload: unknown,
+  event: E,
+): payload is WebhookEventPayload<E> {
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    (payload as { event?: unknown }).event === event &&
+    'data' in payload
+  );
+}
@@ -0,0 +1,209 @@
+import { WebhookSignatureError } from '../errors.js';
+import { WebhookEventCategories } from '../types.js';
+import type {
+  NodeWebhookRequest,
+  NodeWebhookResponse,
+  WebhookEventHandler,
+  WebhookHandler,
+  WebhookHandlerOptions,
+  WebhookHandlerResult,
+  WebhookHeaders,
+  WebhookPayload,
+} from '../types.js';
+import { withDeduplication } from './dedupe.js';
+import { constructWebhookEvent } from './signature.js';
+
+/** Category of each known event, used to resolve `'<category>.*'` handlers. */
+const EVENT_CATEGORIES = new Map<string, string>(
+  Object.entries(WebhookEventCategories).flatMap(([category, events]) =>
+    events.map((event): [string, string] => [event, category]),
+  ),
+);
+
+/**
+ * Create a handler that verifies, parses and dispatches QCK webhook deliveries.
+ *
+ * @description Each delivery is verified with {@link constructWebhookEvent} and
+ * routed to the handler for its event type, else its category wildcard
+ * (`'links.*'`), else `fallback`. Responses follow QCK's delivery semantics:
+ * `200` once handled (or if no handler matches), `400` for deliveries that fail
+ * verification (not retried), and `500` if a handler throws, so QCK redelivers.
+ * Events that were already processed are acknowledged without running handlers
+ * again (see {@link WebhookHandlerOptions.dedupe}).
+ *
+ * @param options - Signing secret(s), event handlers and hooks.
+ * @returns A handler with adapters for Fetch, Node `http`, and Express/Connect.
+ *
+ * @example
+ * ```ts
+ * const webhooks = createWebhookHandler({
+ *   secret: process.env.QCK_WEBHOOK_SECRET!,
+ *   handlers: {
+ *     'link.created': async ({ data }) => indexLink(data),
+ *     'billing.*': async ({ event, data }) => syncPlan(event, data.plan),
+ *   },
+ *   onError: (err) => logger.warn(err),
+ * });
+ *
+ * // Edge / Fetch runtimes
+ * export const POST = webhooks.fetch;
+ * // Node http
+ * http.createServer(webhooks.node);
+ * // Express (before any JSON body parser)
+ * app.post('/webhooks/qck', webhooks.middleware);
+ * ```
+ */
+export function createWebhookHandler(options: WebhookHandlerOptions): WebhookHandler {
+  const { secret, handlers, fallback, onError } = options;
+
+  function resolveHandler(event: string): ((payload: WebhookPayload) => unknown) | undefined {
+    const routes = handlers as Record<string, WebhookEventHandler | undefined>;
+    const category = EVENT_CATEGORIES.get(event);
+    const handler = routes[event] ?? (category ? routes[`${category}.*`] : undefined);
+    return (handler as ((payload: WebhookPayload) => unknown) | undefined) ?? fallback;
+  }
+
+  const dispatch = (payload: WebhookPayload): unknown => resolveHandler(payload.event)?.(payload);
+  const runOnce =
+    options.dedupe === false
+      ? async (payload: WebhookPayload) => {
+          await dispatch(payload);
+          return true;
+        }
+      : withDeduplication(dispatch, options.dedupe);
+
+  async function handle(
+    rawBody: string | Uint8Array | ArrayBuffer,
+    headers: WebhookHeaders,
+  ): Promise<WebhookHandlerResult> {
+    let payload: WebhookPayload;
+    try {
+      payload = await constructWebhookEvent(rawBody, headers, secret, options);
+    } catch (err) {
+      onError?.(err, null);
+      const reason = err instanceof WebhookSignatureError ? err.reason : 'invalid_request';
+      return {
+        status: 400,
+        body: { received: false, error: reason },
+        event: null,
+        handled: false,
+        duplicate: false,
+      };
+    }
+
+    const result = { event: payload.event, handled: false, duplicate: false };
+    if (!resolveHandler(payload.event)) {
+      return { ...result, status: 200, body: { received: true } };
+    }
+
+    let ran: boolean;
+    try {
+      ran = await runOnce(payload);
+    } catch (err) {
+      onError?.(err, payload);
+      return {
+        status: 500,
+        body: { received: false, error: 'handler_failed' },
+        event: payload.event,
+        handled: true,
+        duplicate: false,
+      };
+    }
+
+    return { ...result, status: 200, body: { received: true }, handled: ran, duplicate: !ran };
+  }
+
+  async function handleFetch(request: Request): Promise<Response> {
+    const result =
+      request.method === 'POST'
+        ? await handle(await request.arrayBuffer(), request.headers)
+        : methodNotAllowed();
+    const headers = new Headers({ 'Content-Type': 'application/json' });
+    if (result.status === 405) headers.set('Allow', 'POST');
+    return new Response(JSON.stringify(result.body), { status: result.status, headers });
+  }
+
+  async function handleNode(req: NodeWebhookRequest, res: NodeWebhookResponse): Promise<void> {
+    const result =
+      req.method === 'POST'
+        ? await handle(await readNodeBody(req), req.headers)
+        : methodNotAllowed();
+    writeNodeResponse(res, result);
+  }
+
+  function middleware(
+    req: NodeWebhookRequest,
+    res: NodeWebhookResponse,
+    next: (error?: unknown) => void,
+  ): void {
+    if (req.body !== undefined && !isRawBody(req.body) && !isEmptyObject(req.body)) {
+      next(
+        new Error(
+          'QCK webhook middleware received an already-parsed body. Mount it before ' +
+            "express.json(), or use express.raw({ type: 'application/json' }).",
+        ),
+      );
+      return;
+    }
+    handleNode(req, res).catch(next);
+  }
+
+  return { handle, fetch: handleFetch, node: handleNode, middleware };
+}
+
+/** @returns The response for non-POST requests. */
+function methodNotAllowed(): WebhookHandlerResult {
+  return {
+    status: 405,
+    body: { received: false, error: 'method_not_allowed' },
+    event: null,
+    handled: false,
+    duplicate: false,
+  };
+}
+
+/**
+ * Read the raw body of a Node request, preferring a raw body stored by
+ * body-parsing middleware over reading the stream.
+ */
+async function readNodeBody(req: NodeWebhookRequest): Promise<string | Uint8Array> {
+  if (isRawBody(req.body)) return req.body;
+
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for await (const chunk of req) {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  }
+
+  const body = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+/** Write a handler result as a JSON response. */
+function writeNodeResponse(res: NodeWebhookResponse, result: WebhookHandlerResult): void {
+  res.statusCode = result.status;
+  res.setHeader('Content-Type', 'application/json');
+  if (result.status === 405) res.setHeader('Allow', 'POST');
+  res.end(JSON.stringify(result.body));
+}
+
+/** @returns Whether a body parser stored the raw body (a string or `Buffer`). */
+function isRawBody(body: unknown): body is string | Uint8Array {
+  return typeof body === 'string' || body instanceof Uint8Array;
+}
+
+/**
+ * @returns Whether the value is `{}`, which Express body parsers set when they
+ *   skip a request, leaving the stream unread.
+ */
+function isEmptyObject(body: unknown): boolean {
+  return typeof body === 'object' && body !== null && Object.keys(body).length === 0;
+}
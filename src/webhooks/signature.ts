@@ -0,0 +1,282 @@
+import { WebhookSignatureError } from '../errors.js';
+import type {
+  VerifyWebhookOptions,
+  WebhookEventPayload,
+  WebhookHeaders,
+  WebhookPayload,
+} from '../types.js';
+
+/** Header carrying the delivery timestamp and signature(s): `t=<unix seconds>,v1=<hex>`. */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-QCK-Signature';
+
+/** Default maximum age of a signed delivery in seconds (5 minutes). */
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+/**
+ * Verify that a webhook delivery was signed by QCK with one of your secrets.
+ *
+ * @description QCK signs `${timestamp}.${rawBody}` with HMAC-SHA256 using the
+ * endpoint's secret and sends `X-QCK-Signature: t=<timestamp>,v1=<hex>`.
+ * Signatures are compared in constant time, and deliveries whose timestamp is
+ * outside the tolerance window are rejected to prevent replays. During secret
+ * rotation, pass both the old and new secrets.
+ *
+ * Always verify the exact bytes received: parsing and re-serializing the JSON
+ * changes the body and breaks the signature.
+ *
+ * @param rawBody - The raw request body, exactly as received.
+ * @param headers - The request headers.
+ * @param secret - The endpoint's signing secret, or several during rotation.
+ * @param options - Timestamp tolerance.
+ * @throws {WebhookSignatureError} If the header is missing or malformed, the
+ *   timestamp is outside the tolerance, or no signature matches.
+ *
+ * @example
+ * ```ts
+ * await verifyWebhookSignature(rawBody, req.headers, [process.env.QCK_WEBHOOK_SECRET!]);
+ * ```
+ */
+export async function verifyWebhookSignature(
+  rawBody: string | Uint8Array | ArrayBuffer,
+  headers: WebhookHeaders,
+  secret: string | string[],
+  options: VerifyWebhookOptions = {},
+): Promise<void> {
+  const header = getHeader(headers, WEBHOOK_SIGNATURE_HEADER);
+  if (!header) {
+    throw new WebhookSignatureError(
+      `Missing ${WEBHOOK_SIGNATURE_HEADER} header`,
+      'missing_header',
+    );
+  }
+
+  const { timestamp, signatures } = parseSignatureHeader(header);
+  if (timestamp === null || signatures.length === 0) {
+    throw new WebhookSignatureError(
+      `Malformed ${WEBHOOK_SIGNATURE_HEADER} header`,
+      'malformed_header',
+    );
+  }
+
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  const age = Math.abs(Math.floor(Date.now() / 1000) - timestamp);
+  if (age > tolerance) {
+    throw new WebhookSignatureError(
+      `Webhook timestamp is ${age}s away from the current time (tolerance ${tolerance}s)`,
+      'timestamp_outside_tolerance',
+    );
+  }
+
+  const signedPayload = concat(encoder.encode(`${timestamp}.`), toBytes(rawBody));
+  for (const candidate of Array.isArray(secret) ? secret : [secret]) {
+    const expected = await hmacSha256(candidate, signedPayload);
+    if (signatures.some((signature) => timingSafeEqual(expected, signature))) {
+      return;
+    }
+  }
+
+  throw new WebhookSignatureError(
+    'No webhook signature matches the configured secret(s)',
+    'no_matching_signature',
+  );
+}
+
+/**
+ * Verify a webhook delivery and parse it into a typed payload.
+ *
+ * @description The result is a union discriminated on `event`: switch on it (or use
+ * {@link isWebhookEvent}) to narrow `data` to the event's shape.
+ *
+ * @param rawBody - The raw request body, exactly as received.
+ * @param headers - The request headers.
+ * @param secret - The endpoint's signing secret, or several during rotation.
+ * @param options - Timestamp tolerance.
+ * @returns The verified webhook payload.
+ * @throws {WebhookSignatureError} If verification fails or the body is not a webhook payload.
+ *
+ * @example
+ * ```ts
+ * app.post('/webhooks/qck', express.raw({ type: 'application/json' }), async (req, res) => {
+ *   try {
+ *     const event = await constructWebhookEvent(req.body, req.headers, secret);
+ *     switch (event.event) {
+ *       case WebhookEvents.LINK_CREATED:
+ *         console.log(event.data.short_url);
+ *         break;
+ *     }
+ *     res.sendStatus(200);
+ *   } catch (err) {
+ *     if (err instanceof WebhookSignatureError) return res.sendStatus(400);
+ *     throw err;
+ *   }
+ * });
+ * ```
+ */
+export async function constructWebhookEvent(
+  rawBody: string | Uint8Array | ArrayBuffer,
+  headers: WebhookHeaders,
+  secret: string | string[],
+  options?: VerifyWebhookOptions,
+): Promise<WebhookEventPayload> {
+  await verifyWebhookSignature(rawBody, headers, secret, options);
+
+  let payload: unknown;
+  try {
+    const text = typeof rawBody === 'string' ? rawBody : new TextDecoder().decode(rawBody);
+    payload = JSON.parse(text);
+  } catch {
+    throw new WebhookSignatureError('Webhook body is not valid JSON', 'invalid_payload');
+  }
+
+  if (
+    typeof payload !== 'object' ||
+    payload === null ||
+    typeof (payload as WebhookPayload).event !== 'string' ||
+    typeof (payload as WebhookPayload).timestamp !== 'string'
+  ) {
+    throw new WebhookSignatureError(
+      'Webhook body is not a QCK webhook payload',
+      'invalid_payload',
+    );
+  }
+
+  return payload as WebhookEventPayload;
+}
+
+/**
+ * Compute the `X-QCK-Signature` header value for a payload, as QCK does.
+ * Use it to send signed test deliveries to your own webhook handler.
+ *
+ * @param rawBody - The exact body that will be sent.
+ * @param secret - The signing secret.
+ * @param timestamp - Unix time in seconds to sign. Defaults to now.
+ * @returns The header value, `t=<timestamp>,v1=<hex signature>`.
+ *
+ * @example
+ * ```ts
+ * const body = JSON.stringify({ event: 'link.created', timestamp: new Date().toISOString(), data });
+ * await fetch('http://localhost:3000/webhooks/qck', {
+ *   method: 'POST',
+ *   headers: { 'X-QCK-Signature': await signWebhookPayload(body, secret) },
+ *   body,
+ * });
+ * ```
+ */
+export async function signWebhookPayload(
+  rawBody: string | Uint8Array | ArrayBuffer,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000),
+): Promise<string> {
+  const signature = await hmacSha256(
+    secret,
+    concat(encoder.encode(`${timestamp}.`), toBytes(rawBody)),
+  );
+  return `t=${timestamp},v1=${toHex(signature)}`;
+}
+
+/**
+ * Read a header from a `Headers` object or a plain (case-insensitive) header record.
+ *
+ * @returns The header value (the first one if repeated), or `null` if absent.
+ */
+function getHeader(headers: WebhookHeaders, name: string): string | null {
+  if (headers instanceof Headers) {
+    return headers.get(name);
+  }
+
+  const lower = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === lower && value !== undefined) {
+      return Array.isArray(value) ? (value[0] ?? null) : value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse `t=<timestamp>,v1=<hex>[,v1=<hex>...]`. Unknown schemes are ignored.
+ *
+ * @returns The timestamp (or `null` if missing) and the decoded `v1` signatures.
+ */
+function parseSignatureHeader(header: string): {
+  timestamp: number | null;
+  signatures: Uint8Array[];
+} {
+  let timestamp: number | null = null;
+  const signatures: Uint8Array[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't' && /^\d+$/.test(value ?? '')) {
+      timestamp = Number(value);
+    } else if (key === 'v1' && value && /^(?:[0-9a-f]{2})+$/i.test(value)) {
+      signatures.push(fromHex(value));
+    }
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * @returns The HMAC-SHA256 of `data` keyed with `secret`.
+ */
+async function hmacSha256(secret: string, data: BufferSource): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, data));
+}
+
+/**
+ * Compare two byte arrays in time independent of where they differ.
+ */
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * @returns The body as bytes (strings are UTF-8 encoded).
+ */
+function toBytes(body: string | Uint8Array | ArrayBuffer): Uint8Array {
+  if (typeof body === 'string') return encoder.encode(body);
+  return body instanceof Uint8Array ? body : new Uint8Array(body);
+}
+
+/**
+ * @returns A new array with the bytes of `a` followed by `b`.
+ */
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+/**
+ * @returns Lowercase hex encoding of the bytes.
+ */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * @returns The bytes of an even-length hex string.
+ */
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
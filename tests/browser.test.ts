@@ -0,0 +1,319 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { JourneySessionManager, QCK } from '../src/index.js';
+import { BrowserTracker } from '../src/browser/index.js';
+import { createPublicClient } from '../src/public/index.js';
+
+const LINK_ID = '11111111-1111-4111-8111-111111111111';
+
+// ── Helpers ──
+
+function ingestFetch(statuses: number[] = []) {
+  return vi.fn().mockImplementation(() => {
+    const status = statuses.shift() ?? 202;
+    const ok = status < 300;
+    return Promise.resolve({
+      ok,
+      status,
+      headers: new Headers(),
+      json: () =>
+        Promise.resolve(
+          ok
+            ? { success: true, data: null }
+            : { success: false, data: null, error: { code: 'ERROR', message: 'Failed' } },
+        ),
+    });
+  });
+}
+
+function sentEvents(fetchMock: ReturnType<typeof vi.fn>) {
+  return fetchMock.mock.calls.flatMap(([, init]) =>
+    JSON.parse((init as RequestInit).body as string).events,
+  ) as Array<Record<string, unknown>>;
+}
+
+function journey(fetchMock: ReturnType<typeof vi.fn>) {
+  return new QCK({
+    apiKey: 'qck_test',
+    baseUrl: 'https://api.test.com',
+    fetch: fetchMock,
+    retries: 0,
+  }).journey;
+}
+
+function setVisibility(state: 'visible' | 'hidden') {
+  Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+// ── Tests ──
+
+describe('BrowserTracker', () => {
+  let tracker: BrowserTracker | undefined;
+
+  beforeEach(() => {
+    localStorage.clear();
+    history.replaceState(null, '', `/landing?qck_link=${LINK_ID}`);
+    document.title = 'Landing';
+    setVisibility('visible');
+  });
+
+  afterEach(async () => {
+    await tracker?.stop();
+    tracker = undefined;
+    vi.useRealTimers();
+  });
+
+  it('emits a page view attributed to the qck_link parameter', async () => {
+    const fetchMock = ingestFetch();
+    tracker = new BrowserTracker(journey(fetchMock), { flushIntervalMs: 0 });
+    await tracker.flush();
+
+    const [event] = sentEvents(fetchMock);
+    expect(event).toEqual({
+      link_id: LINK_ID,
+      visitor_id: tracker.visitorId,
+      session_id: tracker.sessionId,
+      event_type: 'page_view',
+      page_url: `${location.origin}/landing?qck_link=${LINK_ID}`,
+      page_title: 'Landing',
+      timestamp: expect.any(String),
+    });
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.test.com/journey/events');
+  });
+
+  it('keeps the link, visitor and session across page loads', async () => {
+    const first = new BrowserTracker(journey(ingestFetch()), { flushIntervalMs: 0 });
+    await first.stop();
+
+    history.replaceState(null, '', '/pricing');
+    tracker = new BrowserTracker(journey(ingestFetch()), { flushIntervalMs: 0 });
+    await tracker.flush();
+
+    expect(tracker.linkId).toBe(LINK_ID);
+    expect(tracker.visitorId).toBe(first.visitorId);
+    expect(tracker.sessionId).toBe(first.sessionId);
+  });
+
+  it('starts a new session after the inactivity timeout', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-01-01T00:00:00Z') });
+    tracker = new BrowserTracker(journey(ingestFetch()), {
+      flushIntervalMs: 0,
+      sessionTimeoutMs: 60_000,
+    });
+    await tracker.flush();
+    const firstSession = tracker.sessionId;
+    expect(firstSession).toEqual(expect.any(String));
+
+    vi.setSystemTime(new Date('2026-01-01T00:00:59Z'));
+    tracker.track('still_here');
+    await tracker.flush();
+    expect(tracker.sessionId).toBe(firstSession);
+
+    vi.setSystemTime(new Date('2026-01-01T00:02:00Z'));
+    tracker.track('came_back');
+    await tracker.flush();
+    expect(tracker.sessionId).not.toBe(firstSession);
+  });
+
+  it('starts a new session when the visitor arrives through another link', async () => {
+    const first = new BrowserTracker(journey(ingestFetch()), { flushIntervalMs: 0 });
+    await first.stop();
+
+    history.replaceState(null, '', '/landing?qck_link=22222222-2222-4222-8222-222222222222');
+    tracker = new BrowserTracker(journey(ingestFetch()), { flushIntervalMs: 0 });
+    await tracker.flush();
+
+    expect(tracker.visitorId).toBe(first.visitorId);
+    expect(tracker.sessionId).not.toBe(first.sessionId);
+  });
+
+  it('splits sessions with the session manager it is given', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-01-01T23:59:00-05:00') });
+    const fetchMock = ingestFetch();
+    let next = 0;
+    const sessions = new JourneySessionManager({
+      timeZone: 'America/New_York',
+      generateId: () => `session-${++next}`,
+    });
+    tracker = new BrowserTracker(journey(fetchMock), { flushIntervalMs: 0, sessions });
+
+    vi.setSystemTime(new Date('2026-01-02T00:01:00-05:00'));
+    tracker.track('after_midnight');
+    await tracker.flush();
+
+    expect(sentEvents(fetchMock).map((e) => [e.event_type, e.session_id])).toEqual([
+      ['page_view', 'session-1'],
+      ['custom', 'session-2'],
+    ]);
+    expect(tracker.sessionId).toBe('session-2');
+    expect(await sessions.current(tracker.visitorId)).toMatchObject({ id: 'session-2' });
+  });
+
+  it('tracks single-page navigation with time on the previous page', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-01-01T00:00:00Z') });
+    const fetchMock = ingestFetch();
+    tracker = new BrowserTracker(journey(fetchMock), { flushIntervalMs: 0 });
+
+    vi.setSystemTime(new Date('2026-01-01T00:00:42Z'));
+    history.pushState(null, '', '/pricing');
+    history.replaceState(null, '', '/pricing');
+    await tracker.flush();
+
+    expect(sentEvents(fetchMock).map((e) => [e.event_type, e.page_url, e.time_on_page])).toEqual([
+      ['page_view', `${location.origin}/landing?qck_link=${LINK_ID}`, undefined],
+      ['time_on_page', `${location.origin}/landing?qck_link=${LINK_ID}`, 42],
+      ['page_view', `${location.origin}/pricing`, undefined],
+    ]);
+  });
+
+  it('restores history methods on stop', async () => {
+    const pushState = history.pushState;
+    tracker = new BrowserTracker(journey(ingestFetch()), { flushIntervalMs: 0 });
+    expect(history.pushState).not.toBe(pushState);
+
+    await tracker.stop();
+    expect(history.pushState).toBe(pushState);
+  });
+
+  it('emits each scroll depth threshold once per page view', async () => {
+    const fetchMock = ingestFetch();
+    Object.defineProperty(document.documentElement, 'scrollHeight', {
+      value: 4000,
+      configurable: true,
+    });
+    Object.defineProperty(window, 'innerHeight', { value: 1000, configurable: true });
+    tracker = new BrowserTracker(journey(fetchMock), {
+      flushIntervalMs: 0,
+      pageViews: false,
+      timeOnPage: false,
+    });
+
+    for (const y of [1000, 1000, 3000]) {
+      Object.defineProperty(window, 'scrollY', { value: y, configurable: true });
+      window.dispatchEvent(new Event('scroll'));
+    }
+    await tracker.flush();
+
+    expect(sentEvents(fetchMock).map((e) => e.scroll_percent)).toEqual([25, 50, 75, 100]);
+  });
+
+  it('sends queued events with keepalive when the page is hidden', async () => {
+    const fetchMock = ingestFetch();
+    tracker = new BrowserTracker(journey(fetchMock), { flushIntervalMs: 0 });
+    tracker.track('cta_click', { button: 'hero' });
+
+    setVisibility('hidden');
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect((init as RequestInit).keepalive).toBe(true);
+    expect(sentEvents(fetchMock).map((e) => e.event_type)).toEqual([
+      'page_view',
+      'custom',
+      'time_on_page',
+    ]);
+  });
+
+  it('sends at most 64 KiB with keepalive on hide and keeps the rest for the next page', async () => {
+    const fetchMock = ingestFetch();
+    const options = { flushIntervalMs: 0, pageViews: false, timeOnPage: false } as const;
+    const first = new BrowserTracker(journey(fetchMock), options);
+    for (let i = 0; i < 100; i++) first.track('viewed_item', { i, note: 'x'.repeat(1000) });
+
+    setVisibility('hidden');
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+
+    const body = (fetchMock.mock.calls[0][1] as RequestInit).body as string;
+    expect(new TextEncoder().encode(body).length).toBeLessThanOrEqual(64 * 1024);
+    const sent = sentEvents(fetchMock).length;
+    expect(sent).toBeLessThan(100);
+    expect(JSON.parse(localStorage.getItem('qck_queue')!)).toHaveLength(100 - sent);
+
+    // The page is closed; the next one sends what was left.
+    const nextFetch = ingestFetch();
+    tracker = new BrowserTracker(journey(nextFetch), options);
+    expect(localStorage.getItem('qck_queue')).toBeNull();
+    await tracker.flush();
+    expect(sentEvents(nextFetch).map((e) => (e.properties as { i: number }).i)).toEqual(
+      Array.from({ length: 100 - sent }, (_, i) => sent + i),
+    );
+    await first.stop();
+  });
+
+  it('forgets stored events once the page is visible again', async () => {
+    const fetchMock = ingestFetch([503, 503]);
+    tracker = new BrowserTracker(journey(fetchMock), { flushIntervalMs: 0, onError: () => {} });
+
+    setVisibility('hidden');
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    await tracker.flush();
+    expect(localStorage.getItem('qck_queue')).not.toBeNull();
+
+    setVisibility('visible');
+    expect(localStorage.getItem('qck_queue')).toBeNull();
+  });
+
+  it('re-queues events when the API is unreachable', async () => {
+    const fetchMock = ingestFetch([503]);
+    const onError = vi.fn();
+    tracker = new BrowserTracker(journey(fetchMock), { flushIntervalMs: 0, onError });
+
+    await tracker.flush();
+    await tracker.flush();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sentEvents(fetchMock)[1].event_type).toBe('page_view');
+  });
+
+  it('drops batches the public client rejects as invalid', async () => {
+    const fetchMock = ingestFetch([400]);
+    const onError = vi.fn();
+    const qck = createPublicClient({
+      publishableKey: 'qck_pk_test',
+      baseUrl: 'https://api.test.com',
+      fetch: fetchMock,
+      retries: 0,
+    });
+    tracker = new BrowserTracker(qck.journey, { flushIntervalMs: 0, onError });
+
+    await tracker.flush();
+    tracker.track('cta_click');
+    await tracker.flush();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sentEvents(fetchMock).map((e) => e.event_type)).toEqual(['page_view', 'custom']);
+  });
+
+  it('drops rejected batches whose error comes from another copy of the SDK', async () => {
+    // Shaped like a QCKError from a separately bundled copy, so `instanceof` fails.
+    const rejected = Object.assign(new Error('Invalid event'), {
+      name: 'ValidationError',
+      isRetryable: false,
+    });
+    const ingest = vi.fn().mockRejectedValueOnce(rejected).mockResolvedValue(undefined);
+    tracker = new BrowserTracker({ ingest }, { flushIntervalMs: 0, onError: () => {} });
+
+    await tracker.flush();
+    tracker.track('cta_click');
+    await tracker.flush();
+
+    expect(ingest).toHaveBeenCalledTimes(2);
+    expect(ingest.mock.calls[1][0].events.map((e: { event_type: string }) => e.event_type)).toEqual(
+      ['custom'],
+    );
+  });
+
+  it('sends nothing for visitors who did not arrive through a QCK link', async () => {
+    history.replaceState(null, '', '/landing');
+    const fetchMock = ingestFetch();
+    tracker = new BrowserTracker(journey(fetchMock), { flushIntervalMs: 0 });
+    tracker.track('cta_click');
+    await tracker.flush();
+
+    expect(tracker.linkId).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,30 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { QCK, AuthenticationError, RateLimitError, NotFoundError, ValidationError, QCKError, JourneyResource } from '../src/index.js';
+import {
+  QCK,
+  AuthenticationError,
+  PermissionDeniedError,
+  RateLimitError,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  ServerError,
+  TimeoutError,
+  NetworkError,
+  QCKError,
+  JourneyResource,
+  MemoryJourneyStorage,
+  FileJourneyStorage,
+  WebStorageJourneyStorage,
+  validateJourneyEvent,
+  defineJourneyEvents,
+  parseUserAgent,
+  isBotUserAgent,
+  enrichFromRequest,
+  JourneySessionManager,
+  CookieJourneySessionStore,
+} from '../src/index.js';
+import type { JourneyEvent, JourneyEventType } from '../src/index.js';
+import { FakeQCKApi } from '../src/testing/index.js';
 
 // ── Helpers ──
 
@@ -114,6 +139,125 @@ describe('QCK SDK', () => {
       const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
       await expect(qck.links.list()).rejects.toThrow(QCKError);
     });
+
+    it('throws PermissionDeniedError on 403 and ConflictError on 409', async () => {
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+
+      globalThis.fetch = mockFetch({ status: 403, body: apiError('FORBIDDEN', 'Upgrade plan') });
+      await expect(qck.links.list()).rejects.toThrow(PermissionDeniedError);
+
+      globalThis.fetch = mockFetch({ status: 409, body: apiError('ALIAS_TAKEN', 'Alias taken') });
+      await expect(
+        qck.links.create({ url: 'https://example.com', custom_alias: 'launch' }),
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('keeps the server error code on 403, 409 and 5xx errors', async () => {
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', retries: 0 });
+      const codeOf = async (status: number, body?: unknown) => {
+        globalThis.fetch = mockFetch({ status, body });
+        return ((await qck.links.list().catch((e: unknown) => e)) as QCKError).code;
+      };
+
+      expect(await codeOf(403, apiError('FORBIDDEN', 'Upgrade plan'))).toBe('FORBIDDEN');
+      expect(await codeOf(409, apiError('ALIAS_TAKEN', 'Alias taken'))).toBe('ALIAS_TAKEN');
+      expect(await codeOf(500, apiError('INTERNAL_ERROR', 'Broke'))).toBe('INTERNAL_ERROR');
+      expect(await codeOf(403)).toBe('PERMISSION_DENIED');
+      expect(await codeOf(409)).toBe('CONFLICT');
+      expect(await codeOf(502)).toBe('SERVER_ERROR');
+    });
+
+    it('throws ServerError on 5xx with the original status', async () => {
+      globalThis.fetch = mockFetch({ status: 500, body: apiError('INTERNAL_ERROR', 'Broke') });
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      const err = await qck.links.list().catch((e: unknown) => e);
+
+      expect(err).toBeInstanceOf(ServerError);
+      expect((err as ServerError).status).toBe(500);
+      expect((err as ServerError).isRetryable).toBe(false);
+    });
+
+    it('attaches request context and field errors', async () => {
+      globalThis.fetch = mockFetch({
+        status: 400,
+        body: {
+          success: false,
+          data: null,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request',
+            details: [{ field: 'url', message: 'Invalid URL', code: 'invalid_url' }],
+          },
+        },
+        headers: { 'X-Request-ID': 'req_123' },
+      });
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      const err = (await qck.links
+        .create({ url: 'nope' })
+        .catch((e: unknown) => e)) as ValidationError;
+
+      expect(err).toBeInstanceOf(ValidationError);
+      expect(err.method).toBe('POST');
+      expect(err.path).toBe('/links');
+      expect(err.requestId).toBe('req_123');
+      expect(err.headers?.get('X-Request-ID')).toBe('req_123');
+      expect(err.isRetryable).toBe(false);
+      expect(err.fieldErrors).toEqual([
+        { field: 'url', message: 'Invalid URL', code: 'invalid_url' },
+      ]);
+      expect(JSON.parse(JSON.stringify(err))).toMatchObject({
+        name: 'ValidationError',
+        status: 400,
+        code: 'VALIDATION_ERROR',
+        method: 'POST',
+        path: '/links',
+        requestId: 'req_123',
+        fieldErrors: [{ field: 'url' }],
+        headers: { 'x-request-id': 'req_123' },
+      });
+    });
+
+    it('throws NetworkError with the fetch error as cause', async () => {
+      const cause = new TypeError('fetch failed');
+      globalThis.fetch = vi.fn().mockRejectedValue(cause);
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', retries: 0 });
+      const err = (await qck.links.get('link-1').catch((e: unknown) => e)) as NetworkError;
+
+      expect(err).toBeInstanceOf(NetworkError);
+      expect(err.code).toBe('NETWORK_ERROR');
+      expect(err.cause).toBe(cause);
+      expect(err.isRetryable).toBe(true);
+      expect(err.toJSON()).toMatchObject({
+        method: 'GET',
+        path: '/links/link-1',
+        cause: 'fetch failed',
+      });
+    });
+
+    it('throws TimeoutError when an attempt times out', async () => {
+      globalThis.fetch = vi.fn().mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () =>
+              reject(new DOMException('The operation was aborted', 'AbortError')),
+            );
+          }),
+      );
+
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        timeout: 5,
+        retries: 0,
+      });
+
+      const err = await qck.links.list().catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(TimeoutError);
+      expect((err as TimeoutError).code).toBe('TIMEOUT');
+    });
   });
 
   describe('rate limiting', () => {
@@ -188,6 +332,298 @@ describe('QCK SDK', () => {
     });
   });
 
+  describe('retry policy', () => {
+    function failThenSucceed(failure: { status: number; headers?: Record<string, string> }) {
+      let callCount = 0;
+      const fetchMock = vi.fn().mockImplementation(() => {
+        callCount++;
+        if (callCount === 1) {
+          return Promise.resolve({
+            ok: false,
+            status: failure.status,
+            headers: new Headers(failure.headers),
+            json: () => Promise.resolve(apiError('UNAVAILABLE', 'Deploy in progress')),
+          });
+        }
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          headers: new Headers(),
+          json: () => Promise.resolve(apiSuccess({ id: 'link-1' })),
+        });
+      });
+      globalThis.fetch = fetchMock;
+      return fetchMock;
+    }
+
+    it('retries 503 responses by default', async () => {
+      const fetchMock = failThenSucceed({ status: 503 });
+
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        retryPolicy: { baseDelayMs: 1 },
+      });
+
+      const link = await qck.links.get('link-1');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(link).toEqual({ id: 'link-1' });
+    });
+
+    it('retries by the server error code it reports', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 500,
+        headers: new Headers(),
+        json: () => Promise.resolve(apiError('INTERNAL_ERROR', 'Broke')),
+      });
+      globalThis.fetch = fetchMock;
+
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        retries: 2,
+        retryPolicy: { baseDelayMs: 1, retryableErrorCodes: ['INTERNAL_ERROR'] },
+      });
+      const err = (await qck.links.get('link-1').catch((e: unknown) => e)) as ServerError;
+
+      expect(err).toBeInstanceOf(ServerError);
+      expect(err.code).toBe('INTERNAL_ERROR');
+      expect(err.isRetryable).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry 500 responses by default', async () => {
+      const fetchMock = failThenSucceed({ status: 500 });
+
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        retryPolicy: { baseDelayMs: 1 },
+      });
+
+      await expect(qck.links.get('link-1')).rejects.toThrow(QCKError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries custom statuses and reports each retry to onRetry', async () => {
+      failThenSucceed({ status: 500 });
+      const onRetry = vi.fn();
+
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        retryPolicy: { retryableStatuses: [500], baseDelayMs: 5, jitter: 'none', onRetry },
+      });
+
+      await qck.links.get('link-1');
+      expect(onRetry).toHaveBeenCalledOnce();
+      expect(onRetry.mock.calls[0][0]).toMatchObject({
+        attempt: 0,
+        method: 'GET',
+        path: '/links/link-1',
+        retryAfter: null,
+        delayMs: 5,
+      });
+      expect(onRetry.mock.calls[0][0].error.status).toBe(500);
+    });
+
+    it('uses a custom shouldRetry predicate', async () => {
+      const fetchMock = failThenSucceed({ status: 503 });
+      const shouldRetry = vi.fn().mockReturnValue(false);
+
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        retryPolicy: { shouldRetry },
+      });
+
+      await expect(qck.links.get('link-1')).rejects.toThrow(QCKError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(shouldRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ attempt: 0, method: 'GET', path: '/links/link-1' }),
+      );
+    });
+
+    it('honours Retry-After in HTTP-date form', async () => {
+      vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      try {
+        failThenSucceed({
+          status: 503,
+          headers: { 'Retry-After': 'Thu, 01 Jan 2026 00:00:03 GMT' },
+        });
+        const onRetry = vi.fn();
+
+        const qck = new QCK({
+          apiKey: 'qck_test',
+          baseUrl: 'https://api.test.com',
+          retryPolicy: { onRetry },
+        });
+
+        const promise = qck.links.get('link-1');
+        await vi.advanceTimersByTimeAsync(3_000);
+        await promise;
+
+        expect(onRetry.mock.calls[0][0]).toMatchObject({ retryAfter: 3, delayMs: 3_000 });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('does not retry beyond the configured retries', async () => {
+      globalThis.fetch = mockFetch({ status: 503, body: apiError('UNAVAILABLE', 'Down') });
+
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        retries: 2,
+        retryPolicy: { baseDelayMs: 1, jitter: 'decorrelated' },
+      });
+
+      await expect(qck.links.list()).rejects.toThrow(QCKError);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('client-side throttling', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('tracks the budget reported by rate-limit headers', async () => {
+      globalThis.fetch = mockFetch({
+        status: 200,
+        body: apiSuccess({ id: '1' }),
+        headers: {
+          'X-RateLimit-Limit': '100',
+          'X-RateLimit-Remaining': '42',
+          'X-RateLimit-Reset': '30',
+        },
+      });
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      expect(qck.rateLimit.remaining).toBeNull();
+
+      await qck.links.get('1');
+
+      const status = qck.rateLimit;
+      expect(status.limit).toBe(100);
+      expect(status.remaining).toBe(42);
+      expect(status.resetAt!.getTime()).toBeGreaterThan(Date.now());
+      expect(status.queued).toBe(0);
+      expect(status.inFlight).toBe(0);
+      expect(status.available).toBeNull();
+    });
+
+    it('refills the reported budget once the reset time has passed', async () => {
+      vi.useFakeTimers();
+      globalThis.fetch = mockFetch({
+        status: 200,
+        body: apiSuccess({ id: '1' }),
+        headers: {
+          'X-RateLimit-Limit': '100',
+          'X-RateLimit-Remaining': '0',
+          'X-RateLimit-Reset': '30',
+        },
+      });
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      await qck.links.get('1');
+      expect(qck.rateLimit.remaining).toBe(0);
+
+      vi.advanceTimersByTime(30_000);
+      expect(qck.rateLimit).toMatchObject({ limit: 100, remaining: 100, resetAt: null });
+    });
+
+    it('queues requests beyond requestsPerSecond', async () => {
+      vi.useFakeTimers();
+      const fetchMock = mockFetch({ status: 200, body: apiSuccess({ id: '1' }) });
+      globalThis.fetch = fetchMock;
+
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        rateLimit: { requestsPerSecond: 2 },
+      });
+
+      const calls = [qck.links.getStats('1'), qck.links.getStats('2'), qck.links.getStats('3')];
+      await vi.advanceTimersByTimeAsync(0);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(qck.rateLimit.queued).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(500);
+      await Promise.all(calls);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('limits the number of requests in flight', async () => {
+      let active = 0;
+      let maxActive = 0;
+      globalThis.fetch = vi.fn().mockImplementation(async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return { ok: true, status: 200, headers: new Headers(), json: async () => apiSuccess({}) };
+      });
+
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        rateLimit: { maxConcurrency: 2 },
+      });
+
+      await Promise.all([1, 2, 3, 4, 5].map((id) => qck.links.get(String(id))));
+      expect(maxActive).toBe(2);
+    });
+
+    it('pauses the queue when the server budget is exhausted', async () => {
+      vi.useFakeTimers();
+      const fetchMock = mockFetch({
+        status: 200,
+        body: apiSuccess({ id: '1' }),
+        headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '2' },
+      });
+      globalThis.fetch = fetchMock;
+
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        rateLimit: { maxConcurrency: 10 },
+      });
+
+      await qck.links.get('1');
+      const next = qck.links.get('2');
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(qck.rateLimit.pausedUntil).not.toBeNull();
+
+      await vi.advanceTimersByTimeAsync(1_000);
+      await next;
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('removes aborted requests from the queue', async () => {
+      const fetchMock = mockFetch({ status: 200, body: apiSuccess({}) });
+      globalThis.fetch = fetchMock;
+
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        rateLimit: { requestsPerMinute: 1 },
+      });
+
+      await qck.links.get('1');
+      const controller = new AbortController();
+      const queued = qck.links.get('2', { signal: controller.signal });
+      controller.abort();
+
+      await expect(queued).rejects.toMatchObject({ code: 'ABORTED' });
+      expect(qck.rateLimit.queued).toBe(0);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('response unwrapping', () => {
     it('unwraps successful API responses to return data directly', async () => {
       const linkData = {
@@ -214,63 +650,745 @@ describe('QCK SDK', () => {
     it('handles 204 No Content for delete operations', async () => {
       globalThis.fetch = mockFetch({ status: 204 });
 
-      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
-      await expect(qck.links.delete('link_123')).resolves.toBeUndefined();
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      await expect(qck.links.delete('link_123')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('response metadata', () => {
+    it('returns data with status, headers and request id from withResponse()', async () => {
+      globalThis.fetch = mockFetch({
+        status: 200,
+        body: apiSuccess({ id: 'link_1' }),
+        headers: { 'X-Request-ID': 'req_abc', 'X-RateLimit-Remaining': '99' },
+      });
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      const { data, response } = await qck.links.get('link_1').withResponse();
+
+      expect(data).toEqual({ id: 'link_1' });
+      expect(response.status).toBe(200);
+      expect(response.requestId).toBe('req_abc');
+      expect(response.headers.get('X-RateLimit-Remaining')).toBe('99');
+      expect(response.attempts).toBe(1);
+      expect(response.elapsedMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('counts retried attempts', async () => {
+      let callCount = 0;
+      globalThis.fetch = vi.fn().mockImplementation(() => {
+        callCount++;
+        return Promise.resolve(
+          callCount === 1
+            ? {
+                ok: false,
+                status: 429,
+                headers: new Headers({ 'Retry-After': '0' }),
+                json: () => Promise.resolve(apiError('RATE_LIMIT', 'Slow down')),
+              }
+            : {
+                ok: true,
+                status: 200,
+                headers: new Headers(),
+                json: () => Promise.resolve(apiSuccess([])),
+              },
+        );
+      });
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      const { response } = await qck.analytics.geo({ days: 7 }).withResponse();
+      expect(response.attempts).toBe(2);
+      expect(response.requestId).toBeNull();
+    });
+
+    it('keeps response metadata for transformed results', async () => {
+      globalThis.fetch = mockFetch({
+        status: 200,
+        body: apiSuccess({ domains: [{ id: 'd1' }], total: 1 }),
+        headers: { 'X-Request-ID': 'req_dom' },
+      });
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      const { data, response } = await qck.domains.list().withResponse();
+      expect(data).toEqual([{ id: 'd1' }]);
+      expect(response.requestId).toBe('req_dom');
+    });
+
+    it('still behaves as a regular promise', async () => {
+      globalThis.fetch = mockFetch({ status: 404, body: apiError('NOT_FOUND', 'Link not found') });
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      const promise = qck.links.get('missing');
+      expect(promise).toBeInstanceOf(Promise);
+      await expect(promise.catch((err: unknown) => (err as QCKError).code)).resolves.toBe('NOT_FOUND');
+    });
+  });
+
+  describe('pagination', () => {
+    function pagedFetch(total: number, limit: number) {
+      return vi.fn().mockImplementation((url: string) => {
+        const page = Number(new URL(url).searchParams.get('page'));
+        const start = (page - 1) * limit;
+        const length = Math.max(0, Math.min(limit, total - start));
+        const data = Array.from({ length }, (_, i) => ({ id: `item-${start + i}` }));
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          headers: new Headers(),
+          json: () => Promise.resolve(apiSuccess({ data, total, page, limit })),
+        });
+      });
+    }
+
+    it('iterates items across all pages and stops at total', async () => {
+      const fetchMock = pagedFetch(5, 2);
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+
+      const ids: string[] = [];
+      for await (const link of qck.links.listAll({ per_page: 2, tags: ['a'] })) {
+        ids.push(link.id);
+      }
+
+      expect(ids).toEqual(['item-0', 'item-1', 'item-2', 'item-3', 'item-4']);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      const url = new URL(fetchMock.mock.calls[2][0] as string);
+      expect(url.searchParams.get('page')).toBe('3');
+      expect(url.searchParams.get('per_page')).toBe('2');
+      expect(url.searchParams.get('tags')).toBe('a');
+    });
+
+    it('yields whole pages and starts from the given page', async () => {
+      const fetchMock = pagedFetch(6, 2);
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+
+      const pages: number[] = [];
+      const deliveries = qck.webhooks.listAllDeliveries('wh-1', { page: 2, limit: 2 });
+      for await (const page of deliveries.pages()) {
+        pages.push(page.page);
+      }
+
+      expect(pages).toEqual([2, 3]);
+      expect(new URL(fetchMock.mock.calls[0][0] as string).searchParams.get('limit')).toBe('2');
+    });
+
+    it('stops fetching once toArray reaches max', async () => {
+      const fetchMock = pagedFetch(100, 10);
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+
+      const events = await qck.journey.listAllEvents('link-1', { limit: 10 }).toArray({ max: 15 });
+
+      expect(events).toHaveLength(15);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('prefetches the next page while the current one is consumed', async () => {
+      const fetchMock = pagedFetch(4, 2);
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+
+      const iterator = qck.journey
+        .listAllSessions('link-1', { limit: 2 }, { prefetch: true })
+        .pages()
+        [Symbol.asyncIterator]();
+
+      await iterator.next();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await iterator.next();
+      expect((await iterator.next()).done).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops on an empty page', async () => {
+      const fetchMock = mockFetch({ body: apiSuccess({ data: [], total: 10, page: 1, limit: 20 }) });
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+
+      expect(await qck.links.listAll().toArray()).toEqual([]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('webhook health', () => {
+    const minutesAgo = (m: number) => new Date(Date.now() - m * 60_000).toISOString();
+
+    function delivery(
+      minutes: number,
+      status: string,
+      extra: { http_status?: number | null; attempt_number?: number; latencyMs?: number } = {},
+    ) {
+      const created = Date.now() - minutes * 60_000;
+      return {
+        id: `d-${minutes}`,
+        event_type: 'link.created',
+        status,
+        http_status: extra.http_status,
+        attempt_number: extra.attempt_number ?? 1,
+        created_at: new Date(created).toISOString(),
+        delivered_at:
+          extra.latencyMs === undefined ? undefined : new Date(created + extra.latencyMs).toISOString(),
+      };
+    }
+
+    function healthFetch(
+      endpoints: Array<{ id: string; is_active: boolean; consecutive_failures: number }>,
+      deliveries: Record<string, ReturnType<typeof delivery>[]>,
+    ) {
+      return vi.fn().mockImplementation((url: string) => {
+        const { pathname, searchParams } = new URL(url);
+        const match = pathname.match(/^\/webhooks\/([^/]+)(\/deliveries)?$/);
+        let data: unknown;
+        if (pathname === '/webhooks') {
+          data = endpoints.map((e) => ({ ...e, url: `https://${e.id}.test/hooks` }));
+        } else if (match?.[2]) {
+          const page = Number(searchParams.get('page'));
+          const limit = Number(searchParams.get('limit'));
+          const all = deliveries[match[1]] ?? [];
+          data = { data: all.slice((page - 1) * limit, page * limit), total: all.length, page, limit };
+        } else {
+          const endpoint = endpoints.find((e) => e.id === match?.[1]);
+          data = { ...endpoint, url: `https://${endpoint?.id}.test/hooks` };
+        }
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          headers: new Headers(),
+          json: () => Promise.resolve(apiSuccess(data)),
+        });
+      });
+    }
+
+    it('summarizes deliveries within the window', async () => {
+      const fetchMock = healthFetch([{ id: 'wh-1', is_active: true, consecutive_failures: 1 }], {
+        'wh-1': [
+          delivery(1, 'failed', { http_status: 500, attempt_number: 2 }),
+          delivery(2, 'failed', { attempt_number: 1 }),
+          delivery(3, 'success', { http_status: 200, latencyMs: 100 }),
+          delivery(4, 'success', { http_status: 200, latencyMs: 300 }),
+          delivery(5, 'pending'),
+          delivery(90, 'failed', { http_status: 500 }),
+        ],
+      });
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+
+      const health = await qck.webhooks.health('wh-1', { window: '1h' });
+
+      expect(health).toMatchObject({
+        webhookId: 'wh-1',
+        atRisk: false,
+        deliveries: 5,
+        succeeded: 2,
+        failed: 2,
+        pending: 1,
+        successRate: 0.5,
+        timeToDeliveryMs: { p50: 100, p95: 300 },
+        failuresByStatus: { '500': 1, network_error: 1 },
+        attempts: { 1: 4, 2: 1 },
+      });
+      expect(health.since.getTime()).toBeLessThanOrEqual(Date.parse(minutesAgo(59)));
+    });
+
+    it('stops paging once deliveries are older than the window', async () => {
+      const old = Array.from({ length: 250 }, (_, i) => delivery(120 + i, 'success'));
+      const fetchMock = healthFetch([{ id: 'wh-1', is_active: true, consecutive_failures: 0 }], {
+        'wh-1': [delivery(1, 'success'), ...old],
+      });
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+
+      const health = await qck.webhooks.health('wh-1', { window: '1h' });
+
+      expect(health).toMatchObject({ deliveries: 1, successRate: 1, timeToDeliveryMs: { p50: null } });
+      // The endpoint, then pages until a full page of deliveries is older than the window.
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('counts deliveries by created_at whatever order they arrive in', async () => {
+      const fetchMock = healthFetch([{ id: 'wh-1', is_active: true, consecutive_failures: 2 }], {
+        'wh-1': [
+          delivery(90, 'failed', { http_status: 500 }),
+          delivery(1, 'failed', { http_status: null }),
+          delivery(120, 'success'),
+          delivery(2, 'failed', { http_status: 502 }),
+        ],
+      });
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+
+      const health = await qck.webhooks.health('wh-1', { window: '1h' });
+
+      expect(health).toMatchObject({
+        deliveries: 2,
+        failed: 2,
+        failuresByStatus: { '502': 1, network_error: 1 },
+      });
+    });
+
+    it('reports at-risk and disabled endpoints across the account', async () => {
+      const fetchMock = healthFetch(
+        [
+          { id: 'wh-ok', is_active: true, consecutive_failures: 0 },
+          { id: 'wh-flaky', is_active: true, consecutive_failures: 6 },
+          { id: 'wh-off', is_active: false, consecutive_failures: 20 },
+        ],
+        {},
+      );
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+
+      const report = await qck.webhooks.healthReport();
+
+      expect(report.window).toBe('24h');
+      expect(report.endpoints.map((e) => e.webhookId)).toEqual(['wh-ok', 'wh-flaky', 'wh-off']);
+      expect(report.atRisk.map((e) => e.webhookId)).toEqual(['wh-flaky']);
+      expect(report.disabled.map((e) => e.webhookId)).toEqual(['wh-off']);
+      expect(report.endpoints[0].successRate).toBeNull();
+    });
+  });
+
+  describe('webhook sync', () => {
+    let api: FakeQCKApi;
+    let qck: QCK;
+
+    beforeEach(() => {
+      api = new FakeQCKApi();
+      qck = new QCK({ apiKey: 'qck_test', fetch: api.fetch, retries: 0 });
+    });
+
+    it('syncs webhook endpoints to a desired configuration', async () => {
+      const kept = await qck.webhooks.create({
+        url: 'https://a.example.com/hooks',
+        events: ['link.created'],
+      });
+      await qck.webhooks.create({ url: 'https://stale.example.com/hooks', events: ['link.created'] });
+      const desired = [
+        { url: 'https://a.example.com/hooks', events: ['link.created', 'link.deleted'] },
+        { url: 'https://b.example.com/hooks', events: ['domain.verified'], is_active: false },
+      ];
+
+      const plan = await qck.webhooks.sync(desired, { dryRun: true });
+      expect(plan.actions.map((a) => `${a.type} ${a.url}`)).toEqual([
+        'create https://b.example.com/hooks',
+        'update https://a.example.com/hooks',
+        'delete https://stale.example.com/hooks',
+      ]);
+      expect(api.webhooks).toHaveLength(2);
+
+      const result = await qck.webhooks.sync(desired);
+      expect(Object.keys(result.secrets)).toEqual(['https://b.example.com/hooks']);
+      expect(result.created[0]).toMatchObject({ is_active: false, secret: expect.any(String) });
+      expect(api.webhooks.map((w) => [w.url, w.is_active])).toEqual([
+        ['https://a.example.com/hooks', true],
+        ['https://b.example.com/hooks', false],
+      ]);
+      expect((await qck.webhooks.get(kept.id)).events).toEqual(['link.created', 'link.deleted']);
+
+      const again = await qck.webhooks.sync(desired, { prune: false });
+      expect(again.actions).toEqual([]);
+      expect(again.unchanged).toHaveLength(2);
+    });
+
+    it('rejects sync definitions with duplicate URLs', async () => {
+      const url = 'https://a.example.com/hooks';
+
+      await expect(
+        qck.webhooks.sync([
+          { url, events: ['link.created'] },
+          { url, events: ['link.deleted'] },
+        ]),
+      ).rejects.toThrow('Duplicate webhook URL');
+      expect(api.requests).toHaveLength(0);
+    });
+
+    it('derives a separate idempotency key for each change', async () => {
+      const desired = [
+        { url: 'https://a.example.com/hooks', events: ['link.created'] },
+        { url: 'https://b.example.com/hooks', events: ['link.deleted'] },
+      ];
+
+      const result = await qck.webhooks.sync(desired, {}, { idempotencyKey: 'deploy-42' });
+
+      expect(api.webhooks.map((w) => w.url)).toEqual(desired.map((d) => d.url));
+      expect(result.created.map((w) => w.url)).toEqual(desired.map((d) => d.url));
+      expect(result.secrets['https://a.example.com/hooks']).not.toBe(
+        result.secrets['https://b.example.com/hooks'],
+      );
+      const keys = api.requests
+        .filter((r) => r.method === 'POST')
+        .map((r) => r.headers.get('X-Idempotency-Key'));
+      expect(keys).toEqual([
+        'deploy-42:create:https://a.example.com/hooks',
+        'deploy-42:create:https://b.example.com/hooks',
+      ]);
+    });
+
+    it('creates inactive endpoints, then pauses them', async () => {
+      const result = await qck.webhooks.sync([
+        { url: 'https://a.example.com/hooks', events: ['link.created'], is_active: false },
+      ]);
+
+      const [created] = api.webhooks;
+      expect(api.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+        'GET /webhooks',
+        'POST /webhooks',
+        `PATCH /webhooks/${created.id}`,
+      ]);
+      expect(api.requests[2].body).toEqual({ is_active: false });
+      expect(created.is_active).toBe(false);
+      expect(result.created).toEqual([
+        expect.objectContaining({ id: created.id, is_active: false, secret: expect.any(String) }),
+      ]);
+      expect(result.secrets).toEqual({ 'https://a.example.com/hooks': result.created[0].secret });
+    });
+
+    it('keeps changes applied before a failure, so a rerun resumes', async () => {
+      await qck.webhooks.create({ url: 'https://stale.example.com/hooks', events: ['link.created'] });
+      const desired = [{ url: 'https://a.example.com/hooks', events: ['link.created'] }];
+      api.failNext({ type: 'http', status: 500 }, { method: 'DELETE' });
+
+      await expect(qck.webhooks.sync(desired)).rejects.toThrow(ServerError);
+      expect(api.webhooks.map((w) => w.url)).toEqual([
+        'https://stale.example.com/hooks',
+        'https://a.example.com/hooks',
+      ]);
+
+      const rerun = await qck.webhooks.sync(desired);
+      expect(rerun.actions.map((a) => `${a.type} ${a.url}`)).toEqual([
+        'delete https://stale.example.com/hooks',
+      ]);
+      expect(api.webhooks.map((w) => w.url)).toEqual(['https://a.example.com/hooks']);
+    });
+  });
+
+  describe('query parameters', () => {
+    it('appends query params to URL for list operations', async () => {
+      const fetchMock = mockFetch({
+        status: 200,
+        body: apiSuccess({ data: [], total: 0, page: 2, limit: 10 }),
+      });
+      globalThis.fetch = fetchMock;
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      await qck.links.list({ page: 2, limit: 10, search: 'hello' });
+
+      const [url] = fetchMock.mock.calls[0] as [string];
+      expect(url).toContain('page=2');
+      expect(url).toContain('limit=10');
+      expect(url).toContain('search=hello');
+    });
+
+    it('omits undefined query params', async () => {
+      const fetchMock = mockFetch({
+        status: 200,
+        body: apiSuccess({ data: [], total: 0, page: 1, limit: 20 }),
+      });
+      globalThis.fetch = fetchMock;
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      await qck.links.list({ page: 1 });
+
+      const [url] = fetchMock.mock.calls[0] as [string];
+      expect(url).toContain('page=1');
+      expect(url).not.toContain('search=');
+      expect(url).not.toContain('limit=');
+    });
+  });
+
+  describe('request body', () => {
+    it('sends JSON body with Content-Type header for POST', async () => {
+      const fetchMock = mockFetch({
+        status: 200,
+        body: apiSuccess({ id: 'link_new', short_code: 'xyz' }),
+      });
+      globalThis.fetch = fetchMock;
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      await qck.links.create({ url: 'https://example.com', title: 'Test' });
+
+      const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+      const headers = init.headers as Record<string, string>;
+      expect(headers['Content-Type']).toBe('application/json');
+      expect(JSON.parse(init.body as string)).toEqual({
+        url: 'https://example.com',
+        title: 'Test',
+      });
+    });
+  });
+
+  describe('custom fetch', () => {
+    it('sends JSON requests through the configured fetch instead of the global', async () => {
+      const globalMock = mockFetch({ status: 200, body: apiSuccess({}) });
+      globalThis.fetch = globalMock;
+      const customFetch = mockFetch({ status: 200, body: apiSuccess({ id: '1' }) });
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: customFetch });
+      const link = await qck.links.get('1');
+
+      expect(link).toEqual({ id: '1' });
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(globalMock).not.toHaveBeenCalled();
+    });
+
+    it('sends raw uploads through the configured fetch', async () => {
+      const customFetch = mockFetch({ status: 200, body: apiSuccess({ og_image: 'https://cdn/x.png' }) });
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: customFetch });
+      await qck.links.uploadOgImage('1', new Blob(['img'], { type: 'image/png' }));
+
+      const [url, init] = customFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('https://api.test.com/links/1/og-image');
+      expect(init.method).toBe('PUT');
+    });
+
+    it('works with an in-memory handler returning real Response objects', async () => {
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        fetch: async (url) =>
+          new Response(JSON.stringify(apiSuccess({ domains: [{ id: 'd1', domain: new URL(url).host }], total: 1 })), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+          }),
+      });
+
+      const domains = await qck.domains.list();
+      expect(domains[0].domain).toBe('api.test.com');
+    });
+  });
+
+  describe('per-call options', () => {
+    it('merges per-call headers into the request', async () => {
+      const fetchMock = mockFetch({ status: 200, body: apiSuccess([]) });
+      globalThis.fetch = fetchMock;
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      await qck.analytics.timeseries({ days: 7 }, { headers: { 'X-Trace': 't-1' } });
+
+      const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+      expect(url).toContain('days=7');
+      expect((init.headers as Record<string, string>)['X-Trace']).toBe('t-1');
+    });
+
+    it('overrides the retry count for a single call', async () => {
+      const fetchMock = mockFetch({
+        status: 429,
+        body: apiError('RATE_LIMIT', 'Too many requests'),
+        headers: { 'Retry-After': '0' },
+      });
+      globalThis.fetch = fetchMock;
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', retries: 0 });
+      await expect(qck.links.getStats('1', { retries: 2 })).rejects.toThrow(RateLimitError);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('times out using the per-call timeout', async () => {
+      globalThis.fetch = vi.fn().mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () =>
+              reject(new DOMException('aborted', 'AbortError')),
+            );
+          }),
+      );
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', retries: 0 });
+      await expect(qck.links.get('1', { timeout: 10 })).rejects.toMatchObject({ code: 'TIMEOUT' });
+    });
+
+    it('cancels an in-flight request when the caller signal aborts, without retrying', async () => {
+      const fetchMock = vi.fn().mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () =>
+              reject(new DOMException('aborted', 'AbortError')),
+            );
+          }),
+      );
+      globalThis.fetch = fetchMock;
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', retries: 3 });
+      const controller = new AbortController();
+      const pending = qck.journey.listSessions('link_1', { page: 1 }, { signal: controller.signal });
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ code: 'ABORTED' });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not send a request when the signal is already aborted', async () => {
+      const fetchMock = mockFetch({ status: 200, body: apiSuccess({}) });
+      globalThis.fetch = fetchMock;
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        qck.links.create({ url: 'https://example.com' }, { signal: controller.signal }),
+      ).rejects.toMatchObject({ code: 'ABORTED' });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('idempotency keys', () => {
+    function idempotencyKeys(fetchMock: ReturnType<typeof vi.fn>) {
+      return fetchMock.mock.calls.map(
+        ([, init]) => (init as { headers: Record<string, string> }).headers['X-Idempotency-Key'],
+      );
+    }
+
+    it('reuses one key across retries of a mutating call', async () => {
+      let callCount = 0;
+      const fetchMock = vi.fn().mockImplementation(() => {
+        callCount++;
+        if (callCount === 1) return Promise.reject(new TypeError('fetch failed'));
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          headers: new Headers(),
+          json: () => Promise.resolve(apiSuccess({ id: 'link-1' })),
+        });
+      });
+
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        fetch: fetchMock,
+        retryPolicy: { baseDelayMs: 1 },
+      });
+
+      await qck.links.create({ url: 'https://example.com' });
+      await qck.links.create({ url: 'https://example.com' });
+
+      const [first, retry, second] = idempotencyKeys(fetchMock);
+      expect(first).toMatch(/^[0-9a-f-]{36}$/);
+      expect(retry).toBe(first);
+      expect(second).not.toBe(first);
+    });
+
+    it('uses a caller-provided key', async () => {
+      const fetchMock = mockFetch({ body: apiSuccess({}) });
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+
+      await qck.conversions.track(
+        { link_id: 'link_1', visitor_id: 'v_1', name: 'purchase', revenue: 10 },
+        { idempotencyKey: 'order-123' },
+      );
+
+      expect(idempotencyKeys(fetchMock)).toEqual(['order-123']);
+    });
+
+    it('does not send a key on GET requests', async () => {
+      const fetchMock = mockFetch({ body: apiSuccess({ id: 'link-1' }) });
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+
+      await qck.links.get('link-1');
+
+      expect(idempotencyKeys(fetchMock)).toEqual([undefined]);
+    });
+  });
+
+  describe('middleware', () => {
+    it('lets onRequest add headers to outgoing requests', async () => {
+      const fetchMock = mockFetch({ status: 200, body: apiSuccess({ id: '1' }) });
+      globalThis.fetch = fetchMock;
+
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        middleware: [
+          {
+            onRequest(request) {
+              request.headers['X-Correlation-ID'] = 'corr-1';
+            },
+          },
+        ],
+      });
+      await qck.links.get('1');
+
+      const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+      const headers = init.headers as Record<string, string>;
+      expect(headers['X-Correlation-ID']).toBe('corr-1');
+      expect(headers['X-API-Key']).toBe('qck_test');
     });
-  });
 
-  describe('query parameters', () => {
-    it('appends query params to URL for list operations', async () => {
-      const fetchMock = mockFetch({
-        status: 200,
-        body: apiSuccess({ data: [], total: 0, page: 2, limit: 10 }),
+    it('runs hooks in order for every attempt, including retries', async () => {
+      let callCount = 0;
+      globalThis.fetch = vi.fn().mockImplementation(() => {
+        callCount++;
+        if (callCount === 1) {
+          return Promise.resolve({
+            ok: false,
+            status: 429,
+            headers: new Headers({ 'Retry-After': '0' }),
+            json: () => Promise.resolve(apiError('RATE_LIMIT', 'Slow down')),
+          });
+        }
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          headers: new Headers(),
+          json: () => Promise.resolve(apiSuccess({ id: '1' })),
+        });
       });
-      globalThis.fetch = fetchMock;
 
-      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
-      await qck.links.list({ page: 2, limit: 10, search: 'hello' });
+      const calls: string[] = [];
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        middleware: [
+          {
+            onRequest: (req) => { calls.push(`a:request:${req.attempt}`); },
+            onResponse: (res, req) => { calls.push(`a:response:${req.attempt}:${res.status}`); },
+            onError: (err, req) => { calls.push(`a:error:${req.attempt}:${err.code}`); },
+          },
+          {
+            onRequest: (req) => { calls.push(`b:request:${req.attempt}`); },
+          },
+        ],
+      });
+      await qck.links.get('1');
 
-      const [url] = fetchMock.mock.calls[0] as [string];
-      expect(url).toContain('page=2');
-      expect(url).toContain('limit=10');
-      expect(url).toContain('search=hello');
+      expect(calls).toEqual([
+        'a:request:0',
+        'b:request:0',
+        'a:response:0:429',
+        'a:error:0:RATE_LIMIT_ERROR',
+        'a:request:1',
+        'b:request:1',
+        'a:response:1:200',
+      ]);
     });
 
-    it('omits undefined query params', async () => {
-      const fetchMock = mockFetch({
-        status: 200,
-        body: apiSuccess({ data: [], total: 0, page: 1, limit: 20 }),
+    it('reports mapped API errors to onError', async () => {
+      globalThis.fetch = mockFetch({
+        status: 404,
+        body: apiError('NOT_FOUND', 'Link not found'),
       });
-      globalThis.fetch = fetchMock;
 
-      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
-      await qck.links.list({ page: 1 });
+      const onError = vi.fn();
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        middleware: [{ onError }],
+      });
 
-      const [url] = fetchMock.mock.calls[0] as [string];
-      expect(url).toContain('page=1');
-      expect(url).not.toContain('search=');
-      expect(url).not.toContain('limit=');
+      await expect(qck.links.get('missing')).rejects.toThrow(NotFoundError);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(NotFoundError);
     });
-  });
 
-  describe('request body', () => {
-    it('sends JSON body with Content-Type header for POST', async () => {
-      const fetchMock = mockFetch({
-        status: 200,
-        body: apiSuccess({ id: 'link_new', short_code: 'xyz' }),
-      });
+    it('applies to raw uploads', async () => {
+      const fetchMock = mockFetch({ status: 200, body: apiSuccess({ og_image: 'https://cdn/x.png' }) });
       globalThis.fetch = fetchMock;
 
-      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
-      await qck.links.create({ url: 'https://example.com', title: 'Test' });
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        middleware: [{ onRequest: (req) => { req.headers['X-Audit'] = 'yes'; } }],
+      });
+      await qck.links.uploadOgImage('1', new Uint8Array([1, 2, 3]));
 
       const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
       const headers = init.headers as Record<string, string>;
-      expect(headers['Content-Type']).toBe('application/json');
-      expect(JSON.parse(init.body as string)).toEqual({
-        url: 'https://example.com',
-        title: 'Test',
-      });
+      expect(headers['X-Audit']).toBe('yes');
+      expect(headers['Content-Type']).toBe('application/octet-stream');
     });
   });
 
@@ -306,6 +1424,70 @@ describe('QCK SDK', () => {
       expect(body.events[0].event_type).toBe('page_view');
     });
 
+    it('rejects invalid events before sending, naming each by position', async () => {
+      const fetchMock = mockFetch({ status: 204 });
+      globalThis.fetch = fetchMock;
+
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+      const error = await qck.journey
+        .ingest({
+          events: [
+            { link_id: 'l', visitor_id: 'v', event_type: 'page_view', page_url: '/' },
+            { link_id: 'l', visitor_id: 'v', event_type: 'scroll_depth', page_url: '/' },
+            {
+              link_id: 'l',
+              visitor_id: 'v',
+              event_type: 'scroll_depth',
+              page_url: '/',
+              scroll_percent: 140,
+            },
+          ] as JourneyEvent[],
+        })
+        .catch((err: unknown) => err);
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).fieldErrors).toEqual([
+        { field: 'events.1.scroll_percent', message: 'must be a number from 0 to 100' },
+        { field: 'events.2.scroll_percent', message: 'must be a number from 0 to 100' },
+      ]);
+      expect((error as ValidationError).message).toBe(
+        'Invalid journey event: events.1.scroll_percent must be a number from 0 to 100 (and 1 more)',
+      );
+    });
+
+    it('validates fields required by each event type', () => {
+      const base = { link_id: 'l', visitor_id: 'v', page_url: '/' };
+
+      expect(validateJourneyEvent({ ...base, event_type: 'time_on_page', time_on_page: 12 })).toEqual(
+        [],
+      );
+      expect(validateJourneyEvent({ ...base, event_type: 'custom' }, 4)).toEqual([
+        { index: 4, field: 'event_name', message: 'is required' },
+      ]);
+      expect(
+        validateJourneyEvent({ ...base, event_type: 'conversion', revenue_cents: 49.99 }),
+      ).toEqual([
+        { index: 0, field: 'conversion_name', message: 'is required' },
+        { index: 0, field: 'revenue_cents', message: 'must be an integer number of cents' },
+      ]);
+      expect(
+        validateJourneyEvent({ event_type: 'click', page_url: '/', timestamp: 'yesterday' }),
+      ).toEqual([
+        { index: 0, field: 'link_id', message: 'is required' },
+        { index: 0, field: 'visitor_id', message: 'is required' },
+        {
+          index: 0,
+          field: 'event_type',
+          message: 'must be one of page_view, scroll_depth, time_on_page, custom, conversion',
+        },
+        { index: 0, field: 'timestamp', message: 'must be an ISO 8601 date-time' },
+      ]);
+      expect(validateJourneyEvent(null)).toEqual([
+        { index: 0, field: 'event', message: 'must be an object' },
+      ]);
+    });
+
     it('fetches journey summary for a link', async () => {
       const summaryData = {
         total_visitors: 150,
@@ -413,4 +1595,762 @@ describe('QCK SDK', () => {
       expect(result.data[0].event_type).toBe('page_view');
     });
   });
+
+  describe('journey batcher', () => {
+    const event = (i: number) => ({
+      link_id: 'link-1',
+      visitor_id: `v-${i}`,
+      event_type: 'page_view' as const,
+      page_url: 'https://example.com',
+    });
+
+    function ingestFetch(statuses: number[] = []) {
+      return vi.fn().mockImplementation(() => {
+        const status = statuses.shift() ?? 202;
+        const ok = status < 300;
+        return Promise.resolve({
+          ok,
+          status,
+          headers: new Headers(),
+          json: () => Promise.resolve(ok ? apiSuccess(null) : apiError('UNAVAILABLE', 'Down')),
+        });
+      });
+    }
+
+    function sentBatches(fetchMock: ReturnType<typeof vi.fn>) {
+      return fetchMock.mock.calls.map(([, init]) => {
+        const { events } = JSON.parse((init as RequestInit).body as string);
+        const headers = (init as RequestInit).headers as Record<string, string>;
+        return { size: events.length as number, key: headers['X-Idempotency-Key'] };
+      });
+    }
+
+    it('splits queued events into batches of at most 100 on flush', async () => {
+      const fetchMock = ingestFetch();
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+      const batcher = qck.journey.createBatcher({ flushIntervalMs: 0, maxBatchSize: 500 });
+
+      await batcher.add(Array.from({ length: 250 }, (_, i) => event(i)));
+      await batcher.flush();
+
+      expect(sentBatches(fetchMock).map((b) => b.size)).toEqual([100, 100, 50]);
+      expect(batcher.stats).toEqual({ queued: 0, sent: 250, dropped: 0, batches: 3, retries: 0 });
+    });
+
+    it('re-sends failed batches with the same idempotency key', async () => {
+      const fetchMock = ingestFetch([503, 503]);
+      const qck = new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        fetch: fetchMock,
+        retries: 0,
+      });
+      const metrics: unknown[] = [];
+      const batcher = qck.journey.createBatcher({
+        flushIntervalMs: 0,
+        batchRetryDelayMs: 0,
+        onMetric: (m) => metrics.push(m),
+      });
+
+      await batcher.track({ link_id: 'link-1', visitor_id: 'v', name: 'purchase', revenue: 9.99 });
+      await batcher.flush();
+
+      const batches = sentBatches(fetchMock);
+      expect(batches).toHaveLength(3);
+      expect(new Set(batches.map((b) => b.key)).size).toBe(1);
+      expect(metrics).toEqual([{ type: 'sent', count: 1, attempts: 3 }]);
+      expect(batcher.stats.retries).toBe(2);
+    });
+
+    it('drops batches rejected with non-retryable errors', async () => {
+      const fetchMock = ingestFetch([400]);
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+      const metrics: Array<{ type: string; reason?: string; error?: unknown }> = [];
+      const batcher = qck.journey.createBatcher({
+        flushIntervalMs: 0,
+        onMetric: (m) => metrics.push(m),
+      });
+
+      await batcher.add(event(1));
+      await batcher.flush();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(metrics[0]).toMatchObject({ type: 'dropped', reason: 'failed' });
+      expect(metrics[0].error).toBeInstanceOf(ValidationError);
+    });
+
+    it('drops invalid events on their own and sends the rest', async () => {
+      const fetchMock = ingestFetch();
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+      const metrics: Array<{ type: string; count: number; reason?: string; error?: unknown }> = [];
+      const batcher = qck.journey.createBatcher({
+        flushIntervalMs: 0,
+        onMetric: (m) => metrics.push(m),
+      });
+      const badScroll = { ...event(4), event_type: 'scroll_depth', scroll_percent: 150 };
+
+      await batcher.add([event(1), event(2), event(3), badScroll as JourneyEvent]);
+      await batcher.flush();
+
+      expect(sentBatches(fetchMock).map((b) => b.size)).toEqual([3]);
+      expect(batcher.stats).toMatchObject({ sent: 3, dropped: 1 });
+      expect(metrics[0]).toMatchObject({ type: 'dropped', count: 1, reason: 'invalid' });
+      expect((metrics[0].error as ValidationError).fieldErrors).toEqual([
+        { field: 'events.3.scroll_percent', message: 'must be a number from 0 to 100' },
+      ]);
+    });
+
+    it('keeps flushing when the metrics callback throws', async () => {
+      const fetchMock = ingestFetch();
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+      const batcher = qck.journey.createBatcher({
+        flushIntervalMs: 0,
+        onMetric: () => {
+          throw new Error('metric boom');
+        },
+      });
+
+      await batcher.add(event(1));
+      await expect(batcher.flush()).resolves.toBeUndefined();
+      await batcher.add(event(2));
+      await expect(batcher.flush()).resolves.toBeUndefined();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(batcher.stats.sent).toBe(2);
+    });
+
+    it('applies the overflow policy when the queue is full', async () => {
+      const fetchMock = ingestFetch();
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+      const oldest = qck.journey.createBatcher({ flushIntervalMs: 0, maxQueueSize: 2 });
+      const newest = qck.journey.createBatcher({
+        flushIntervalMs: 0,
+        maxQueueSize: 2,
+        overflow: 'drop_newest',
+      });
+
+      await oldest.add([event(1), event(2), event(3)]);
+      await newest.add([event(1), event(2), event(3)]);
+      await oldest.flush();
+      await newest.flush();
+
+      const visitors = fetchMock.mock.calls.map(([, init]) =>
+        JSON.parse((init as RequestInit).body as string).events.map(
+          (e: { visitor_id: string }) => e.visitor_id,
+        ),
+      );
+      expect(visitors).toEqual([
+        ['v-2', 'v-3'],
+        ['v-1', 'v-2'],
+      ]);
+      expect(oldest.stats.dropped).toBe(1);
+      expect(newest.stats.dropped).toBe(1);
+    });
+
+    it('blocks adds until a flush frees space under backpressure', async () => {
+      const fetchMock = ingestFetch();
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+      const batcher = qck.journey.createBatcher({
+        flushIntervalMs: 0,
+        maxQueueSize: 2,
+        overflow: 'block',
+      });
+
+      await batcher.add([event(1), event(2), event(3)]);
+      await batcher.close();
+
+      expect(sentBatches(fetchMock).map((b) => b.size)).toEqual([2, 1]);
+      expect(batcher.stats).toMatchObject({ sent: 3, dropped: 0 });
+    });
+
+    it('flushes on the interval and drops adds after close', async () => {
+      vi.useFakeTimers();
+      try {
+        const fetchMock = ingestFetch();
+        const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com', fetch: fetchMock });
+        const batcher = qck.journey.createBatcher({ flushIntervalMs: 1000 });
+
+        await batcher.add(event(1));
+        expect(fetchMock).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+
+        await batcher.close();
+        await batcher.add(event(2));
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(batcher.stats.dropped).toBe(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('durable journey queue', () => {
+    const event = (i: number, timestamp?: string) => ({
+      link_id: 'link-1',
+      visitor_id: `v-${i}`,
+      event_type: 'page_view' as const,
+      page_url: 'https://example.com',
+      ...(timestamp ? { timestamp } : {}),
+    });
+
+    function ingestFetch(statuses: number[] = []) {
+      return vi.fn().mockImplementation(() => {
+        const status = statuses.shift() ?? 202;
+        const ok = status < 300;
+        return Promise.resolve({
+          ok,
+          status,
+          headers: new Headers(),
+          json: () => Promise.resolve(ok ? apiSuccess(null) : apiError('ERROR', 'Failed')),
+        });
+      });
+    }
+
+    function client(fetchMock: ReturnType<typeof vi.fn>) {
+      return new QCK({
+        apiKey: 'qck_test',
+        baseUrl: 'https://api.test.com',
+        fetch: fetchMock,
+        retries: 0,
+      });
+    }
+
+    function sent(fetchMock: ReturnType<typeof vi.fn>) {
+      return fetchMock.mock.calls.map(([, init]) => ({
+        events: JSON.parse((init as RequestInit).body as string).events as Array<{
+          visitor_id: string;
+          timestamp: string;
+        }>,
+        key: ((init as RequestInit).headers as Record<string, string>)['X-Idempotency-Key'],
+      }));
+    }
+
+    it('keeps events through an outage and replays them in order after a restart', async () => {
+      const storage = new MemoryJourneyStorage();
+      const offline = ingestFetch([503, 503]);
+      const first = client(offline).journey.createQueue({ storage, flushIntervalMs: 0 });
+
+      await first.enqueue([event(1, '2026-01-01T00:00:00.000Z'), event(2)]);
+      await first.flush();
+      expect(first.stats).toMatchObject({ depth: 2, sent: 0, dropped: 0 });
+      expect(first.stats.lastError).toBeInstanceOf(ServerError);
+      await first.close();
+
+      const online = ingestFetch();
+      const second = client(online).journey.createQueue({ storage, flushIntervalMs: 0 });
+      await second.enqueue(event(3));
+      await second.flush();
+
+      const [batch] = sent(online);
+      expect(batch.events.map((e) => e.visitor_id)).toEqual(['v-1', 'v-2', 'v-3']);
+      expect(batch.events[0].timestamp).toBe('2026-01-01T00:00:00.000Z');
+      expect(batch.events[1].timestamp).toBe(sent(offline)[0].events[1].timestamp);
+      expect(second.stats).toEqual({ depth: 0, bytes: 0, sent: 3, dropped: 0, lastError: null });
+      expect(await storage.load()).toEqual([]);
+    });
+
+    it('reuses the idempotency key when the same batch is re-sent', async () => {
+      const fetchMock = ingestFetch([503]);
+      const queue = client(fetchMock).journey.createQueue({ flushIntervalMs: 0 });
+
+      await queue.enqueue([event(1, '2026-01-01T00:00:00.000Z')]);
+      await queue.flush();
+      await queue.flush();
+
+      const [failed, retried] = sent(fetchMock);
+      expect(failed.key).toMatch(/^[0-9a-f-]{36}$/);
+      expect(retried.key).toBe(failed.key);
+      expect(queue.stats.depth).toBe(0);
+    });
+
+    it('uses a new idempotency key for an identical batch sent later', async () => {
+      const fetchMock = ingestFetch();
+      const queue = client(fetchMock).journey.createQueue({ flushIntervalMs: 0 });
+
+      for (let i = 0; i < 2; i++) {
+        await queue.enqueue([event(1, '2026-01-01T00:00:00.000Z')]);
+        await queue.flush();
+      }
+
+      const [first, second] = sent(fetchMock);
+      expect(second.events).toEqual(first.events);
+      expect(second.key).not.toBe(first.key);
+      expect(queue.stats.sent).toBe(2);
+    });
+
+    it('keeps enqueuing and draining when the metrics callback throws', async () => {
+      const fetchMock = ingestFetch([400]);
+      const queue = client(fetchMock).journey.createQueue({
+        flushIntervalMs: 0,
+        maxBatchSize: 1,
+        onMetric: () => {
+          throw new Error('metric boom');
+        },
+      });
+
+      const noName = { ...event(2), event_type: 'custom' } as JourneyEvent;
+
+      await expect(queue.enqueue([event(1), noName, event(3)])).resolves.toBeUndefined();
+      await expect(queue.flush()).resolves.toBeUndefined();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(queue.stats).toMatchObject({ depth: 0, sent: 1, dropped: 2 });
+    });
+
+    it('drops batches the API rejects', async () => {
+      const fetchMock = ingestFetch([400]);
+      const metrics: unknown[] = [];
+      const queue = client(fetchMock).journey.createQueue({
+        flushIntervalMs: 0,
+        maxBatchSize: 1,
+        onMetric: (m) => metrics.push(m),
+      });
+
+      await queue.enqueue([event(1), event(2)]);
+      await queue.flush();
+
+      expect(queue.stats).toMatchObject({ depth: 0, sent: 1, dropped: 1, lastError: null });
+      expect(metrics).toEqual([
+        { type: 'dropped', count: 1, reason: 'rejected', error: expect.any(ValidationError) },
+        { type: 'sent', count: 1 },
+      ]);
+    });
+
+    it('drops invalid events when queued and sends the rest', async () => {
+      const fetchMock = ingestFetch();
+      const storage = new MemoryJourneyStorage();
+      const metrics: unknown[] = [];
+      const queue = client(fetchMock).journey.createQueue({
+        storage,
+        flushIntervalMs: 0,
+        onMetric: (m) => metrics.push(m),
+      });
+      const noName = { ...event(3), event_type: 'custom' } as JourneyEvent;
+
+      await queue.enqueue([event(1), event(2), noName]);
+      expect((await storage.load()).map((e) => e.visitor_id)).toEqual(['v-1', 'v-2']);
+      await queue.flush();
+
+      expect(sent(fetchMock)[0].events.map((e) => e.visitor_id)).toEqual(['v-1', 'v-2']);
+      expect(queue.stats).toMatchObject({ depth: 0, sent: 2, dropped: 1 });
+      expect(metrics).toEqual([
+        { type: 'dropped', count: 1, reason: 'invalid', error: expect.any(ValidationError) },
+        { type: 'sent', count: 2 },
+      ]);
+    });
+
+    it('drops the oldest events beyond maxBytes', async () => {
+      const storage = new MemoryJourneyStorage();
+      const size = JSON.stringify(event(1, '2026-01-01T00:00:00.000Z')).length + 1;
+      const metrics: unknown[] = [];
+      const queue = client(ingestFetch()).journey.createQueue({
+        storage,
+        flushIntervalMs: 0,
+        maxBytes: size * 2,
+        onMetric: (m) => metrics.push(m),
+      });
+
+      for (const i of [1, 2, 3]) await queue.enqueue(event(i, '2026-01-01T00:00:00.000Z'));
+
+      expect(queue.stats).toMatchObject({ depth: 2, bytes: size * 2, dropped: 1 });
+      expect((await storage.load()).map((e) => e.visitor_id)).toEqual(['v-2', 'v-3']);
+      expect(metrics).toEqual([{ type: 'dropped', count: 1, reason: 'size_limit' }]);
+    });
+
+    it('stores events as JSON lines and ignores a partially written line', async () => {
+      const files = new Map<string, string>();
+      const fs = {
+        readFile: async (path: string) => {
+          const contents = files.get(path);
+          if (contents === undefined) throw Object.assign(new Error('missing'), { code: 'ENOENT' });
+          return contents;
+        },
+        appendFile: async (path: string, data: string) => {
+          files.set(path, (files.get(path) ?? '') + data);
+        },
+        writeFile: async (path: string, data: string) => {
+          files.set(path, data);
+        },
+        rename: async (from: string, to: string) => {
+          files.set(to, files.get(from) ?? '');
+          files.delete(from);
+        },
+      };
+      const storage = new FileJourneyStorage('/data/queue.jsonl', fs);
+
+      expect(await storage.load()).toEqual([]);
+      await storage.append([event(1), event(2)]);
+      files.set('/data/queue.jsonl', `${files.get('/data/queue.jsonl')}{"link_id":"li`);
+      expect((await storage.load()).map((e) => e.visitor_id)).toEqual(['v-1', 'v-2']);
+
+      await storage.replace([event(2)]);
+      expect(files.get('/data/queue.jsonl')).toBe(`${JSON.stringify(event(2))}\n`);
+      expect(files.has('/data/queue.jsonl.tmp')).toBe(false);
+    });
+
+    it('repairs a truncated JSON lines file so later appends are kept', async () => {
+      let contents = `${JSON.stringify(event(1))}\n{"link_id":"li`;
+      const fs = {
+        readFile: async () => contents,
+        appendFile: async (_path: string, data: string) => {
+          contents += data;
+        },
+        writeFile: async (_path: string, data: string) => {
+          contents = data;
+        },
+        rename: async () => undefined,
+      };
+      const storage = new FileJourneyStorage('/data/queue.jsonl', fs);
+
+      expect((await storage.load()).map((e) => e.visitor_id)).toEqual(['v-1']);
+      expect(contents).toBe(`${JSON.stringify(event(1))}\n`);
+
+      await storage.append([event(2)]);
+      expect((await storage.load()).map((e) => e.visitor_id)).toEqual(['v-1', 'v-2']);
+    });
+
+    it('stores events in Web Storage under one key', async () => {
+      const items = new Map<string, string>();
+      const webStorage = {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => void items.set(key, value),
+        removeItem: (key: string) => void items.delete(key),
+      } as Storage;
+      const storage = new WebStorageJourneyStorage('qck:queue', webStorage);
+
+      await storage.append([event(1)]);
+      await storage.append([event(2)]);
+      expect(JSON.parse(items.get('qck:queue')!)).toEqual([event(1), event(2)]);
+
+      await storage.replace([]);
+      expect(items.has('qck:queue')).toBe(false);
+      expect(await storage.load()).toEqual([]);
+    });
+  });
+
+  describe('journey event registry', () => {
+    type AppEvents = {
+      video_played: { seconds: number; video_id: string };
+      newsletter_opened: undefined;
+    };
+    const AppEvents = defineJourneyEvents<AppEvents>({
+      validate: {
+        video_played: ({ seconds }) => (seconds < 0 ? 'seconds must be 0 or more' : undefined),
+      },
+    });
+    const context = { link_id: 'link-1', visitor_id: 'v-1', page_url: '/watch' };
+
+    it('builds custom journey events from the schema', () => {
+      expect(AppEvents.event(context, 'video_played', { seconds: 12, video_id: 'intro' })).toEqual({
+        ...context,
+        event_type: 'custom',
+        event_name: 'video_played',
+        properties: { seconds: 12, video_id: 'intro' },
+      });
+      expect(AppEvents.event(context, 'newsletter_opened')).toEqual({
+        ...context,
+        event_type: 'custom',
+        event_name: 'newsletter_opened',
+      });
+
+      // @ts-expect-error unknown event name
+      AppEvents.event(context, 'videoPlayed', { seconds: 12, video_id: 'intro' });
+      // @ts-expect-error property of the wrong type
+      AppEvents.event(context, 'video_played', { seconds: '12', video_id: 'intro' });
+    });
+
+    it('forwards typed events to a tracker after running runtime checks', () => {
+      const sink = { track: vi.fn() };
+      const analytics = AppEvents.tracker(sink);
+
+      analytics.track('video_played', { seconds: 3, video_id: 'intro' });
+      analytics.track('newsletter_opened');
+      expect(sink.track.mock.calls).toEqual([
+        ['video_played', { seconds: 3, video_id: 'intro' }],
+        ['newsletter_opened', undefined],
+      ]);
+
+      expect(() => analytics.track('video_played', { seconds: -1, video_id: 'intro' })).toThrow(
+        new ValidationError('Invalid properties for journey event "video_played": seconds must be 0 or more'),
+      );
+      expect(sink.track).toHaveBeenCalledTimes(2);
+    });
+
+    it('types top event names in link summaries', async () => {
+      globalThis.fetch = mockFetch({
+        body: apiSuccess({
+          total_visitors: 1,
+          total_sessions: 1,
+          total_events: 2,
+          avg_session_duration_seconds: 10,
+          top_pages: [],
+          top_events: [{ name: 'video_played', count: 2 }],
+        }),
+      });
+      const qck = new QCK({ apiKey: 'qck_test', baseUrl: 'https://api.test.com' });
+
+      const summary = await qck.journey.getSummary<AppEvents>('link-1');
+      const name: 'video_played' | 'newsletter_opened' | JourneyEventType =
+        summary.top_events[0].name;
+      expect(name).toBe('video_played');
+    });
+  });
+
+  describe('user agent parsing', () => {
+    const IPHONE =
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1_2 like Mac OS X) AppleWebKit/605.1.15 ' +
+      '(KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1';
+    const WINDOWS_EDGE =
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) ' +
+      'Chrome/120.0.0.0 Safari/537.36 Edg/120.0.2210.91';
+    const ANDROID_TABLET =
+      'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) ' +
+      'Chrome/119.0.6045.163 Safari/537.36';
+    const GOOGLEBOT = 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
+
+    it('maps user agents onto journey device fields', () => {
+      expect(parseUserAgent(IPHONE)).toEqual({
+        device_type: 'mobile',
+        browser: 'Safari',
+        browser_version: '17.1',
+        os: 'iOS',
+        os_version: '17.1.2',
+        is_bot: false,
+      });
+      expect(parseUserAgent(WINDOWS_EDGE)).toEqual({
+        device_type: 'desktop',
+        browser: 'Edge',
+        browser_version: '120.0.2210.91',
+        os: 'Windows',
+        os_version: '10',
+        is_bot: false,
+      });
+      expect(parseUserAgent(ANDROID_TABLET)).toMatchObject({
+        device_type: 'tablet',
+        browser: 'Chrome',
+        os: 'Android',
+        os_version: '13',
+      });
+      expect(parseUserAgent(undefined)).toEqual({ device_type: 'desktop', is_bot: false });
+    });
+
+    it('flags crawlers and HTTP libraries as bots', () => {
+      expect(parseUserAgent(GOOGLEBOT)).toMatchObject({ device_type: 'bot', is_bot: true });
+      expect(isBotUserAgent('curl/8.4.0')).toBe(true);
+      expect(isBotUserAgent('python-requests/2.31.0')).toBe(true);
+      expect(isBotUserAgent('Mozilla/5.0 (X11; Linux x86_64) HeadlessChrome/120.0.0.0')).toBe(true);
+      expect(isBotUserAgent(IPHONE)).toBe(false);
+      expect(isBotUserAgent(WINDOWS_EDGE)).toBe(false);
+    });
+
+    it('enriches events from request headers without overwriting set fields', () => {
+      const event: JourneyEvent = {
+        link_id: 'link-1',
+        visitor_id: 'v-1',
+        event_type: 'page_view',
+        page_url: '/pricing',
+        device_type: 'kiosk',
+        properties: { plan: 'pro' },
+      };
+
+      const enriched = enrichFromRequest(event, {
+        userAgent: IPHONE,
+        acceptLanguage: 'fr;q=0.8, en-US, *;q=0.1',
+      });
+
+      expect(enriched).toEqual({
+        ...event,
+        browser: 'Safari',
+        browser_version: '17.1',
+        os: 'iOS',
+        os_version: '17.1.2',
+        properties: { plan: 'pro', language: 'en-US' },
+      });
+      expect(event).not.toHaveProperty('browser');
+      expect(enrichFromRequest(event, { userAgent: null })).toEqual(event);
+
+      const crawled = enrichFromRequest(
+        { ...event, device_type: undefined },
+        { userAgent: GOOGLEBOT },
+      );
+      expect(crawled.device_type).toBe('bot');
+    });
+  });
+
+  describe('journey session manager', () => {
+    function pageView(timestamp: string, fields: Partial<JourneyEvent> = {}): JourneyEvent {
+      return {
+        link_id: 'link-1',
+        visitor_id: 'v-1',
+        event_type: 'page_view',
+        page_url: '/',
+        timestamp,
+        ...fields,
+      } as JourneyEvent;
+    }
+
+    function idGenerator() {
+      let next = 0;
+      return () => `session-${++next}`;
+    }
+
+    it('continues sessions until the inactivity timeout', async () => {
+      const sessions = new JourneySessionManager({ timeoutMs: 60_000, generateId: idGenerator() });
+
+      const stamped = await sessions.stampAll([
+        pageView('2026-03-01T10:00:00Z'),
+        pageView('2026-03-01T10:00:59Z'),
+        pageView('2026-03-01T10:02:00Z'),
+        pageView('2026-03-01T10:02:00Z', { visitor_id: 'v-2' }),
+      ]);
+
+      expect(stamped.map((e) => e.session_id)).toEqual([
+        'session-1',
+        'session-1',
+        'session-2',
+        'session-3',
+      ]);
+      expect(await sessions.current('v-1')).toBeUndefined();
+    });
+
+    it('starts new sessions at midnight and on campaign changes', async () => {
+      const sessions = new JourneySessionManager({
+        timeZone: 'America/New_York',
+        generateId: idGenerator(),
+      });
+
+      const stamped = await sessions.stampAll([
+        pageView('2026-03-02T04:50:00Z'), // 23:50 in New York
+        pageView('2026-03-02T05:05:00Z'), // 00:05, the next day
+        pageView('2026-03-02T05:10:00Z', { link_id: 'link-2' }),
+        pageView('2026-03-02T05:15:00Z', { link_id: 'link-2' }),
+      ]);
+
+      expect(stamped.map((e) => e.session_id)).toEqual([
+        'session-1',
+        'session-2',
+        'session-3',
+        'session-3',
+      ]);
+    });
+
+    it('stamps the time and keeps existing session ids', async () => {
+      const sessions = new JourneySessionManager();
+      const event = pageView('2026-03-01T10:00:00Z');
+      delete event.timestamp;
+
+      const stamped = await sessions.stamp(event);
+      expect(stamped.session_id).toEqual(expect.any(String));
+      expect(Date.parse(stamped.timestamp!)).not.toBeNaN();
+      expect(event).not.toHaveProperty('session_id');
+
+      const own = { ...event, session_id: 'mine' };
+      expect(await sessions.stamp(own)).toBe(own);
+
+      await sessions.end('v-1');
+      expect((await sessions.stamp(event)).session_id).not.toBe(stamped.session_id);
+    });
+
+    it('gives concurrent events of one visitor the same session', async () => {
+      const sessions = new JourneySessionManager();
+
+      const stamped = await Promise.all([
+        sessions.stamp(pageView('2026-03-01T10:00:00Z')),
+        sessions.stamp(pageView('2026-03-01T10:00:01Z')),
+      ]);
+
+      expect(stamped[0].session_id).toBe(stamped[1].session_id);
+    });
+
+    it('keeps sessions in a cookie', async () => {
+      const jar: string[] = [];
+      const document = {
+        get cookie() {
+          return jar.map((c) => c.split(';')[0]).join('; ');
+        },
+        set cookie(value: string) {
+          jar.length = 0;
+          jar.push(value);
+        },
+      };
+      const store = new CookieJourneySessionStore({ document, domain: '.example.com' });
+      const sessions = new JourneySessionManager({ store });
+
+      const first = await sessions.stamp(pageView('2026-03-01T10:00:00Z'));
+      expect(jar[0]).toMatch(
+        /^qck_session=[^;]+; Max-Age=86400; Path=\/; Domain=\.example\.com; SameSite=Lax$/,
+      );
+      const second = await new JourneySessionManager({ store }).stamp(
+        pageView('2026-03-01T10:10:00Z'),
+      );
+      expect(second.session_id).toBe(first.session_id);
+      expect(await store.get('v-2')).toBeUndefined();
+
+      await store.delete('v-1');
+      expect(jar[0]).toMatch(/^qck_session=; Max-Age=0;/);
+    });
+
+    it('picks up sessions other tabs write to the shared cookie', async () => {
+      let cookie = '';
+      const document = {
+        get cookie() {
+          return cookie;
+        },
+        set cookie(value: string) {
+          cookie = value.split(';')[0];
+        },
+      };
+      const tab = (name: string) => {
+        let next = 0;
+        return new JourneySessionManager({
+          store: new CookieJourneySessionStore({ document }),
+          timeoutMs: 60_000,
+          generateId: () => `${name}-${++next}`,
+        });
+      };
+      const idle = tab('idle');
+      const active = tab('active');
+
+      await idle.stamp(pageView('2026-03-01T10:00:00Z'));
+      await active.stamp(pageView('2026-03-01T10:00:50Z'));
+      const activeSession = await active.stamp(pageView('2026-03-01T10:01:40Z'));
+      const idleSession = await idle.stamp(pageView('2026-03-01T10:02:00Z'));
+
+      // The active tab kept the idle tab's session alive, so both share it.
+      expect(activeSession.session_id).toBe('idle-1');
+      expect(idleSession.session_id).toBe('idle-1');
+    });
+
+    it('sees its own cookie writes when the cookie source is read-only', async () => {
+      function request(cookieHeader: string) {
+        const setCookies: string[] = [];
+        const store = new CookieJourneySessionStore({
+          document: {
+            get cookie() {
+              return cookieHeader;
+            },
+            set cookie(value: string) {
+              setCookies.push(value);
+            },
+          },
+        });
+        return { sessions: new JourneySessionManager({ store }), setCookies };
+      }
+
+      const first = request('');
+      const stamped = await first.sessions.stampAll([
+        pageView('2026-03-01T10:00:00Z'),
+        pageView('2026-03-01T10:00:01Z'),
+        pageView('2026-03-01T10:00:02Z'),
+      ]);
+      expect(new Set(stamped.map((e) => e.session_id)).size).toBe(1);
+
+      const cookie = first.setCookies[first.setCookies.length - 1].split(';')[0];
+      const second = request(`theme=dark; ${cookie}`);
+      const [next] = await second.sessions.stampAll([pageView('2026-03-01T10:05:00Z')]);
+      expect(next.session_id).toBe(stamped[0].session_id);
+    });
+  });
 });
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AuthenticationError, QCKError } from '../src/index.js';
+import * as publicEntry from '../src/public/index.js';
+import { createPublicClient } from '../src/public/index.js';
+import { FakeQCKApi } from '../src/testing/index.js';
+
+// ── Helpers ──
+
+function ingestFetch() {
+  return vi.fn().mockResolvedValue({
+    ok: true,
+    status: 202,
+    headers: new Headers(),
+    json: () => Promise.resolve({ success: true, data: null }),
+  });
+}
+
+// ── Tests ──
+
+describe('createPublicClient', () => {
+  it('ingests events with the publishable key header only', async () => {
+    const fetchMock = ingestFetch();
+    const qck = createPublicClient({
+      publishableKey: 'qck_pk_test_123',
+      baseUrl: 'https://api.test.com',
+      fetch: fetchMock,
+    });
+
+    await qck.journey.ingest({
+      events: [{ link_id: 'l', visitor_id: 'v', event_type: 'page_view', page_url: '/' }],
+    });
+    await qck.conversions.track({ link_id: 'l', visitor_id: 'v', name: 'signup' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    for (const [url, init] of fetchMock.mock.calls) {
+      const headers = (init as RequestInit).headers as Record<string, string>;
+      expect(url).toBe('https://api.test.com/journey/events');
+      expect(headers['X-Publishable-Key']).toBe('qck_pk_test_123');
+      expect(headers).not.toHaveProperty('X-API-Key');
+    }
+  });
+
+  it('ingests events into the fake API, which refuses the key on other routes', async () => {
+    const api = new FakeQCKApi();
+    const qck = createPublicClient({ publishableKey: 'qck_pk_test', fetch: api.fetch });
+
+    await qck.journey.ingest({
+      events: [{ link_id: 'l', visitor_id: 'v', event_type: 'page_view', page_url: '/' }],
+    });
+    await qck.conversions.track({ link_id: 'l', visitor_id: 'v', name: 'signup' });
+    expect(api.events.map((e) => e.event_type)).toEqual(['page_view', 'conversion']);
+
+    // The public client has no admin resources, so call another route directly.
+    const listLinks = await api.fetch('https://api.qck.sh/public-api/v1/links', {
+      headers: { 'X-Publishable-Key': 'qck_pk_test' },
+    });
+    expect(listLinks.status).toBe(403);
+
+    const wrongKey = createPublicClient({
+      publishableKey: 'qck_pk_other',
+      fetch: new FakeQCKApi({ publishableKey: 'qck_pk_test' }).fetch,
+      retries: 0,
+    });
+    await expect(
+      wrongKey.conversions.track({ link_id: 'l', visitor_id: 'v', name: 'signup' }),
+    ).rejects.toThrow(AuthenticationError);
+  });
+
+  it('exports the same error classes as the main entry', async () => {
+    expect(publicEntry.QCKError).toBe(QCKError);
+    expect(publicEntry.AuthenticationError).toBe(AuthenticationError);
+
+    const qck = createPublicClient({
+      publishableKey: 'qck_pk_other',
+      fetch: new FakeQCKApi({ publishableKey: 'qck_pk_test' }).fetch,
+      retries: 0,
+    });
+    const err = await qck.conversions
+      .track({ link_id: 'l', visitor_id: 'v', name: 'signup' })
+      .catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(publicEntry.AuthenticationError);
+    expect(err).toBeInstanceOf(publicEntry.QCKError);
+  });
+
+  it('exposes only journey ingestion and conversion tracking', () => {
+    const qck = createPublicClient({ publishableKey: 'qck_pk_test_123' });
+
+    expect(Object.keys(qck.journey)).toEqual(['ingest']);
+    expect(Object.keys(qck.conversions)).toEqual(['track']);
+    expect(qck).not.toHaveProperty('links');
+    expect(qck).not.toHaveProperty('webhooks');
+  });
+
+  it('refuses secret API keys', () => {
+    expect(() => createPublicClient({ publishableKey: 'qck_live_abc123' })).toThrow(
+      /secret API key/,
+    );
+    expect(() =>
+      createPublicClient({ publishableKey: 'qck_pk_abc', apiKey: 'qck_live_abc' } as never),
+    ).toThrow(/secret API key/);
+  });
+
+  it('requires a publishable key', () => {
+    expect(() => createPublicClient({ publishableKey: '' })).toThrow(/requires a publishable key/);
+    expect(() => createPublicClient({ publishableKey: 'pk_abc' })).toThrow(
+      /requires a publishable key/,
+    );
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  QCK,
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  WebhookEvents,
+  createWebhookHandler,
+  type WebhookEventPayload,
+} from '../src/index.js';
+import { FakeQCKApi, WebhookTrigger } from '../src/testing/index.js';
+
+// ── Tests ──
+
+describe('FakeQCKApi', () => {
+  let api: FakeQCKApi;
+  let qck: QCK;
+
+  beforeEach(() => {
+    api = new FakeQCKApi();
+    qck = new QCK({ apiKey: 'qck_test', fetch: api.fetch, retryPolicy: { baseDelayMs: 0 } });
+  });
+
+  describe('links', () => {
+    it('supports create, get, update, and delete', async () => {
+      const created = await qck.links.create({ url: 'https://example.com', tags: ['a'] });
+      expect(created.short_url).toBe(`https://qck.sh/${created.link_id}`);
+
+      await expect(qck.links.get(created.id)).resolves.toEqual(created);
+
+      const updated = await qck.links.update(created.id, { title: 'Hello', is_active: false });
+      expect(updated.title).toBe('Hello');
+      expect(updated.is_active).toBe(false);
+
+      await qck.links.delete(created.id);
+      await expect(qck.links.get(created.id)).rejects.toThrow(NotFoundError);
+    });
+
+    it('rejects taken aliases with ConflictError', async () => {
+      await qck.links.create({ url: 'https://example.com', custom_alias: 'promo' });
+
+      await expect(
+        qck.links.create({ url: 'https://example.org', custom_alias: 'promo' }),
+      ).rejects.toThrow(ConflictError);
+      await expect(
+        qck.links.bulkCreate({
+          links: [
+            { url: 'https://a.com', custom_alias: 'dup' },
+            { url: 'https://b.com', custom_alias: 'dup' },
+          ],
+        }),
+      ).rejects.toThrow(ConflictError);
+      expect(api.links).toHaveLength(1);
+    });
+
+    it('reports invalid URLs as field errors', async () => {
+      const err = await qck.links.create({ url: 'not a url' }).catch((e: unknown) => e);
+
+      expect(err).toBeInstanceOf(ValidationError);
+      expect((err as ValidationError).fieldErrors).toEqual([
+        { field: 'url', message: 'Must be a valid HTTP or HTTPS URL', code: 'invalid_url' },
+      ]);
+    });
+
+    it('filters, sorts, and paginates', async () => {
+      await qck.links.bulkCreate({
+        links: [
+          { url: 'https://a.com', tags: ['x'] },
+          { url: 'https://b.com', tags: ['y'] },
+          { url: 'https://c.com', tags: ['x'] },
+        ],
+      });
+
+      const tagged = await qck.links.list({
+        tags: ['x'],
+        sort_by: 'original_url',
+        sort_order: 'asc',
+      });
+      expect(tagged.total).toBe(2);
+      expect(tagged.data.map((l) => l.original_url)).toEqual(['https://a.com', 'https://c.com']);
+
+      const page = await qck.links.list({ page: 2, per_page: 2 });
+      expect(page).toMatchObject({ total: 3, page: 2, limit: 2 });
+      expect(page.data).toHaveLength(1);
+
+      expect(await qck.links.listAll({ per_page: 1 }).toArray()).toHaveLength(3);
+    });
+  });
+
+  describe('webhooks and domains', () => {
+    it('records deliveries for subscribed link events', async () => {
+      const webhook = await qck.webhooks.create({
+        url: 'https://example.com/hooks',
+        events: [WebhookEvents.LINK_CREATED],
+      });
+      expect(webhook.secret).toBeDefined();
+
+      await qck.links.create({ url: 'https://example.com' });
+      await qck.webhooks.test(webhook.id);
+
+      const deliveries = await qck.webhooks.listDeliveries(webhook.id);
+      expect(deliveries.data.map((d) => d.event_type)).toEqual(['webhook.test', 'link.created']);
+      expect((await qck.webhooks.list())[0].secret).toBeUndefined();
+    });
+
+    it('lists added domains and hosts links on them', async () => {
+      api.addDomain({ domain: 'go.example.com' });
+
+      const domains = await qck.domains.list();
+      expect(domains.map((d) => d.domain)).toEqual(['go.example.com']);
+
+      const link = await qck.links.create({ url: 'https://example.com', domain_id: domains[0].id });
+      expect(link.short_url).toMatch(/^https:\/\/go\.example\.com\//);
+    });
+  });
+
+  describe('journey and analytics', () => {
+    it('ingests events and serves sessions and conversion summaries', async () => {
+      const link = await qck.links.create({ url: 'https://example.com' });
+      await qck.journey.ingest({
+        events: [
+          {
+            link_id: link.id,
+            visitor_id: 'v1',
+            session_id: 's1',
+            event_type: 'page_view',
+            page_url: 'https://example.com/',
+          },
+        ],
+      });
+      await qck.conversions.track({
+        link_id: link.id,
+        visitor_id: 'v1',
+        session_id: 's1',
+        name: 'purchase',
+        revenue: 49.99,
+      });
+
+      const sessions = await qck.journey.listSessions(link.id);
+      expect(sessions.data[0]).toMatchObject({ session_id: 's1', event_count: 2 });
+
+      const summary = await qck.conversions.summary();
+      expect(summary).toMatchObject({ total_conversions: 1, total_revenue: 49.99 });
+    });
+
+    it('aggregates recorded clicks', async () => {
+      const link = await qck.links.create({ url: 'https://example.com', custom_alias: 'x' });
+      api.click('x', { visitor_id: 'a', country_code: 'DE' });
+      api.click('x', { visitor_id: 'a', country_code: 'DE' });
+      api.click('x', { visitor_id: 'b', is_bot: true });
+
+      expect(await qck.analytics.summary()).toMatchObject({ total_clicks: 2, unique_visitors: 1 });
+      expect(await qck.analytics.geo()).toEqual([
+        { country: 'DE', country_code: 'DE', clicks: 2, unique_visitors: 1 },
+      ]);
+      expect(await qck.links.get(link.id)).toMatchObject({ total_clicks: 3, bot_clicks: 1 });
+    });
+  });
+
+  describe('fault injection', () => {
+    it('retries injected 503s and replays by idempotency key', async () => {
+      api.failNext({ type: 'http', status: 503 }, { method: 'POST', path: '/links', times: 2 });
+
+      await qck.links.create({ url: 'https://example.com' });
+
+      const posts = api.requests.filter((r) => r.method === 'POST');
+      expect(posts).toHaveLength(3);
+      expect(new Set(posts.map((r) => r.headers.get('X-Idempotency-Key'))).size).toBe(1);
+      expect(api.links).toHaveLength(1);
+    });
+
+    it('injects 429 with Retry-After and 5xx without retries', async () => {
+      api
+        .failNext({ type: 'http', status: 429, retryAfter: 7 })
+        .failNext({ type: 'http', status: 500, message: 'Boom' });
+
+      const limited = await qck.links.list({}, { retries: 0 }).catch((e: unknown) => e);
+      expect(limited).toBeInstanceOf(RateLimitError);
+      expect((limited as RateLimitError).retryAfter).toBe(7);
+
+      await expect(qck.links.list()).rejects.toThrow(ServerError);
+      await expect(qck.links.list()).resolves.toMatchObject({ total: 0 });
+    });
+
+    it('injects timeouts and network errors', async () => {
+      api.failNext({ type: 'timeout' }).failNext({ type: 'network' });
+
+      const timedOut = await qck.links
+        .list({}, { timeout: 5, retries: 0 })
+        .catch((e: unknown) => e);
+      expect(timedOut).toBeInstanceOf(TimeoutError);
+
+      await expect(qck.links.list()).resolves.toBeDefined();
+      expect(api.requests).toHaveLength(3);
+    });
+
+    it('rejects unknown API keys when one is configured', async () => {
+      const strict = new FakeQCKApi({ apiKey: 'qck_right' });
+      const client = new QCK({ apiKey: 'qck_wrong', fetch: strict.fetch });
+
+      await expect(client.links.list()).rejects.toThrow(AuthenticationError);
+    });
+  });
+
+  describe('WebhookTrigger', () => {
+    const secret = 'whsec_test';
+    let received: WebhookEventPayload[];
+    let trigger: WebhookTrigger;
+
+    beforeEach(() => {
+      received = [];
+      const consumer = createWebhookHandler({
+        secret,
+        handlers: {},
+        fallback: (payload) => {
+          received.push(payload as WebhookEventPayload);
+        },
+      });
+      trigger = new WebhookTrigger({
+        url: 'http://localhost:3000/webhooks/qck',
+        secret,
+        fetch: (url, init) => consumer.fetch(new Request(url, init)),
+      });
+    });
+
+    it('delivers signed sample payloads with overrides', async () => {
+      const result = await trigger.send(WebhookEvents.LINK_CREATED, {
+        original_url: 'https://example.org',
+      });
+
+      expect(result).toMatchObject({ status: 200, ok: true, body: '{"received":true}' });
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatchObject({
+        event: 'link.created',
+        data: { original_url: 'https://example.org', short_url: 'https://qck.sh/abc123' },
+      });
+    });
+
+    it('reports consumer rejections', async () => {
+      const forged = new WebhookTrigger({
+        url: 'http://localhost:3000/webhooks/qck',
+        secret: 'whsec_wrong',
+        fetch: (url, init) =>
+          createWebhookHandler({ secret, handlers: {} }).fetch(new Request(url, init)),
+      });
+
+      const result = await forged.send(WebhookEvents.DOMAIN_VERIFIED);
+
+      expect(result).toMatchObject({ status: 400, ok: false });
+    });
+
+    it('replays delivery history from the API', async () => {
+      const webhook = await qck.webhooks.create({
+        url: 'https://example.com/hooks',
+        events: [WebhookEvents.LINK_CREATED, WebhookEvents.LINK_DELETED],
+      });
+      const link = await qck.links.create({ url: 'https://example.com' });
+      await qck.links.delete(link.id);
+
+      const history = qck.webhooks.listAllDeliveries(webhook.id);
+      const results = await trigger.replay(history, {
+        filter: (d) => d.event_type !== 'link.created',
+      });
+
+      expect(results.map((r) => r.status)).toEqual([200]);
+      expect(received.map((p) => p.event)).toEqual(['link.deleted']);
+      expect(received[0].data).toHaveProperty('deleted_at');
+    });
+
+    it('replays newest-first history oldest first', async () => {
+      const delivery = (id: string, event_type: string, created_at: string) => ({
+        id,
+        event_type,
+        status: 'success',
+        attempt_number: 1,
+        created_at,
+      });
+
+      await trigger.replay([
+        delivery('d-3', 'link.deleted', '2026-01-01T00:03:00Z'),
+        delivery('d-2', 'link.updated', '2026-01-01T00:02:00Z'),
+        delivery('d-1', 'link.created', '2026-01-01T00:01:00Z'),
+      ]);
+
+      expect(received.map((p) => p.event)).toEqual(['link.created', 'link.updated', 'link.deleted']);
+    });
+  });
+});
@@ -0,0 +1,420 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  constructWebhookEvent,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WebhookSignatureError,
+  QCKError,
+  isWebhookEvent,
+  WebhookEvents,
+  createWebhookHandler,
+  MemoryWebhookEventStore,
+  withDeduplication,
+  webhookEventKey,
+  type NodeWebhookRequest,
+  type NodeWebhookResponse,
+  type WebhookEventPayload,
+} from '../src/index.js';
+
+// ── Helpers ──
+
+const SECRET = 'whsec_test';
+
+const body = JSON.stringify({
+  event: 'link.created',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  data: { id: 'link-1' },
+});
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function payload(event: string, data: unknown = {}): string {
+  return JSON.stringify({ event, timestamp: '2026-01-01T00:00:00.000Z', data });
+}
+
+async function signedRequest(raw: string, secret = SECRET): Promise<Request> {
+  return new Request('https://example.com/webhooks/qck', {
+    method: 'POST',
+    headers: { 'X-QCK-Signature': await signWebhookPayload(raw, secret) },
+    body: raw,
+  });
+}
+
+function nodeRequest(
+  raw: string,
+  headers: Record<string, string>,
+  extra: Partial<NodeWebhookRequest> = {},
+): NodeWebhookRequest {
+  return {
+    method: 'POST',
+    headers,
+    async *[Symbol.asyncIterator]() {
+      yield raw.slice(0, 10);
+      yield new TextEncoder().encode(raw.slice(10));
+    },
+    ...extra,
+  };
+}
+
+type RecordedResponse = NodeWebhookResponse & { body?: string; headers: Record<string, string> };
+
+function nodeResponse(): RecordedResponse {
+  return {
+    statusCode: 200,
+    headers: {},
+    setHeader(name, value) {
+      this.headers[name] = value;
+    },
+    end(body) {
+      this.body = body;
+    },
+  };
+}
+
+async function reasonOf(promise: Promise<unknown>): Promise<string> {
+  const err = await promise.then(
+    () => null,
+    (e: unknown) => e,
+  );
+  expect(err).toBeInstanceOf(WebhookSignatureError);
+  return (err as WebhookSignatureError).reason;
+}
+
+// ── Tests ──
+
+describe('webhook signatures', () => {
+  it('verifies a signed delivery and returns the typed payload', async () => {
+    const headers = { 'x-qck-signature': await signWebhookPayload(body, SECRET) };
+
+    const event = await constructWebhookEvent(body, headers, SECRET);
+
+    expect(event.event).toBe('link.created');
+    expect(event.data).toEqual({ id: 'link-1' });
+  });
+
+  it('accepts Headers objects, byte bodies, and repeated header values', async () => {
+    const signature = await signWebhookPayload(body, SECRET);
+    const bytes = new TextEncoder().encode(body);
+
+    await expect(
+      verifyWebhookSignature(bytes, new Headers({ 'X-QCK-Signature': signature }), SECRET),
+    ).resolves.toBeUndefined();
+    await expect(
+      verifyWebhookSignature(bytes.buffer, { 'X-QCK-Signature': [signature] }, SECRET),
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects tampered bodies and wrong secrets', async () => {
+    const headers = { 'x-qck-signature': await signWebhookPayload(body, SECRET) };
+
+    expect(await reasonOf(verifyWebhookSignature(body + ' ', headers, SECRET))).toBe(
+      'no_matching_signature',
+    );
+    expect(await reasonOf(verifyWebhookSignature(body, headers, 'whsec_other'))).toBe(
+      'no_matching_signature',
+    );
+  });
+
+  it('accepts any of several secrets during rotation', async () => {
+    const headers = { 'x-qck-signature': await signWebhookPayload(body, 'whsec_old') };
+
+    await expect(
+      verifyWebhookSignature(body, headers, ['whsec_new', 'whsec_old']),
+    ).resolves.toBeUndefined();
+  });
+
+  it('accepts any of several v1 signatures in the header', async () => {
+    const valid = await signWebhookPayload(body, SECRET, now());
+    const other = await signWebhookPayload(body, 'whsec_other', now());
+    const header = `${other},${valid.split(',')[1]}`;
+
+    await expect(
+      verifyWebhookSignature(body, { 'x-qck-signature': header }, SECRET),
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects timestamps outside the tolerance', async () => {
+    const stale = { 'x-qck-signature': await signWebhookPayload(body, SECRET, now() - 301) };
+    const future = { 'x-qck-signature': await signWebhookPayload(body, SECRET, now() + 301) };
+
+    expect(await reasonOf(verifyWebhookSignature(body, stale, SECRET))).toBe(
+      'timestamp_outside_tolerance',
+    );
+    expect(await reasonOf(verifyWebhookSignature(body, future, SECRET))).toBe(
+      'timestamp_outside_tolerance',
+    );
+    await expect(
+      verifyWebhookSignature(body, stale, SECRET, { toleranceSeconds: 600 }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects missing and malformed headers', async () => {
+    expect(await reasonOf(verifyWebhookSignature(body, {}, SECRET))).toBe('missing_header');
+    expect(
+      await reasonOf(verifyWebhookSignature(body, { 'x-qck-signature': 'v1=abcd' }, SECRET)),
+    ).toBe('malformed_header');
+    expect(
+      await reasonOf(verifyWebhookSignature(body, { 'x-qck-signature': `t=${now()}` }, SECRET)),
+    ).toBe('malformed_header');
+  });
+
+  it('rejects signed bodies that are not webhook payloads', async () => {
+    const raw = 'not json';
+    const headers = { 'x-qck-signature': await signWebhookPayload(raw, SECRET) };
+
+    const err = await constructWebhookEvent(raw, headers, SECRET).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(QCKError);
+    expect(err).toMatchObject({ code: 'WEBHOOK_SIGNATURE_ERROR', reason: 'invalid_payload' });
+  });
+});
+
+describe('webhook event types', () => {
+  const linkCreated = JSON.parse(body) as unknown;
+
+  it('narrows payloads with isWebhookEvent', () => {
+    expect(isWebhookEvent(linkCreated, WebhookEvents.LINK_CREATED)).toBe(true);
+    expect(isWebhookEvent(linkCreated, WebhookEvents.LINK_DELETED)).toBe(false);
+    expect(isWebhookEvent(null, WebhookEvents.LINK_CREATED)).toBe(false);
+    expect(isWebhookEvent({ event: 'link.created' }, WebhookEvents.LINK_CREATED)).toBe(false);
+
+    if (isWebhookEvent(linkCreated, WebhookEvents.LINK_CREATED)) {
+      expect(linkCreated.data.id).toBe('link-1');
+    }
+  });
+
+  it('narrows data by switching on the event', () => {
+    const describePayload = (payload: WebhookEventPayload): string => {
+      switch (payload.event) {
+        case 'bulk_import.completed':
+          return `${payload.data.succeeded}/${payload.data.total}`;
+        case 'domain.verified':
+          return payload.data.domain;
+        default:
+          return payload.event;
+      }
+    };
+
+    expect(
+      describePayload({
+        event: 'bulk_import.completed',
+        timestamp: '2026-01-01T00:00:00.000Z',
+        data: { job_id: 'job-1', total: 3, succeeded: 2, failed: 1, errors: [] },
+      }),
+    ).toBe('2/3');
+  });
+});
+
+describe('createWebhookHandler', () => {
+  it('dispatches to exact handlers before category wildcards', async () => {
+    const calls: string[] = [];
+    const handler = createWebhookHandler({
+      secret: SECRET,
+      handlers: {
+        'link.created': ({ data }) => {
+          calls.push(`created:${data.id}`);
+        },
+        'links.*': ({ event }) => {
+          calls.push(`wildcard:${event}`);
+        },
+      },
+    });
+
+    const created = await handler.fetch(
+      await signedRequest(payload('link.created', { id: 'l1' })),
+    );
+    await handler.fetch(await signedRequest(payload('link.deleted')));
+
+    expect(created.status).toBe(200);
+    expect(await created.json()).toEqual({ received: true });
+    expect(calls).toEqual(['created:l1', 'wildcard:link.deleted']);
+  });
+
+  it('routes unmatched events to the fallback, or acknowledges them', async () => {
+    const seen: string[] = [];
+    const withFallback = createWebhookHandler({
+      secret: SECRET,
+      handlers: {},
+      fallback: ({ event }) => {
+        seen.push(event);
+      },
+    });
+    const without = createWebhookHandler({ secret: SECRET, handlers: {} });
+
+    const result = await withFallback.handle(
+      payload('widget.exploded'),
+      { 'x-qck-signature': await signWebhookPayload(payload('widget.exploded'), SECRET) },
+    );
+    const ignored = await without.fetch(await signedRequest(payload('team.member_added')));
+
+    expect(result).toMatchObject({ status: 200, event: 'widget.exploded', handled: true });
+    expect(seen).toEqual(['widget.exploded']);
+    expect(ignored.status).toBe(200);
+  });
+
+  it('responds 400 to unverified deliveries and 500 when a handler throws', async () => {
+    const errors: unknown[] = [];
+    const handler = createWebhookHandler({
+      secret: SECRET,
+      handlers: {
+        'link.created': () => {
+          throw new Error('database down');
+        },
+      },
+      onError: (err) => errors.push(err),
+    });
+
+    const forged = await handler.fetch(await signedRequest(payload('link.created'), 'wrong'));
+    const failed = await handler.fetch(await signedRequest(payload('link.created')));
+
+    expect(forged.status).toBe(400);
+    expect(await forged.json()).toEqual({ received: false, error: 'no_matching_signature' });
+    expect(failed.status).toBe(500);
+    expect(await failed.json()).toEqual({ received: false, error: 'handler_failed' });
+    expect(errors[0]).toBeInstanceOf(WebhookSignatureError);
+    expect((errors[1] as Error).message).toBe('database down');
+  });
+
+  it('rejects non-POST requests with 405', async () => {
+    const handler = createWebhookHandler({ secret: SECRET, handlers: {} });
+
+    const response = await handler.fetch(new Request('https://example.com/webhooks/qck'));
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('POST');
+  });
+
+  it('reads the body from Node requests and writes a JSON response', async () => {
+    const received: unknown[] = [];
+    const handler = createWebhookHandler({
+      secret: SECRET,
+      handlers: { 'domains.*': ({ data }) => received.push(data.domain) },
+    });
+    const raw = payload('domain.verified', { domain: 'go.example.com' });
+    const res = nodeResponse();
+
+    await handler.node(
+      nodeRequest(raw, { 'x-qck-signature': await signWebhookPayload(raw, SECRET) }),
+      res,
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['Content-Type']).toBe('application/json');
+    expect(res.body).toBe('{"received":true}');
+    expect(received).toEqual(['go.example.com']);
+  });
+
+  it('uses raw bodies from Express middleware and rejects parsed ones', async () => {
+    const handler = createWebhookHandler({ secret: SECRET, handlers: {} });
+    const raw = payload('link.created');
+    const headers = { 'x-qck-signature': await signWebhookPayload(raw, SECRET) };
+
+    const res = nodeResponse();
+    await new Promise<void>((resolve, reject) => {
+      res.end = (body) => {
+        res.body = body;
+        resolve();
+      };
+      handler.middleware(
+        nodeRequest('', headers, { body: new TextEncoder().encode(raw) }),
+        res,
+        reject,
+      );
+    });
+    expect(res.statusCode).toBe(200);
+
+    const next = await new Promise<unknown>((resolve) => {
+      const parsed = nodeRequest(raw, headers, { body: JSON.parse(raw) });
+      handler.middleware(parsed, nodeResponse(), resolve);
+    });
+    expect((next as Error).message).toMatch(/already-parsed body/);
+  });
+});
+
+describe('webhook deduplication', () => {
+  const event = JSON.parse(payload('conversion', { visitor_id: 'v1' })) as WebhookEventPayload;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs the handler once per event', async () => {
+    const handler = vi.fn();
+    const once = withDeduplication(handler);
+
+    expect(await once(event)).toBe(true);
+    expect(await once({ ...event })).toBe(false);
+    expect(await once({ ...event, data: { visitor_id: 'v2' } } as WebhookEventPayload)).toBe(true);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('releases the claim when the handler fails', async () => {
+    const handler = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue(undefined);
+    const once = withDeduplication(handler);
+
+    await expect(once(event)).rejects.toThrow('boom');
+    expect(await once(event)).toBe(true);
+    expect(await once(event)).toBe(false);
+  });
+
+  it('forgets events after the TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const once = withDeduplication(vi.fn(), { ttlMs: 1000 });
+
+    await once(event);
+    vi.setSystemTime(Date.now() + 1001);
+
+    expect(await once(event)).toBe(true);
+  });
+
+  it('evicts the least recently seen keys beyond capacity', () => {
+    const store = new MemoryWebhookEventStore({ maxEntries: 2 });
+
+    store.claim('a', 60_000);
+    store.claim('b', 60_000);
+    expect(store.claim('a', 60_000)).toBe(false);
+    store.claim('c', 60_000);
+
+    expect(store.size).toBe(2);
+    expect(store.claim('b', 60_000)).toBe(true);
+    expect(store.claim('c', 60_000)).toBe(false);
+  });
+
+  it('supports custom stores and keys', async () => {
+    const claimed = new Set<string>();
+    const store = {
+      claim: async (key: string) => !claimed.has(key) && !!claimed.add(key),
+      release: async (key: string) => void claimed.delete(key),
+    };
+    const once = withDeduplication(vi.fn(), { store, key: (p) => p.event });
+
+    await once(event);
+
+    expect([...claimed]).toEqual(['conversion']);
+    expect(await webhookEventKey(event)).toMatch(/^conversion:2026-01-01T00:00:00.000Z:[0-9a-f]{64}$/);
+  });
+
+  it('acknowledges redeliveries in createWebhookHandler without re-running handlers', async () => {
+    const onLink = vi.fn();
+    const handler = createWebhookHandler({ secret: SECRET, handlers: { 'link.created': onLink } });
+    const raw = payload('link.created', { id: 'l1' });
+    const headers = { 'x-qck-signature': await signWebhookPayload(raw, SECRET) };
+
+    const first = await handler.handle(raw, headers);
+    const second = await handler.handle(raw, headers);
+
+    expect(first).toMatchObject({ status: 200, handled: true, duplicate: false });
+    expect(second).toMatchObject({ status: 200, handled: false, duplicate: true });
+    expect(onLink).toHaveBeenCalledTimes(1);
+
+    const always = createWebhookHandler({
+      secret: SECRET,
+      handlers: { 'link.created': onLink },
+      dedupe: false,
+    });
+    await always.handle(raw, headers);
+    await always.handle(raw, headers);
+    expect(onLink).toHaveBeenCalledTimes(3);
+  });
+});
@@ -1,7 +1,12 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    testing: 'src/testing/index.ts',
+    browser: 'src/browser/index.ts',
+    public: 'src/public/index.ts',
+  },
   format: ['esm', 'cjs'],
   dts: true,
   clean: true,
@@ -9,5 +14,6 @@ export default defineConfig({
   minify: false,
   target: 'es2022',
   outDir: 'dist',
-  splitting: false,
+  // Entries share chunks (e.g. the error classes), so `instanceof` works across subpaths.
+  splitting: true,
 });